@@ -0,0 +1,82 @@
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { CallToolResult, RequestId } from '@modelcontextprotocol/sdk/types.js';
+
+import { getConfig } from '../config.js';
+import { writeToStderr } from '../logging/log.js';
+import { maskArgs } from '../logging/secretMask.js';
+import { getTableauAuthInfo } from '../server/oauth/getTableauAuthInfo.js';
+import { getCurrentSite } from '../sites.js';
+import { ToolName } from '../tools/toolName.js';
+import { getExceptionMessage } from '../utils/getExceptionMessage.js';
+import { getUsername } from '../utils/getUserIdentity.js';
+import { getAuditSink } from './init.js';
+
+// The arguments that hold the LUIDs of content, e.g. datasourceLuid, viewId and metricIds.
+const resourceIdArgNamePattern = /(Luid|Id|Ids|ID)$/;
+
+/**
+ * Records a tool call in the audit log configured by AUDIT_LOG, if any.
+ * A record that can't be written is reported on stderr rather than failing the tool call.
+ */
+export async function recordToolCall({
+  requestId,
+  authInfo,
+  toolName,
+  args,
+  callToolResult,
+  errorType,
+  getRows,
+  bytes,
+  durationMs,
+}: {
+  requestId: RequestId;
+  authInfo: AuthInfo | undefined;
+  toolName: ToolName;
+  args: unknown;
+  callToolResult: CallToolResult;
+  errorType?: string;
+  // Counts the rows of the result, which is only done when something records them
+  getRows?: () => number | undefined;
+  bytes: number;
+  durationMs: number;
+}): Promise<void> {
+  const auditSink = getAuditSink();
+  if (!auditSink) {
+    return;
+  }
+
+  const site = getCurrentSite();
+  try {
+    await auditSink.write({
+      timestamp: new Date().toISOString(),
+      requestId: requestId.toString(),
+      username: getUsername(getConfig(), getTableauAuthInfo(authInfo)),
+      clientId: authInfo?.clientId,
+      ...(site && { site }),
+      tool: toolName,
+      args: maskArgs(args),
+      resourceIds: getResourceIds(args),
+      outcome: callToolResult.isError ? 'error' : 'success',
+      ...(callToolResult.isError && { errorType: errorType ?? 'error' }),
+      rows: callToolResult.isError ? undefined : getRows?.(),
+      bytes,
+      durationMs,
+    });
+  } catch (error) {
+    writeToStderr(
+      `Could not write the audit record of request ${requestId}: ${getExceptionMessage(error)}`,
+    );
+  }
+}
+
+function getResourceIds(args: unknown): Array<string> {
+  if (!args || typeof args !== 'object') {
+    return [];
+  }
+
+  return Object.entries(args).flatMap(([name, value]) =>
+    resourceIdArgNamePattern.test(name)
+      ? [value].flat().filter((id): id is string => typeof id === 'string')
+      : [],
+  );
+}
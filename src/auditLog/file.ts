@@ -0,0 +1,121 @@
+import { appendFile, mkdir, readdir, readFile, unlink } from 'fs/promises';
+import { join } from 'path';
+
+import { ONE_DAY_IN_MS } from '../config.js';
+import { chainAuditRecord, findBrokenAuditRecord, GENESIS_HASH } from './hashChain.js';
+import { AuditRecord, AuditSink, ChainedAuditRecord } from './types.js';
+
+// e.g. audit-2025-10-15.jsonl
+const fileNamePattern = /^audit-(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+/**
+ * Appends audit records to a JSON Lines file per day, in UTC.
+ *
+ * The hash chain continues from the last record of the latest file, so it spans files and restarts.
+ * Files older than the retention period are deleted when the first record of a day is written.
+ * Writes are serialized within the process, but not across processes, so instances must not share the directory.
+ */
+export class FileAuditSink implements AuditSink {
+  private readonly _directory: string;
+  private readonly _retentionDays: number;
+  private _queue: Promise<unknown> = Promise.resolve();
+  private _lastHash: string | undefined;
+  private _currentDay: string | undefined;
+
+  constructor({ directory, retentionDays }: { directory: string; retentionDays: number }) {
+    this._directory = directory;
+    this._retentionDays = retentionDays;
+  }
+
+  write(record: AuditRecord): Promise<void> {
+    const result = this._queue.then(async () => {
+      const day = record.timestamp.slice(0, 10);
+      if (day !== this._currentDay) {
+        await mkdir(this._directory, { recursive: true });
+        this._lastHash ??= await this._readLastHash();
+        await this._deleteExpiredFiles(day);
+        this._currentDay = day;
+      }
+
+      const chainedRecord = chainAuditRecord(record, this._lastHash ?? GENESIS_HASH);
+      await appendFile(
+        join(this._directory, `audit-${day}.jsonl`),
+        `${JSON.stringify(chainedRecord)}\n`,
+        { mode: 0o600 },
+      );
+
+      this._lastHash = chainedRecord.hash;
+    });
+
+    this._queue = result.catch(() => undefined);
+    return result;
+  }
+
+  async close(): Promise<void> {
+    await this._queue;
+  }
+
+  private async _readLastHash(): Promise<string> {
+    const fileNames = await getAuditLogFileNames(this._directory);
+    for (const fileName of fileNames.reverse()) {
+      const lines = await readLines(join(this._directory, fileName));
+      const lastLine = lines.at(-1);
+      if (lastLine) {
+        return (JSON.parse(lastLine) as ChainedAuditRecord).hash;
+      }
+    }
+
+    return GENESIS_HASH;
+  }
+
+  private async _deleteExpiredFiles(day: string): Promise<void> {
+    const oldestKeptDay = new Date(Date.parse(day) - (this._retentionDays - 1) * ONE_DAY_IN_MS)
+      .toISOString()
+      .slice(0, 10);
+
+    for (const fileName of await getAuditLogFileNames(this._directory)) {
+      const [, fileDay] = fileName.match(fileNamePattern) ?? [];
+      if (fileDay < oldestKeptDay) {
+        await unlink(join(this._directory, fileName));
+      }
+    }
+  }
+}
+
+/**
+ * Verifies the hash chain of the audit log files in a directory.
+ *
+ * @returns Where the chain is broken, e.g. "audit-2025-10-15.jsonl, line 12", or undefined when it is intact
+ */
+export async function findBrokenAuditLogLine(directory: string): Promise<string | undefined> {
+  const records: Array<ChainedAuditRecord> = [];
+  const locations: Array<string> = [];
+
+  for (const fileName of await getAuditLogFileNames(directory)) {
+    const lines = await readLines(join(directory, fileName));
+    for (const [i, line] of lines.entries()) {
+      const location = `${fileName}, line ${i + 1}`;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        return location;
+      }
+
+      locations.push(location);
+    }
+  }
+
+  const brokenIndex = findBrokenAuditRecord(records);
+  return brokenIndex === -1 ? undefined : locations[brokenIndex];
+}
+
+// The names of the audit log files, from the oldest to the latest.
+async function getAuditLogFileNames(directory: string): Promise<Array<string>> {
+  const fileNames = await readdir(directory);
+  return fileNames.filter((fileName) => fileNamePattern.test(fileName)).sort();
+}
+
+async function readLines(path: string): Promise<Array<string>> {
+  const contents = await readFile(path, 'utf8');
+  return contents.split('\n').filter((line) => line);
+}
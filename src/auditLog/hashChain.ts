@@ -0,0 +1,33 @@
+import { createHash } from 'crypto';
+
+import { AuditRecord, ChainedAuditRecord } from './types.js';
+
+// The previous hash of the first record of a chain.
+export const GENESIS_HASH = '0'.repeat(64);
+
+export function chainAuditRecord(record: AuditRecord, previousHash: string): ChainedAuditRecord {
+  return { ...record, previousHash, hash: hashAuditRecord(record, previousHash) };
+}
+
+/**
+ * Verifies that each record of a chain has the hash of its contents and follows the record before it.
+ * The first record is not expected to start the chain, since the records before it may have been deleted
+ * by the retention policy.
+ *
+ * @param records - The records, in the order they were written
+ * @returns The index of the first record that breaks the chain, or -1 when the chain is intact
+ */
+export function findBrokenAuditRecord(records: Array<ChainedAuditRecord>): number {
+  return records.findIndex(({ previousHash, hash, ...record }, i) => {
+    const expectedPreviousHash = i === 0 ? previousHash : records[i - 1].hash;
+    return (
+      typeof expectedPreviousHash !== 'string' ||
+      previousHash !== expectedPreviousHash ||
+      hash !== hashAuditRecord(record, expectedPreviousHash)
+    );
+  });
+}
+
+function hashAuditRecord(record: AuditRecord, previousHash: string): string {
+  return createHash('sha256').update(previousHash).update(JSON.stringify(record)).digest('hex');
+}
@@ -0,0 +1,39 @@
+import { getConfig } from '../config.js';
+import { FileAuditSink } from './file.js';
+import { AuditSink } from './types.js';
+import { WebhookAuditSink } from './webhook.js';
+
+let auditSink: AuditSink | null | undefined;
+
+/**
+ * Gets the audit sink configured by AUDIT_LOG, creating it on first use, or null when the audit log is disabled.
+ */
+export function getAuditSink(): AuditSink | null {
+  if (auditSink === undefined) {
+    const config = getConfig();
+
+    switch (config.auditLog) {
+      case 'file':
+        auditSink = new FileAuditSink({
+          directory: config.auditLogDirectory,
+          retentionDays: config.auditLogRetentionDays,
+        });
+        break;
+      case 'webhook':
+        auditSink = new WebhookAuditSink({
+          url: config.auditWebhookUrl,
+          secret: config.auditWebhookSecret,
+        });
+        break;
+      default:
+        auditSink = null;
+    }
+  }
+
+  return auditSink;
+}
+
+export async function closeAuditSink(): Promise<void> {
+  await auditSink?.close();
+  auditSink = undefined;
+}
@@ -0,0 +1,60 @@
+export const auditSinkTypes = ['file', 'webhook'] as const;
+export type AuditSinkType = (typeof auditSinkTypes)[number];
+
+export function isAuditSinkType(type: unknown): type is AuditSinkType {
+  return !!auditSinkTypes.find((t) => t === type);
+}
+
+/**
+ * What the audit log records of a tool call.
+ */
+export type AuditRecord = {
+  // ISO 8601
+  timestamp: string;
+  requestId: string;
+
+  // The Tableau user the tool was called by, if known, and the OAuth client they connected with
+  username?: string;
+  clientId?: string;
+
+  // The alias of the site from the site registry, if the tool was called for another site
+  site?: string;
+
+  tool: string;
+
+  // The arguments of the tool call, with their secrets redacted
+  args: unknown;
+
+  // The LUIDs of the datasources, workbooks, views and metrics the arguments refer to
+  resourceIds: Array<string>;
+
+  outcome: 'success' | 'error';
+
+  // e.g. "policy-denied" or "datasource-not-allowed"
+  errorType?: string;
+
+  // The rows and bytes of the result returned to the client
+  rows?: number;
+  bytes: number;
+
+  durationMs: number;
+};
+
+/**
+ * An audit record linked to the one before it, so records that were changed, removed or reordered can be detected.
+ * The hash is the SHA-256 of the previous hash and the JSON of the record.
+ */
+export type ChainedAuditRecord = AuditRecord & {
+  previousHash: string;
+  hash: string;
+};
+
+/**
+ * Where audit records are written to.
+ */
+export interface AuditSink {
+  write(record: AuditRecord): Promise<void>;
+
+  // Waits for the records that are still being written
+  close(): Promise<void>;
+}
@@ -0,0 +1,53 @@
+import axiosRetry from 'axios-retry';
+import { createHmac } from 'crypto';
+
+import { axios } from '../utils/axios.js';
+import { chainAuditRecord, GENESIS_HASH } from './hashChain.js';
+import { AuditRecord, AuditSink } from './types.js';
+
+/**
+ * Posts each audit record as JSON to a webhook, in the order they were recorded.
+ *
+ * When a secret is set, the body is signed with it in the X-Audit-Signature header,
+ * as "sha256=" followed by the hex HMAC-SHA256 of the body.
+ * The hash chain starts over when the process starts, and retention is left to the receiver.
+ */
+export class WebhookAuditSink implements AuditSink {
+  private readonly _url: string;
+  private readonly _secret: string;
+  private readonly _client = axios.create();
+  private _queue: Promise<unknown> = Promise.resolve();
+  private _lastHash = GENESIS_HASH;
+
+  constructor({ url, secret }: { url: string; secret: string }) {
+    this._url = url;
+    this._secret = secret;
+    axiosRetry(this._client, { retries: 3, retryDelay: axiosRetry.exponentialDelay });
+  }
+
+  write(record: AuditRecord): Promise<void> {
+    // The record is chained right away, so a record that can't be delivered leaves a gap the receiver can detect.
+    const chainedRecord = chainAuditRecord(record, this._lastHash);
+    this._lastHash = chainedRecord.hash;
+
+    const result = this._queue.then(async () => {
+      const body = JSON.stringify(chainedRecord);
+      await this._client.post(this._url, body, {
+        timeout: 10_000,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this._secret && {
+            'X-Audit-Signature': `sha256=${createHmac('sha256', this._secret).update(body).digest('hex')}`,
+          }),
+        },
+      });
+    });
+
+    this._queue = result.catch(() => undefined);
+    return result;
+  }
+
+  async close(): Promise<void> {
+    await this._queue;
+  }
+}
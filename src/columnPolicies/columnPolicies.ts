@@ -0,0 +1,192 @@
+import { createHmac } from 'crypto';
+
+import { Query, QueryOutput } from '../sdks/tableau/apis/vizqlDataServiceApi.js';
+import { formatCsv, parseCsv } from '../utils/csv.js';
+import { ColumnPolicyRule } from './types.js';
+
+const maskedValue = '****';
+
+/**
+ * Gets the rules that apply to the fields of a datasource: its own rules, then the rules of "*".
+ * Without a datasource, e.g. for view data whose datasources are unknown, the rules of every datasource apply.
+ *
+ * @param columnPolicies - The column policies configured by COLUMN_POLICIES
+ * @param datasourceLuid - The LUID of the datasource
+ */
+export function getColumnPolicyRules(
+  columnPolicies: Map<string, Array<ColumnPolicyRule>> | null,
+  datasourceLuid?: string,
+): Array<ColumnPolicyRule> {
+  if (!columnPolicies) {
+    return [];
+  }
+
+  const rulesForAll = columnPolicies.get('*') ?? [];
+  if (datasourceLuid === undefined) {
+    return [
+      ...[...columnPolicies].flatMap(([luid, rules]) => (luid === '*' ? [] : rules)),
+      ...rulesForAll,
+    ];
+  }
+
+  return [...(columnPolicies.get(datasourceLuid) ?? []), ...rulesForAll];
+}
+
+/**
+ * Gets the first rule that applies to a field, if any.
+ *
+ * @param rules - The rules that apply to the datasource of the field
+ * @param fieldCaption - The caption of the field, or the name of a column of view data
+ */
+export function getColumnPolicyRule(
+  rules: Array<ColumnPolicyRule>,
+  fieldCaption: string,
+): ColumnPolicyRule | undefined {
+  return rules.find((rule) =>
+    rule.field
+      ? rule.field.toLowerCase() === fieldCaption.toLowerCase()
+      : new RegExp(rule.pattern ?? '', 'i').test(fieldCaption),
+  );
+}
+
+/**
+ * Gets the captions of the fields a calculation refers to, e.g. "Sales" for "SUM([Sales])".
+ */
+export function getCalculationFieldCaptions(calculation: string): Array<string> {
+  return [...calculation.matchAll(/\[([^\]]+)\]/g)].map(([, caption]) => caption);
+}
+
+/**
+ * Applies the masking action of a rule to a value. Null values are kept so they can still be told apart.
+ * Values of denied fields are not expected, since their columns are removed instead.
+ *
+ * @param rule - The rule that applies to the field of the value
+ * @param value - The value
+ * @param hashSecret - The key of the HMAC that hashed values are replaced with, set by COLUMN_POLICY_HASH_SECRET
+ */
+export function applyColumnPolicyRule(
+  rule: ColumnPolicyRule,
+  value: unknown,
+  hashSecret: string,
+): unknown {
+  if (value === null || value === undefined || value === '') {
+    return value;
+  }
+
+  switch (rule.action) {
+    case 'deny':
+    case 'mask':
+      return maskedValue;
+    case 'hash':
+      // Keyed, so values can't be found by hashing guesses, and hashes can't be matched across deployments.
+      return createHmac('sha256', hashSecret).update(String(value)).digest('hex').slice(0, 16);
+    case 'bucket': {
+      // View data holds formatted numbers, e.g. "1,234.5".
+      const number = typeof value === 'number' ? value : Number(String(value).replace(/,/g, ''));
+      if (isNaN(number)) {
+        return maskedValue;
+      }
+
+      const bucket = Math.floor(number / (rule.bucketSize ?? 1)) * (rule.bucketSize ?? 1);
+      return typeof value === 'number' ? bucket : String(bucket);
+    }
+  }
+}
+
+/**
+ * Applies the column policies to the rows of the output of a query, whether VDS returned them as objects or arrays.
+ * The query is expected to have been validated, so it has no denied fields.
+ *
+ * @param rules - The rules that apply to the datasource that was queried
+ * @param query - The query
+ * @param queryOutput - The output of the query
+ * @param hashSecret - The key hashed values are hashed with
+ */
+export function applyColumnPoliciesToQueryOutput(
+  rules: Array<ColumnPolicyRule>,
+  query: Query,
+  queryOutput: QueryOutput,
+  hashSecret: string,
+): QueryOutput {
+  if (rules.length === 0 || !queryOutput.data) {
+    return queryOutput;
+  }
+
+  const columnRules = query.fields.map((field) => ({
+    // The key VDS returns the values of the field with when the return format is OBJECTS.
+    name:
+      field.fieldAlias ??
+      ('function' in field && field.function
+        ? `${field.function}(${field.fieldCaption})`
+        : field.fieldCaption),
+    rule: getColumnPolicyRule(rules, field.fieldCaption),
+  }));
+
+  if (!columnRules.some(({ rule }) => rule)) {
+    return queryOutput;
+  }
+
+  return {
+    ...queryOutput,
+    data: queryOutput.data.map((row) => {
+      if (Array.isArray(row)) {
+        return row.map((value, i) => {
+          const rule = columnRules[i]?.rule;
+          return rule ? applyColumnPolicyRule(rule, value, hashSecret) : value;
+        });
+      }
+
+      if (row && typeof row === 'object') {
+        return Object.fromEntries(
+          Object.entries(row).map(([key, value]) => {
+            const rule = columnRules.find(({ name }) => name === key)?.rule;
+            return [key, rule ? applyColumnPolicyRule(rule, value, hashSecret) : value];
+          }),
+        );
+      }
+
+      return row;
+    }),
+  };
+}
+
+/**
+ * Applies the column policies to CSV data whose first record has the column names, e.g. the data of a view.
+ * The columns of denied fields are removed.
+ *
+ * @param rules - The rules that apply to the data
+ * @param csv - The CSV data
+ * @param hashSecret - The key hashed values are hashed with
+ */
+export function applyColumnPoliciesToCsv(
+  rules: Array<ColumnPolicyRule>,
+  csv: string,
+  hashSecret: string,
+): string {
+  if (rules.length === 0) {
+    return csv;
+  }
+
+  const [header, ...records] = parseCsv(csv);
+  if (!header) {
+    return csv;
+  }
+
+  const columnRules = header.map((name) => getColumnPolicyRule(rules, name));
+  if (!columnRules.some((rule) => rule)) {
+    return csv;
+  }
+
+  const keptColumns = header.flatMap((_, i) => (columnRules[i]?.action === 'deny' ? [] : i));
+  return formatCsv([
+    keptColumns.map((i) => header[i]),
+    ...records.map((record) =>
+      keptColumns.map((i) => {
+        const rule = columnRules[i];
+        return rule
+          ? String(applyColumnPolicyRule(rule, record[i] ?? '', hashSecret))
+          : (record[i] ?? '');
+      }),
+    ),
+  ]);
+}
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+
+export const columnPolicyActions = ['deny', 'mask', 'hash', 'bucket'] as const;
+export type ColumnPolicyAction = (typeof columnPolicyActions)[number];
+
+/**
+ * A rule of the column policies configured by COLUMN_POLICIES.
+ *
+ * A rule applies to the fields whose caption is its field, or matches its pattern, case-insensitively.
+ * - deny: the field can't be queried, and its column is removed from view data.
+ * - mask: the values are replaced with "****".
+ * - hash: the values are replaced with a hash, so they can still be grouped and counted.
+ * - bucket: numbers are rounded down to a multiple of the bucket size.
+ */
+export const columnPolicyRuleSchema = z
+  .object({
+    field: z.string().nonempty().optional(),
+    pattern: z
+      .string()
+      .nonempty()
+      .refine(isValidPattern, { message: 'Expected a valid regular expression' })
+      .optional(),
+    action: z.enum(columnPolicyActions),
+    bucketSize: z.number().positive().optional(),
+  })
+  .strict()
+  .refine((rule) => !!rule.field !== !!rule.pattern, {
+    message: 'Expected either a field or a pattern',
+  })
+  .refine((rule) => rule.action !== 'bucket' || rule.bucketSize !== undefined, {
+    message: 'The bucket action requires a bucketSize',
+  });
+
+export type ColumnPolicyRule = z.infer<typeof columnPolicyRuleSchema>;
+
+// The rules of each datasource, by datasource LUID. The rules of "*" apply to every datasource and view.
+export const columnPoliciesSchema = z.record(
+  z.string().nonempty(),
+  z.array(columnPolicyRuleSchema),
+);
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,185 @@
+import { getColumnPolicyRule } from '../columnPolicies/columnPolicies.js';
+import { getConfig } from '../config.js';
+import { useRestApi } from '../restApiInstance.js';
+import { getTableauAuthInfo } from '../server/oauth/getTableauAuthInfo.js';
+import {
+  buildFilterString,
+  constrainSearchContent,
+  reduceSearchContentResponse,
+} from '../tools/contentExploration/searchContentUtils.js';
+import { getDatasourceCredentials } from '../tools/queryDatasource/datasourceCredentials.js';
+import { queryDistinctFieldValues } from '../tools/queryDatasource/validators/validateFilterValues.js';
+import { resourceAccessChecker } from '../tools/resourceAccessChecker.js';
+import { CompletionParams } from './completions.js';
+
+// The number of search results to request from the Content Exploration API for a single completion.
+const SEARCH_RESULT_LIMIT = 20;
+
+/**
+ * Completes the LUID of a published datasource by searching datasource names.
+ */
+export const completeDatasourceLuid = async (params: CompletionParams): Promise<Array<string>> =>
+  await completeContentLuid({ ...params, contentType: 'datasource' });
+
+/**
+ * Completes the ID of a workbook by searching workbook names.
+ */
+export const completeWorkbookId = async (params: CompletionParams): Promise<Array<string>> =>
+  await completeContentLuid({ ...params, contentType: 'workbook' });
+
+/**
+ * Completes the ID of a view by searching view names.
+ */
+export const completeViewId = async (params: CompletionParams): Promise<Array<string>> =>
+  await completeContentLuid({ ...params, contentType: 'view' });
+
+/**
+ * Completes the caption of a field of the datasource given by the datasourceLuid argument.
+ */
+export const completeFieldCaption = async ({
+  server,
+  value,
+  context,
+  extra: { requestId, authInfo, signal },
+}: CompletionParams): Promise<Array<string>> => {
+  const datasourceLuid = context.datasourceLuid;
+  if (!datasourceLuid) {
+    return [];
+  }
+
+  const config = getConfig();
+  const isDatasourceAllowedResult = await resourceAccessChecker.isDatasourceAllowed({
+    datasourceLuid,
+    restApiArgs: { config, requestId, server, signal },
+  });
+
+  if (!isDatasourceAllowedResult.allowed) {
+    return [];
+  }
+
+  const readMetadataResult = await useRestApi({
+    config,
+    requestId,
+    server,
+    jwtScopes: ['tableau:viz_data_service:read'],
+    signal,
+    authInfo: getTableauAuthInfo(authInfo),
+    callback: async (restApi) =>
+      await restApi.vizqlDataServiceMethods.readMetadata({
+        datasource: { datasourceLuid },
+      }),
+  });
+
+  if (readMetadataResult.isErr()) {
+    return [];
+  }
+
+  const fieldCaptions = (readMetadataResult.value.data ?? [])
+    .map((field) => field.fieldCaption)
+    .filter((fieldCaption): fieldCaption is string => !!fieldCaption);
+  return filterByValue(fieldCaptions, value);
+};
+
+/**
+ * Completes a SET filter value of the field given by the datasourceLuid and fieldCaption arguments.
+ */
+export const completeFilterValue = async ({
+  server,
+  value,
+  context,
+  extra: { requestId, authInfo, signal },
+}: CompletionParams): Promise<Array<string>> => {
+  const { datasourceLuid, fieldCaption } = context;
+  if (!datasourceLuid || !fieldCaption) {
+    return [];
+  }
+
+  const config = getConfig();
+  const isDatasourceAllowedResult = await resourceAccessChecker.isDatasourceAllowed({
+    datasourceLuid,
+    restApiArgs: { config, requestId, server, signal },
+  });
+
+  if (
+    !isDatasourceAllowedResult.allowed ||
+    getColumnPolicyRule(resourceAccessChecker.getColumnPolicyRules(datasourceLuid), fieldCaption)
+  ) {
+    // The values of the fields protected by the column policies are not revealed either.
+    return [];
+  }
+
+  const distinctValuesResult = await useRestApi({
+    config,
+    requestId,
+    server,
+    jwtScopes: ['tableau:viz_data_service:read'],
+    signal,
+    authInfo: getTableauAuthInfo(authInfo),
+    callback: async (restApi) => {
+      const credentials = getDatasourceCredentials(datasourceLuid);
+      return await queryDistinctFieldValues(
+        restApi.vizqlDataServiceMethods,
+        { datasourceLuid, ...(credentials ? { connections: credentials } : {}) },
+        fieldCaption,
+      );
+    },
+  });
+
+  if (distinctValuesResult.isErr()) {
+    return [];
+  }
+
+  return filterByValue(distinctValuesResult.value, value);
+};
+
+async function completeContentLuid({
+  server,
+  value,
+  extra: { requestId, authInfo, signal },
+  contentType,
+}: CompletionParams & {
+  contentType: 'datasource' | 'workbook' | 'view';
+}): Promise<Array<string>> {
+  const config = getConfig();
+  const items = await useRestApi({
+    config,
+    requestId,
+    server,
+    jwtScopes: ['tableau:content:read'],
+    signal,
+    authInfo: getTableauAuthInfo(authInfo),
+    callback: async (restApi) =>
+      reduceSearchContentResponse(
+        await restApi.contentExplorationMethods.searchContent({
+          terms: value.trim() || undefined,
+          page: 0,
+          limit: SEARCH_RESULT_LIMIT,
+          filter: buildFilterString({ contentTypes: [contentType] }),
+        }),
+      ),
+  });
+
+  const constrainedItems = constrainSearchContent({
+    items,
+    boundedContext: await resourceAccessChecker.getBoundedContext({
+      config,
+      requestId,
+      server,
+      signal,
+    }),
+  });
+  if (constrainedItems.type !== 'success') {
+    return [];
+  }
+
+  return constrainedItems.result
+    .filter((item) => item.type === contentType)
+    .map((item) => item.luid)
+    .filter((luid): luid is string => typeof luid === 'string');
+}
+
+function filterByValue(candidates: Array<string>, value: string): Array<string> {
+  const lowerValue = value.toLowerCase();
+  const uniqueCandidates = [...new Set(candidates)];
+  return uniqueCandidates.filter((candidate) => candidate.toLowerCase().includes(lowerValue));
+}
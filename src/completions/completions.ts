@@ -0,0 +1,125 @@
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  CompleteRequest,
+  CompleteResult,
+  ServerNotification,
+  ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import { getConfig } from '../config.js';
+import { log } from '../logging/log.js';
+import { takeRateLimits } from '../rateLimits/rateLimits.js';
+import { Server } from '../server.js';
+import { getTableauAuthInfo } from '../server/oauth/getTableauAuthInfo.js';
+import { getTelemetryProvider } from '../telemetry/init.js';
+import { ToolName } from '../tools/toolName.js';
+import { getExceptionMessage } from '../utils/getExceptionMessage.js';
+import { getUserIdentity } from '../utils/getUserIdentity.js';
+import {
+  completeDatasourceLuid,
+  completeFieldCaption,
+  completeFilterValue,
+  completeViewId,
+  completeWorkbookId,
+} from './completers.js';
+
+// The MCP specification limits a completion result to 100 values.
+const MAX_COMPLETION_VALUES = 100;
+
+/**
+ * The parameters passed to an argument completer
+ */
+export type CompletionParams = {
+  // The MCP server instance
+  server: Server;
+
+  // The partial value of the argument being completed
+  value: string;
+
+  // The values of the arguments of the prompt or resource template that were already resolved
+  context: Record<string, string>;
+
+  // The extra information of the completion request
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>;
+};
+
+type ArgumentCompleter = {
+  // The tool whose data the completer reads, which the user must be able to call
+  toolName: ToolName;
+
+  complete: (params: CompletionParams) => Promise<Array<string>>;
+};
+
+/**
+ * Completers keyed by argument name.
+ * Prompt arguments and resource template variables share the same names,
+ * so a single completer serves every prompt and resource template that uses the argument.
+ */
+const argumentCompleters: Record<string, ArgumentCompleter | undefined> = {
+  datasourceLuid: { toolName: 'search-content', complete: completeDatasourceLuid },
+  workbookId: { toolName: 'search-content', complete: completeWorkbookId },
+  viewId: { toolName: 'search-content', complete: completeViewId },
+  fieldCaption: { toolName: 'get-datasource-metadata', complete: completeFieldCaption },
+  filterValue: { toolName: 'query-datasource', complete: completeFilterValue },
+};
+
+/**
+ * Handles a completion/complete request.
+ * A failing completer never fails the request; the client simply receives no suggestions.
+ * Neither does a completion of a disabled prompt or resource template, of a tool the user can't call,
+ * or that the rate limits of the tool don't allow.
+ */
+export async function getCompletions(
+  server: Server,
+  { params: { ref, argument, context } }: CompleteRequest,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+): Promise<CompleteResult> {
+  const completer = argumentCompleters[argument.name];
+  if (!completer || !server.isCompletionAllowed(ref, completer.toolName)) {
+    return getCompleteResult([]);
+  }
+
+  const config = getConfig();
+  const throttle = takeRateLimits({
+    config,
+    userKey: getUserIdentity(config, getTableauAuthInfo(extra.authInfo)),
+    toolName: completer.toolName,
+  });
+
+  if (throttle) {
+    return getCompleteResult([]);
+  }
+
+  getTelemetryProvider().recordMetric('mcp.completions', 1, {
+    argument_name: argument.name,
+    request_id: extra.requestId.toString(),
+  });
+
+  try {
+    return getCompleteResult(
+      await completer.complete({
+        server,
+        value: argument.value,
+        context: context?.arguments ?? {},
+        extra,
+      }),
+    );
+  } catch (error) {
+    log.warning(
+      server,
+      `Failed to complete argument ${argument.name} of ${ref.type === 'ref/prompt' ? ref.name : ref.uri}: ${getExceptionMessage(error)}`,
+      { requestId: extra.requestId },
+    );
+    return getCompleteResult([]);
+  }
+}
+
+function getCompleteResult(values: Array<string>): CompleteResult {
+  return {
+    completion: {
+      values: values.slice(0, MAX_COMPLETION_VALUES),
+      total: values.length,
+      hasMore: values.length > MAX_COMPLETION_VALUES,
+    },
+  };
+}
@@ -1,10 +1,24 @@
 import { CorsOptions } from 'cors';
 import { existsSync, readFileSync } from 'fs';
 import { join } from 'path';
+import { z } from 'zod';
 
-import { isTelemetryProvider, providerConfigSchema, TelemetryConfig } from './telemetry/types.js';
+import { AuditSinkType, auditSinkTypes, isAuditSinkType } from './auditLog/types.js';
+import { ColumnPolicyRule, columnPoliciesSchema } from './columnPolicies/types.js';
+import { readConfigFile, toEnvironmentVariableValue } from './configFile.js';
+import { loggingLevels } from './logging/log.js';
+import { isSessionStoreType, SessionStoreType, sessionStoreTypes } from './sessionStores/types.js';
+import { getCurrentSite } from './sites.js';
+import {
+  isTelemetryProvider,
+  otelProviderConfigSchema,
+  providerConfigSchema,
+  TelemetryConfig,
+  telemetryProviderSchema,
+} from './telemetry/types.js';
 import { isToolGroupName, isToolName, toolGroups, ToolName } from './tools/toolName.js';
-import { isTransport, TransportName } from './transports.js';
+import { ToolPolicyRule, toolPoliciesSchema } from './toolPolicies/types.js';
+import { isTransport, TransportName, transports } from './transports.js';
 import { getDirname } from './utils/getDirname.js';
 import invariant from './utils/invariant.js';
 
@@ -23,15 +37,346 @@ function isAuthType(auth: unknown): auth is AuthType {
   return !!authTypes.find((type) => type === auth);
 }
 
+const responseSizeUnits = ['characters', 'tokens'] as const;
+export type ResponseSizeUnit = (typeof responseSizeUnits)[number];
+
+function isResponseSizeUnit(unit: unknown): unit is ResponseSizeUnit {
+  return !!responseSizeUnits.find((u) => u === unit);
+}
+
+const siteConfigSchema = z
+  .object({
+    server: z.string().url(),
+    siteName: z.string(),
+    auth: z.enum(['pat', 'uat', 'direct-trust']).optional(),
+    patName: z.string().optional(),
+    patValue: z.string().optional(),
+    jwtUsername: z.string().optional(),
+    connectedAppClientId: z.string().optional(),
+    connectedAppSecretId: z.string().optional(),
+    connectedAppSecretValue: z.string().optional(),
+    uatTenantId: z.string().optional(),
+    uatIssuer: z.string().optional(),
+    uatUsernameClaimName: z.string().optional(),
+    uatPrivateKey: z.string().optional(),
+    uatKeyId: z.string().optional(),
+    includeProjectIds: z.string().nonempty().optional(),
+    includeDatasourceIds: z.string().nonempty().optional(),
+    includeWorkbookIds: z.string().nonempty().optional(),
+    includeTags: z.string().nonempty().optional(),
+    includeChildProjects: z.boolean().optional(),
+    certifiedDatasourcesOnly: z.boolean().optional(),
+    includeOwnerIds: z.string().nonempty().optional(),
+    excludeOwnerIds: z.string().nonempty().optional(),
+    maxResultLimit: z.number().int().positive().optional(),
+    maxResultLimits: z.string().optional(),
+  })
+  .strict();
+
+/**
+ * A Tableau site in the site registry configured by SITES.
+ * Credentials that are not set are the same as those of the default site.
+ */
+export type SiteConfig = z.infer<typeof siteConfigSchema>;
+
+const sitesSchema = z.record(z.string().regex(/^[\w-]+$/), siteConfigSchema);
+
+type NumberSettingOptions = { defaultValue: number; minValue?: number; maxValue?: number };
+
+// The defaults and bounds of the numeric settings.
+// Out-of-bounds values fall back to the default, but are reported by the doctor command.
+const numberSettings = {
+  PORT: { defaultValue: 3927, minValue: 1, maxValue: 65535 },
+  SESSION_STORE_TIMEOUT_MS: { defaultValue: 5000, minValue: 100, maxValue: 60 * 1000 },
+  SESSION_IDLE_TIMEOUT_MS: {
+    defaultValue: 30 * 60 * 1000,
+    minValue: 60 * 1000,
+    maxValue: ONE_DAY_IN_MS,
+  },
+  MAX_SESSIONS_PER_USER: { defaultValue: 10, minValue: 1 },
+  EVENT_STORE_SIZE: { defaultValue: 100, minValue: 0 },
+  AUDIT_LOG_RETENTION_DAYS: { defaultValue: 90, minValue: 1 },
+  REST_SESSION_TTL_MS: {
+    defaultValue: ONE_HOUR_IN_MS,
+    minValue: 60 * 1000,
+    maxValue: ONE_DAY_IN_MS,
+  },
+  TABLEAU_SERVER_VERSION_CHECK_INTERVAL_IN_HOURS: {
+    defaultValue: 1,
+    minValue: 1,
+    maxValue: 24 * 7, // 7 days
+  },
+  OAUTH_AUTHORIZATION_CODE_TIMEOUT_MS: {
+    defaultValue: TEN_MINUTES_IN_MS,
+    minValue: 0,
+    maxValue: ONE_HOUR_IN_MS,
+  },
+  OAUTH_ACCESS_TOKEN_TIMEOUT_MS: {
+    defaultValue: ONE_HOUR_IN_MS,
+    minValue: 0,
+    maxValue: THIRTY_DAYS_IN_MS,
+  },
+  OAUTH_REFRESH_TOKEN_TIMEOUT_MS: {
+    defaultValue: THIRTY_DAYS_IN_MS,
+    minValue: 0,
+    maxValue: ONE_YEAR_IN_MS,
+  },
+  MAX_REQUEST_TIMEOUT_MS: {
+    defaultValue: TEN_MINUTES_IN_MS,
+    minValue: 5000,
+    maxValue: ONE_HOUR_IN_MS,
+  },
+  MAX_REQUEST_RETRIES: { defaultValue: 3, minValue: 0, maxValue: 10 },
+  RESULT_CONTINUATION_TIMEOUT_MS: {
+    defaultValue: TEN_MINUTES_IN_MS,
+    minValue: 60 * 1000,
+    maxValue: ONE_DAY_IN_MS,
+  },
+  RESULT_CONTINUATION_MAX_ENTRIES: { defaultValue: 100, minValue: 1 },
+  MAX_QUERY_CURSOR_ROWS: { defaultValue: 100000, minValue: 1 },
+  QUERY_CURSOR_TIMEOUT_MS: {
+    defaultValue: TEN_MINUTES_IN_MS,
+    minValue: 60 * 1000,
+    maxValue: ONE_DAY_IN_MS,
+  },
+  QUERY_CURSOR_MAX_ENTRIES: { defaultValue: 100, minValue: 1 },
+  QUERY_CURSOR_MAX_ENTRIES_PER_USER: { defaultValue: 20, minValue: 1 },
+  // The query result cache is disabled unless a TTL is set.
+  QUERY_RESULT_CACHE_TTL_MS: { defaultValue: 0, minValue: 0, maxValue: ONE_DAY_IN_MS },
+  QUERY_RESULT_CACHE_MAX_ENTRIES: { defaultValue: 1000, minValue: 1 },
+  METADATA_CACHE_TTL_MS: { defaultValue: 5 * 60 * 1000, minValue: 0, maxValue: ONE_DAY_IN_MS },
+  METADATA_CACHE_MAX_ENTRIES: { defaultValue: 500, minValue: 1 },
+  CONCURRENCY_QUEUE_TIMEOUT_MS: { defaultValue: 30 * 1000, minValue: 0, maxValue: 10 * 60 * 1000 },
+  READINESS_CHECK_CACHE_TTL_MS: { defaultValue: 30 * 1000, minValue: 0, maxValue: 60 * 60 * 1000 },
+} satisfies Record<string, NumberSettingOptions>;
+
+function numberSetting({ minValue, maxValue }: NumberSettingOptions): z.ZodNumber {
+  let schema = z.coerce.number({ invalid_type_error: 'Expected a number' });
+  if (minValue !== undefined) {
+    schema = schema.gte(minValue);
+  }
+
+  if (maxValue !== undefined) {
+    schema = schema.lte(maxValue);
+  }
+
+  return schema;
+}
+
+const integerSetting = z.coerce.number({ invalid_type_error: 'Expected a number' }).int();
+
+const booleanSetting = z.enum(['true', 'false'], {
+  errorMap: () => ({ message: 'Expected "true" or "false"' }),
+});
+
+const urlSetting = z
+  .string()
+  .url()
+  .regex(/^https?:\/\//, 'Expected an http:// or https:// URL');
+
+const toolNameSetting = z.string().refine((name) => isToolName(name) || isToolGroupName(name), {
+  message: 'Expected the name of a tool or tool group',
+});
+
+// A comma-separated list of values
+function listSetting<T extends z.ZodTypeAny>(
+  itemSchema: T,
+): z.ZodType<Array<z.output<T>>, z.ZodTypeDef, string> {
+  return z
+    .string()
+    .transform((value) =>
+      value
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean),
+    )
+    .pipe(z.array(itemSchema));
+}
+
+// A comma-separated list of "key:value" pairs
+function pairsSetting<K extends z.ZodTypeAny, V extends z.ZodTypeAny>(
+  keySchema: K,
+  valueSchema: V,
+): z.ZodType<Record<z.output<K>, z.output<V>>, z.ZodTypeDef, string> {
+  return z
+    .string()
+    .transform((value) =>
+      Object.fromEntries(
+        value
+          .split(',')
+          .filter((pair) => pair.trim())
+          .map((pair) => pair.split(':').map((s) => s.trim())),
+      ),
+    )
+    .pipe(z.record(keySchema, valueSchema));
+}
+
+function jsonSetting<T extends z.ZodTypeAny>(
+  schema: T,
+): z.ZodType<z.output<T>, z.ZodTypeDef, string> {
+  return z
+    .string()
+    .transform((value, ctx) => {
+      try {
+        return JSON.parse(value);
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Expected valid JSON' });
+        return z.NEVER;
+      }
+    })
+    .pipe(schema);
+}
+
+/**
+ * The settings of the server, keyed by the name of their environment variable.
+ * Values are given as the strings of the environment variables, which is also what the config file is converted to.
+ */
+const settingsSchema = z
+  .object({
+    AUTH: z.enum(authTypes),
+    SERVER: urlSetting,
+    SITE_NAME: z.string(),
+    SITES: jsonSetting(sitesSchema),
+    TRANSPORT: z.enum(transports),
+    SSL_KEY: z.string(),
+    SSL_CERT: z.string(),
+    HTTP_PORT_ENV_VAR_NAME: z.string(),
+    PORT: numberSetting(numberSettings.PORT),
+    CORS_ORIGIN_CONFIG: z.string().superRefine((value, ctx) => {
+      try {
+        getCorsOriginConfig(value);
+      } catch (error) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+      }
+    }),
+    TRUST_PROXY_CONFIG: z.string(),
+    PAT_NAME: z.string(),
+    PAT_VALUE: z.string(),
+    JWT_SUB_CLAIM: z.string(),
+    CONNECTED_APP_CLIENT_ID: z.string(),
+    CONNECTED_APP_SECRET_ID: z.string(),
+    CONNECTED_APP_SECRET_VALUE: z.string(),
+    UAT_TENANT_ID: z.string(),
+    UAT_ISSUER: z.string(),
+    UAT_USERNAME_CLAIM: z.string(),
+    UAT_USERNAME_CLAIM_NAME: z.string(),
+    UAT_PRIVATE_KEY: z.string(),
+    UAT_PRIVATE_KEY_PATH: z.string(),
+    UAT_KEY_ID: z.string(),
+    JWT_ADDITIONAL_PAYLOAD: jsonSetting(z.record(z.unknown())),
+    DATASOURCE_CREDENTIALS: jsonSetting(z.record(z.array(z.unknown()))),
+    DEFAULT_LOG_LEVEL: z.enum(loggingLevels),
+    DISABLE_LOG_MASKING: booleanSetting,
+    INCLUDE_TOOLS: listSetting(toolNameSetting),
+    EXCLUDE_TOOLS: listSetting(toolNameSetting),
+    TOOL_POLICIES: jsonSetting(toolPoliciesSchema),
+    COLUMN_POLICIES: jsonSetting(columnPoliciesSchema),
+    COLUMN_POLICY_HASH_SECRET: z.string(),
+    MAX_REQUEST_TIMEOUT_MS: numberSetting(numberSettings.MAX_REQUEST_TIMEOUT_MS),
+    MAX_REQUEST_RETRIES: numberSetting(numberSettings.MAX_REQUEST_RETRIES),
+    MAX_RESULT_LIMIT: integerSetting,
+    MAX_RESULT_LIMITS: pairsSetting(toolNameSetting, integerSetting),
+    MAX_RESPONSE_SIZE: integerSetting,
+    MAX_RESPONSE_SIZES: pairsSetting(toolNameSetting, integerSetting),
+    RATE_LIMIT: integerSetting,
+    RATE_LIMITS: pairsSetting(toolNameSetting, integerSetting),
+    USER_RATE_LIMIT: integerSetting,
+    MAX_CONCURRENT_CALLS_PER_SITE: integerSetting,
+    CONCURRENCY_QUEUE_TIMEOUT_MS: numberSetting(numberSettings.CONCURRENCY_QUEUE_TIMEOUT_MS),
+    RESPONSE_SIZE_UNIT: z.enum(responseSizeUnits),
+    RESULT_CONTINUATION_TIMEOUT_MS: numberSetting(numberSettings.RESULT_CONTINUATION_TIMEOUT_MS),
+    RESULT_CONTINUATION_MAX_ENTRIES: numberSetting(numberSettings.RESULT_CONTINUATION_MAX_ENTRIES),
+    MAX_QUERY_CURSOR_ROWS: numberSetting(numberSettings.MAX_QUERY_CURSOR_ROWS),
+    QUERY_CURSOR_TIMEOUT_MS: numberSetting(numberSettings.QUERY_CURSOR_TIMEOUT_MS),
+    QUERY_CURSOR_MAX_ENTRIES: numberSetting(numberSettings.QUERY_CURSOR_MAX_ENTRIES),
+    QUERY_CURSOR_MAX_ENTRIES_PER_USER: numberSetting(
+      numberSettings.QUERY_CURSOR_MAX_ENTRIES_PER_USER,
+    ),
+    QUERY_RESULT_CACHE_TTL_MS: numberSetting(numberSettings.QUERY_RESULT_CACHE_TTL_MS),
+    QUERY_RESULT_CACHE_TTLS: pairsSetting(
+      z.string(),
+      numberSetting(numberSettings.QUERY_RESULT_CACHE_TTL_MS),
+    ),
+    QUERY_RESULT_CACHE_MAX_ENTRIES: numberSetting(numberSettings.QUERY_RESULT_CACHE_MAX_ENTRIES),
+    METADATA_CACHE_TTL_MS: numberSetting(numberSettings.METADATA_CACHE_TTL_MS),
+    METADATA_CACHE_MAX_ENTRIES: numberSetting(numberSettings.METADATA_CACHE_MAX_ENTRIES),
+    ADMIN_API_KEY: z.string(),
+    METRICS_API_KEY: z.string(),
+    READINESS_CHECK_CACHE_TTL_MS: numberSetting(numberSettings.READINESS_CHECK_CACHE_TTL_MS),
+    DISABLE_QUERY_DATASOURCE_VALIDATION_REQUESTS: booleanSetting,
+    DISABLE_METADATA_API_REQUESTS: booleanSetting,
+    DISABLE_SESSION_MANAGEMENT: booleanSetting,
+    SESSION_STORE: z.enum(sessionStoreTypes),
+    SESSION_STORE_PATH: z.string(),
+    SESSION_STORE_URL: z.string().url(),
+    SESSION_STORE_TIMEOUT_MS: numberSetting(numberSettings.SESSION_STORE_TIMEOUT_MS),
+    SESSION_IDLE_TIMEOUT_MS: numberSetting(numberSettings.SESSION_IDLE_TIMEOUT_MS),
+    MAX_SESSIONS_PER_USER: numberSetting(numberSettings.MAX_SESSIONS_PER_USER),
+    EVENT_STORE_SIZE: numberSetting(numberSettings.EVENT_STORE_SIZE),
+    EVENT_STORE_DIRECTORY: z.string(),
+    DISABLE_REST_SESSION_POOLING: booleanSetting,
+    REST_SESSION_TTL_MS: numberSetting(numberSettings.REST_SESSION_TTL_MS),
+    ENABLE_SERVER_LOGGING: booleanSetting,
+    SERVER_LOG_DIRECTORY: z.string(),
+    AUDIT_LOG: z.enum(auditSinkTypes),
+    AUDIT_LOG_DIRECTORY: z.string(),
+    AUDIT_LOG_RETENTION_DAYS: numberSetting(numberSettings.AUDIT_LOG_RETENTION_DAYS),
+    AUDIT_WEBHOOK_URL: z.string().url(),
+    AUDIT_WEBHOOK_SECRET: z.string(),
+    INCLUDE_PROJECT_IDS: z.string(),
+    INCLUDE_DATASOURCE_IDS: z.string(),
+    INCLUDE_WORKBOOK_IDS: z.string(),
+    INCLUDE_TAGS: z.string(),
+    INCLUDE_CHILD_PROJECTS: booleanSetting,
+    CERTIFIED_DATASOURCES_ONLY: booleanSetting,
+    INCLUDE_OWNER_IDS: z.string(),
+    EXCLUDE_OWNER_IDS: z.string(),
+    TABLEAU_SERVER_VERSION_CHECK_INTERVAL_IN_HOURS: numberSetting(
+      numberSettings.TABLEAU_SERVER_VERSION_CHECK_INTERVAL_IN_HOURS,
+    ),
+    DANGEROUSLY_DISABLE_OAUTH: booleanSetting,
+    OAUTH_ISSUER: urlSetting,
+    OAUTH_LOCK_SITE: booleanSetting,
+    OAUTH_JWE_PRIVATE_KEY: z.string(),
+    OAUTH_JWE_PRIVATE_KEY_PATH: z.string(),
+    OAUTH_JWE_PRIVATE_KEY_PASSPHRASE: z.string(),
+    OAUTH_REDIRECT_URI: urlSetting,
+    OAUTH_CLIENT_ID_SECRET_PAIRS: pairsSetting(z.string(), z.string().nonempty()),
+    OAUTH_CIMD_DNS_SERVERS: listSetting(z.string().ip()),
+    OAUTH_AUTHORIZATION_CODE_TIMEOUT_MS: numberSetting(
+      numberSettings.OAUTH_AUTHORIZATION_CODE_TIMEOUT_MS,
+    ),
+    OAUTH_ACCESS_TOKEN_TIMEOUT_MS: numberSetting(numberSettings.OAUTH_ACCESS_TOKEN_TIMEOUT_MS),
+    OAUTH_REFRESH_TOKEN_TIMEOUT_MS: numberSetting(numberSettings.OAUTH_REFRESH_TOKEN_TIMEOUT_MS),
+    TELEMETRY_PROVIDER: telemetryProviderSchema,
+    TELEMETRY_PROVIDER_CONFIG: jsonSetting(
+      z.union([providerConfigSchema, otelProviderConfigSchema]),
+    ),
+  })
+  .partial()
+  .strict();
+
 export type BoundedContext = {
   projectIds: Set<string> | null;
   datasourceIds: Set<string> | null;
   workbookIds: Set<string> | null;
+  // Content must have at least one of these tags.
+  tags: Set<string> | null;
+  // Whether the allowed projects include the projects nested in them, at any depth.
+  includeChildProjects: boolean;
+  certifiedDatasourcesOnly: boolean;
+  ownerIds: Set<string> | null;
+  excludedOwnerIds: Set<string> | null;
 };
 
 export class Config {
   private maxResultLimit: number | null;
   private maxResultLimits: Map<ToolName, number | null> | null;
+  private maxResponseSize: number | null;
+  private maxResponseSizes: Map<ToolName, number | null> | null;
+  private toolRateLimits: Map<ToolName, number | null> | null;
+  private queryResultCacheTtlMs: number;
+  private queryResultCacheTtls: Map<string, number> | null;
 
   auth: AuthType;
   server: string;
@@ -59,13 +404,51 @@ export class Config {
   disableLogMasking: boolean;
   includeTools: Array<ToolName>;
   excludeTools: Array<ToolName>;
+  toolPolicies: Array<ToolPolicyRule> | null;
+  columnPolicies: Map<string, Array<ColumnPolicyRule>> | null;
+  columnPolicyHashSecret: string;
   maxRequestTimeoutMs: number;
+  maxRequestRetries: number;
+  rateLimit: number | null;
+  userRateLimit: number | null;
+  maxConcurrentCallsPerSite: number | null;
+  concurrencyQueueTimeoutMs: number;
+  responseSizeUnit: ResponseSizeUnit;
+  resultContinuationTimeoutMs: number;
+  resultContinuationMaxEntries: number;
+  maxQueryCursorRows: number;
+  queryCursorTimeoutMs: number;
+  queryCursorMaxEntries: number;
+  queryCursorMaxEntriesPerUser: number;
+  queryResultCacheMaxEntries: number;
+  metadataCacheTtlMs: number;
+  metadataCacheMaxEntries: number;
+  adminApiKey: string;
+  metricsApiKey: string;
+  readinessCheckCacheTtlMs: number;
   disableQueryDatasourceValidationRequests: boolean;
   disableMetadataApiRequests: boolean;
   disableSessionManagement: boolean;
+  sessionStore: SessionStoreType;
+  sessionStorePath: string;
+  sessionStoreUrl: string;
+  sessionStoreTimeoutMs: number;
+  sessionIdleTimeoutMs: number;
+  maxSessionsPerUser: number;
+  eventStoreSize: number;
+  eventStoreDirectory: string;
+  disableRestSessionPooling: boolean;
+  restSessionTtlMs: number;
   enableServerLogging: boolean;
   serverLogDirectory: string;
+  auditLog: AuditSinkType | undefined;
+  auditLogDirectory: string;
+  auditLogRetentionDays: number;
+  auditWebhookUrl: string;
+  auditWebhookSecret: string;
   boundedContext: BoundedContext;
+  sites: Map<string, SiteConfig> | null;
+  site: string | undefined;
   tableauServerVersionCheckIntervalInHours: number;
   oauth: {
     enabled: boolean;
@@ -87,8 +470,20 @@ export class Config {
     return this.maxResultLimits?.get(toolName) ?? this.maxResultLimit;
   }
 
+  getMaxResponseSize(toolName: ToolName): number | null {
+    return this.maxResponseSizes?.get(toolName) ?? this.maxResponseSize;
+  }
+
+  getToolRateLimit(toolName: ToolName): number | null {
+    return this.toolRateLimits?.get(toolName) ?? null;
+  }
+
+  getQueryResultCacheTtlMs(datasourceLuid: string): number {
+    return this.queryResultCacheTtls?.get(datasourceLuid) ?? this.queryResultCacheTtlMs;
+  }
+
   constructor() {
-    const cleansedVars = removeClaudeMcpBundleUserConfigTemplates(process.env);
+    const cleansedVars = getConfigVars();
     const {
       AUTH: auth,
       SERVER: server,
@@ -118,17 +513,64 @@ export class Config {
       DISABLE_LOG_MASKING: disableLogMasking,
       INCLUDE_TOOLS: includeTools,
       EXCLUDE_TOOLS: excludeTools,
+      TOOL_POLICIES: toolPolicies,
+      COLUMN_POLICIES: columnPolicies,
+      COLUMN_POLICY_HASH_SECRET: columnPolicyHashSecret,
       MAX_REQUEST_TIMEOUT_MS: maxRequestTimeoutMs,
+      MAX_REQUEST_RETRIES: maxRequestRetries,
       MAX_RESULT_LIMIT: maxResultLimit,
       MAX_RESULT_LIMITS: maxResultLimits,
+      MAX_RESPONSE_SIZE: maxResponseSize,
+      MAX_RESPONSE_SIZES: maxResponseSizes,
+      RATE_LIMIT: rateLimit,
+      RATE_LIMITS: toolRateLimits,
+      USER_RATE_LIMIT: userRateLimit,
+      MAX_CONCURRENT_CALLS_PER_SITE: maxConcurrentCallsPerSite,
+      CONCURRENCY_QUEUE_TIMEOUT_MS: concurrencyQueueTimeoutMs,
+      RESPONSE_SIZE_UNIT: responseSizeUnit,
+      RESULT_CONTINUATION_TIMEOUT_MS: resultContinuationTimeoutMs,
+      RESULT_CONTINUATION_MAX_ENTRIES: resultContinuationMaxEntries,
+      MAX_QUERY_CURSOR_ROWS: maxQueryCursorRows,
+      QUERY_CURSOR_TIMEOUT_MS: queryCursorTimeoutMs,
+      QUERY_CURSOR_MAX_ENTRIES: queryCursorMaxEntries,
+      QUERY_CURSOR_MAX_ENTRIES_PER_USER: queryCursorMaxEntriesPerUser,
+      QUERY_RESULT_CACHE_TTL_MS: queryResultCacheTtlMs,
+      QUERY_RESULT_CACHE_TTLS: queryResultCacheTtls,
+      QUERY_RESULT_CACHE_MAX_ENTRIES: queryResultCacheMaxEntries,
+      METADATA_CACHE_TTL_MS: metadataCacheTtlMs,
+      METADATA_CACHE_MAX_ENTRIES: metadataCacheMaxEntries,
+      ADMIN_API_KEY: adminApiKey,
+      METRICS_API_KEY: metricsApiKey,
+      READINESS_CHECK_CACHE_TTL_MS: readinessCheckCacheTtlMs,
       DISABLE_QUERY_DATASOURCE_VALIDATION_REQUESTS: disableQueryDatasourceValidationRequests,
       DISABLE_METADATA_API_REQUESTS: disableMetadataApiRequests,
       DISABLE_SESSION_MANAGEMENT: disableSessionManagement,
+      SESSION_STORE: sessionStore,
+      SESSION_STORE_PATH: sessionStorePath,
+      SESSION_STORE_URL: sessionStoreUrl,
+      SESSION_STORE_TIMEOUT_MS: sessionStoreTimeoutMs,
+      SESSION_IDLE_TIMEOUT_MS: sessionIdleTimeoutMs,
+      MAX_SESSIONS_PER_USER: maxSessionsPerUser,
+      EVENT_STORE_SIZE: eventStoreSize,
+      EVENT_STORE_DIRECTORY: eventStoreDirectory,
+      DISABLE_REST_SESSION_POOLING: disableRestSessionPooling,
+      REST_SESSION_TTL_MS: restSessionTtlMs,
       ENABLE_SERVER_LOGGING: enableServerLogging,
       SERVER_LOG_DIRECTORY: serverLogDirectory,
+      AUDIT_LOG: auditLog,
+      AUDIT_LOG_DIRECTORY: auditLogDirectory,
+      AUDIT_LOG_RETENTION_DAYS: auditLogRetentionDays,
+      AUDIT_WEBHOOK_URL: auditWebhookUrl,
+      AUDIT_WEBHOOK_SECRET: auditWebhookSecret,
       INCLUDE_PROJECT_IDS: includeProjectIds,
       INCLUDE_DATASOURCE_IDS: includeDatasourceIds,
       INCLUDE_WORKBOOK_IDS: includeWorkbookIds,
+      INCLUDE_TAGS: includeTags,
+      INCLUDE_CHILD_PROJECTS: includeChildProjects,
+      CERTIFIED_DATASOURCES_ONLY: certifiedDatasourcesOnly,
+      INCLUDE_OWNER_IDS: includeOwnerIds,
+      EXCLUDE_OWNER_IDS: excludeOwnerIds,
+      SITES: sites,
       TABLEAU_SERVER_VERSION_CHECK_INTERVAL_IN_HOURS: tableauServerVersionCheckIntervalInHours,
       DANGEROUSLY_DISABLE_OAUTH: disableOauth,
       OAUTH_ISSUER: oauthIssuer,
@@ -152,11 +594,10 @@ export class Config {
 
     this.sslKey = sslKey?.trim() ?? '';
     this.sslCert = sslCert?.trim() ?? '';
-    this.httpPort = parseNumber(cleansedVars[httpPortEnvVarName?.trim() || 'PORT'], {
-      defaultValue: 3927,
-      minValue: 1,
-      maxValue: 65535,
-    });
+    this.httpPort = parseNumber(
+      cleansedVars[httpPortEnvVarName?.trim() || 'PORT'],
+      numberSettings.PORT,
+    );
     this.corsOriginConfig = getCorsOriginConfig(corsOriginConfig?.trim() ?? '');
     this.trustProxyConfig = getTrustProxyConfig(trustProxyConfig?.trim() ?? '');
     this.datasourceCredentials = datasourceCredentials ?? '';
@@ -166,12 +607,50 @@ export class Config {
       disableQueryDatasourceValidationRequests === 'true';
     this.disableMetadataApiRequests = disableMetadataApiRequests === 'true';
     this.disableSessionManagement = disableSessionManagement === 'true';
+    this.sessionStore = isSessionStoreType(sessionStore) ? sessionStore : 'memory';
+    this.sessionStorePath = sessionStorePath || join(__dirname, 'sessions.json');
+    this.sessionStoreUrl = sessionStoreUrl ?? '';
+    this.sessionStoreTimeoutMs = parseNumber(
+      sessionStoreTimeoutMs,
+      numberSettings.SESSION_STORE_TIMEOUT_MS,
+    );
+    this.sessionIdleTimeoutMs = parseNumber(
+      sessionIdleTimeoutMs,
+      numberSettings.SESSION_IDLE_TIMEOUT_MS,
+    );
+    this.maxSessionsPerUser = parseNumber(maxSessionsPerUser, numberSettings.MAX_SESSIONS_PER_USER);
+
+    this.eventStoreSize = parseNumber(eventStoreSize, numberSettings.EVENT_STORE_SIZE);
+    this.eventStoreDirectory = eventStoreDirectory ?? '';
+
+    if (this.sessionStore === 'redis' && !this.sessionStoreUrl) {
+      throw new Error('SESSION_STORE_URL must be set when SESSION_STORE is "redis"');
+    }
+    this.disableRestSessionPooling = disableRestSessionPooling === 'true';
+    this.restSessionTtlMs = parseNumber(restSessionTtlMs, numberSettings.REST_SESSION_TTL_MS);
     this.enableServerLogging = enableServerLogging === 'true';
     this.serverLogDirectory = serverLogDirectory || join(__dirname, 'logs');
+    this.auditLog = isAuditSinkType(auditLog) ? auditLog : undefined;
+    this.auditLogDirectory = auditLogDirectory || join(__dirname, 'audit');
+    this.auditLogRetentionDays = parseNumber(
+      auditLogRetentionDays,
+      numberSettings.AUDIT_LOG_RETENTION_DAYS,
+    );
+    this.auditWebhookUrl = auditWebhookUrl ?? '';
+    this.auditWebhookSecret = auditWebhookSecret ?? '';
+
+    if (this.auditLog === 'webhook' && !this.auditWebhookUrl) {
+      throw new Error('AUDIT_WEBHOOK_URL must be set when AUDIT_LOG is "webhook"');
+    }
     this.boundedContext = {
       projectIds: createSetFromCommaSeparatedString(includeProjectIds),
       datasourceIds: createSetFromCommaSeparatedString(includeDatasourceIds),
       workbookIds: createSetFromCommaSeparatedString(includeWorkbookIds),
+      tags: createSetFromCommaSeparatedString(includeTags?.toLowerCase()),
+      includeChildProjects: includeChildProjects === 'true',
+      certifiedDatasourcesOnly: certifiedDatasourcesOnly === 'true',
+      ownerIds: createSetFromCommaSeparatedString(includeOwnerIds),
+      excludedOwnerIds: createSetFromCommaSeparatedString(excludeOwnerIds),
     };
 
     if (this.boundedContext.projectIds?.size === 0) {
@@ -192,13 +671,25 @@ export class Config {
       );
     }
 
+    if (this.boundedContext.tags?.size === 0) {
+      throw new Error(
+        'When set, the environment variable INCLUDE_TAGS must have at least one value',
+      );
+    }
+
+    if (this.boundedContext.ownerIds?.size === 0) {
+      throw new Error(
+        'When set, the environment variable INCLUDE_OWNER_IDS must have at least one value',
+      );
+    }
+
+    if (this.boundedContext.includeChildProjects && !this.boundedContext.projectIds) {
+      throw new Error('INCLUDE_CHILD_PROJECTS can only be set along with INCLUDE_PROJECT_IDS');
+    }
+
     this.tableauServerVersionCheckIntervalInHours = parseNumber(
       tableauServerVersionCheckIntervalInHours,
-      {
-        defaultValue: 1,
-        minValue: 1,
-        maxValue: 24 * 7, // 7 days
-      },
+      numberSettings.TABLEAU_SERVER_VERSION_CHECK_INTERVAL_IN_HOURS,
     );
 
     const disableOauthOverride = disableOauth === 'true';
@@ -213,21 +704,18 @@ export class Config {
       dnsServers: dnsServers
         ? dnsServers.split(',').map((ip) => ip.trim())
         : ['1.1.1.1', '1.0.0.1' /* Cloudflare public DNS */],
-      authzCodeTimeoutMs: parseNumber(authzCodeTimeoutMs, {
-        defaultValue: TEN_MINUTES_IN_MS,
-        minValue: 0,
-        maxValue: ONE_HOUR_IN_MS,
-      }),
-      accessTokenTimeoutMs: parseNumber(accessTokenTimeoutMs, {
-        defaultValue: ONE_HOUR_IN_MS,
-        minValue: 0,
-        maxValue: THIRTY_DAYS_IN_MS,
-      }),
-      refreshTokenTimeoutMs: parseNumber(refreshTokenTimeoutMs, {
-        defaultValue: THIRTY_DAYS_IN_MS,
-        minValue: 0,
-        maxValue: ONE_YEAR_IN_MS,
-      }),
+      authzCodeTimeoutMs: parseNumber(
+        authzCodeTimeoutMs,
+        numberSettings.OAUTH_AUTHORIZATION_CODE_TIMEOUT_MS,
+      ),
+      accessTokenTimeoutMs: parseNumber(
+        accessTokenTimeoutMs,
+        numberSettings.OAUTH_ACCESS_TOKEN_TIMEOUT_MS,
+      ),
+      refreshTokenTimeoutMs: parseNumber(
+        refreshTokenTimeoutMs,
+        numberSettings.OAUTH_REFRESH_TOKEN_TIMEOUT_MS,
+      ),
       clientIdSecretPairs: oauthClientIdSecretPairs
         ? oauthClientIdSecretPairs.split(',').reduce<Record<string, string>>((acc, curr) => {
             const [clientId, secret] = curr.split(':');
@@ -250,6 +738,13 @@ export class Config {
         provider: 'custom',
         providerConfig: providerConfigSchema.parse(JSON.parse(telemetryProviderConfig)),
       };
+    } else if (parsedProvider === 'otel') {
+      this.telemetry = {
+        provider: 'otel',
+        providerConfig: otelProviderConfigSchema.parse(
+          telemetryProviderConfig ? JSON.parse(telemetryProviderConfig) : {},
+        ),
+      };
     } else {
       this.telemetry = {
         provider: parsedProvider,
@@ -308,17 +803,77 @@ export class Config {
       }
     }
 
-    this.maxRequestTimeoutMs = parseNumber(maxRequestTimeoutMs, {
-      defaultValue: TEN_MINUTES_IN_MS,
-      minValue: 5000,
-      maxValue: ONE_HOUR_IN_MS,
-    });
+    this.maxRequestTimeoutMs = parseNumber(
+      maxRequestTimeoutMs,
+      numberSettings.MAX_REQUEST_TIMEOUT_MS,
+    );
+    this.maxRequestRetries = parseNumber(maxRequestRetries, numberSettings.MAX_REQUEST_RETRIES);
 
     const maxResultLimitNumber = maxResultLimit ? parseInt(maxResultLimit) : NaN;
     this.maxResultLimit =
       isNaN(maxResultLimitNumber) || maxResultLimitNumber <= 0 ? null : maxResultLimitNumber;
 
-    this.maxResultLimits = maxResultLimits ? getMaxResultLimits(maxResultLimits) : null;
+    this.maxResultLimits = maxResultLimits ? getToolLimits(maxResultLimits) : null;
+
+    const maxResponseSizeNumber = maxResponseSize ? parseInt(maxResponseSize) : NaN;
+    this.maxResponseSize =
+      isNaN(maxResponseSizeNumber) || maxResponseSizeNumber <= 0 ? null : maxResponseSizeNumber;
+
+    this.maxResponseSizes = maxResponseSizes ? getToolLimits(maxResponseSizes) : null;
+
+    this.rateLimit = parsePositiveInteger(rateLimit);
+    this.toolRateLimits = toolRateLimits ? getToolLimits(toolRateLimits) : null;
+    this.userRateLimit = parsePositiveInteger(userRateLimit);
+    this.maxConcurrentCallsPerSite = parsePositiveInteger(maxConcurrentCallsPerSite);
+    this.concurrencyQueueTimeoutMs = parseNumber(
+      concurrencyQueueTimeoutMs,
+      numberSettings.CONCURRENCY_QUEUE_TIMEOUT_MS,
+    );
+    this.responseSizeUnit = isResponseSizeUnit(responseSizeUnit) ? responseSizeUnit : 'tokens';
+    this.resultContinuationTimeoutMs = parseNumber(
+      resultContinuationTimeoutMs,
+      numberSettings.RESULT_CONTINUATION_TIMEOUT_MS,
+    );
+    this.resultContinuationMaxEntries = parseNumber(
+      resultContinuationMaxEntries,
+      numberSettings.RESULT_CONTINUATION_MAX_ENTRIES,
+    );
+    this.maxQueryCursorRows = parseNumber(maxQueryCursorRows, numberSettings.MAX_QUERY_CURSOR_ROWS);
+    this.queryCursorTimeoutMs = parseNumber(
+      queryCursorTimeoutMs,
+      numberSettings.QUERY_CURSOR_TIMEOUT_MS,
+    );
+    this.queryCursorMaxEntries = parseNumber(
+      queryCursorMaxEntries,
+      numberSettings.QUERY_CURSOR_MAX_ENTRIES,
+    );
+    this.queryCursorMaxEntriesPerUser = parseNumber(
+      queryCursorMaxEntriesPerUser,
+      numberSettings.QUERY_CURSOR_MAX_ENTRIES_PER_USER,
+    );
+
+    this.queryResultCacheTtlMs = parseNumber(
+      queryResultCacheTtlMs,
+      numberSettings.QUERY_RESULT_CACHE_TTL_MS,
+    );
+    this.queryResultCacheTtls = queryResultCacheTtls
+      ? getQueryResultCacheTtls(queryResultCacheTtls)
+      : null;
+    this.queryResultCacheMaxEntries = parseNumber(
+      queryResultCacheMaxEntries,
+      numberSettings.QUERY_RESULT_CACHE_MAX_ENTRIES,
+    );
+    this.metadataCacheTtlMs = parseNumber(metadataCacheTtlMs, numberSettings.METADATA_CACHE_TTL_MS);
+    this.metadataCacheMaxEntries = parseNumber(
+      metadataCacheMaxEntries,
+      numberSettings.METADATA_CACHE_MAX_ENTRIES,
+    );
+    this.adminApiKey = adminApiKey ?? '';
+    this.metricsApiKey = metricsApiKey ?? '';
+    this.readinessCheckCacheTtlMs = parseNumber(
+      readinessCheckCacheTtlMs,
+      numberSettings.READINESS_CHECK_CACHE_TTL_MS,
+    );
 
     this.includeTools = includeTools
       ? includeTools.split(',').flatMap((s) => {
@@ -338,6 +893,25 @@ export class Config {
       throw new Error('Cannot include and exclude tools simultaneously');
     }
 
+    this.toolPolicies = toolPolicies ? getToolPolicies(toolPolicies) : null;
+    if (
+      !this.oauth.enabled &&
+      this.toolPolicies?.some((rule) => rule.users || rule.groups || rule.clients)
+    ) {
+      // Without OAuth, every tool call runs as the same Tableau user, so these rules could never tell users apart.
+      throw new Error(
+        'TOOL_POLICIES rules with users, groups or clients require OAuth, which identifies the user of each tool call',
+      );
+    }
+    this.columnPolicies = columnPolicies ? getColumnPolicies(columnPolicies) : null;
+    this.columnPolicyHashSecret = columnPolicyHashSecret ?? '';
+    if (
+      !this.columnPolicyHashSecret &&
+      [...(this.columnPolicies?.values() ?? [])].flat().some(({ action }) => action === 'hash')
+    ) {
+      throw new Error('COLUMN_POLICY_HASH_SECRET must be set when COLUMN_POLICIES has hash rules');
+    }
+
     if (this.auth === 'pat') {
       invariant(patName, 'The environment variable PAT_NAME is not set');
       invariant(patValue, 'The environment variable PAT_VALUE is not set');
@@ -395,6 +969,60 @@ export class Config {
       uatPrivateKey || (uatPrivateKeyPath ? readFileSync(uatPrivateKeyPath, 'utf8') : '');
     this.uatKeyId = uatKeyId ?? '';
     this.jwtAdditionalPayload = jwtAdditionalPayload || '{}';
+
+    this.sites = sites ? getSites(sites) : null;
+    if (this.sites && this.auth === 'oauth') {
+      throw new Error('SITES cannot be set when AUTH is "oauth"');
+    }
+
+    const site = getCurrentSite();
+    if (site) {
+      this._applySite(site);
+    }
+  }
+
+  // Replaces the settings of the default site with those of a site from the site registry.
+  private _applySite(alias: string): void {
+    const site = this.sites?.get(alias);
+    if (!site) {
+      throw new Error(`The site "${alias}" is not in the site registry`);
+    }
+
+    this.site = alias;
+    this.server = site.server;
+    this.siteName = site.siteName;
+    this.auth = site.auth ?? this.auth;
+    this.patName = site.patName ?? this.patName;
+    this.patValue = site.patValue ?? this.patValue;
+    this.jwtUsername = site.jwtUsername ?? this.jwtUsername;
+    this.connectedAppClientId = site.connectedAppClientId ?? this.connectedAppClientId;
+    this.connectedAppSecretId = site.connectedAppSecretId ?? this.connectedAppSecretId;
+    this.connectedAppSecretValue = site.connectedAppSecretValue ?? this.connectedAppSecretValue;
+    this.uatTenantId = site.uatTenantId ?? this.uatTenantId;
+    this.uatIssuer = site.uatIssuer ?? this.uatIssuer;
+    this.uatUsernameClaimName = site.uatUsernameClaimName ?? this.uatUsernameClaimName;
+    this.uatPrivateKey = site.uatPrivateKey ?? this.uatPrivateKey;
+    this.uatKeyId = site.uatKeyId ?? this.uatKeyId;
+
+    // Project, datasource and workbook IDs are specific to a site, so the bounded context of the default site does not apply.
+    this.boundedContext = {
+      projectIds: createSetFromCommaSeparatedString(site.includeProjectIds),
+      datasourceIds: createSetFromCommaSeparatedString(site.includeDatasourceIds),
+      workbookIds: createSetFromCommaSeparatedString(site.includeWorkbookIds),
+      tags: createSetFromCommaSeparatedString(site.includeTags?.toLowerCase()),
+      includeChildProjects: site.includeChildProjects ?? false,
+      certifiedDatasourcesOnly: site.certifiedDatasourcesOnly ?? false,
+      ownerIds: createSetFromCommaSeparatedString(site.includeOwnerIds),
+      excludedOwnerIds: createSetFromCommaSeparatedString(site.excludeOwnerIds),
+    };
+
+    this.maxResultLimit = site.maxResultLimit ?? this.maxResultLimit;
+    if (site.maxResultLimits) {
+      this.maxResultLimits = new Map([
+        ...(this.maxResultLimits ?? []),
+        ...getToolLimits(site.maxResultLimits),
+      ]);
+    }
   }
 }
 
@@ -495,17 +1123,24 @@ function removeClaudeMcpBundleUserConfigTemplates(
   }, {});
 }
 
-function getMaxResultLimits(maxResultLimits: string): Map<ToolName, number | null> {
+// Parses a limit such as RATE_LIMIT, which is unlimited when it is not a positive integer.
+function parsePositiveInteger(value: string | undefined): number | null {
+  const number = value ? parseInt(value) : NaN;
+  return isNaN(number) || number <= 0 ? null : number;
+}
+
+// Parses a comma-separated list of "tool:limit" pairs, e.g. MAX_RESULT_LIMITS or MAX_RESPONSE_SIZES.
+// Tool group names can be used in place of tool names.
+function getToolLimits(toolLimits: string): Map<ToolName, number | null> {
   const map = new Map<ToolName, number | null>();
-  if (!maxResultLimits) {
+  if (!toolLimits) {
     return map;
   }
 
-  maxResultLimits.split(',').forEach((curr) => {
-    const [toolName, maxResultLimit] = curr.split(':');
-    const maxResultLimitNumber = maxResultLimit ? parseInt(maxResultLimit) : NaN;
-    const actualLimit =
-      isNaN(maxResultLimitNumber) || maxResultLimitNumber <= 0 ? null : maxResultLimitNumber;
+  toolLimits.split(',').forEach((curr) => {
+    const [toolName, limit] = curr.split(':');
+    const limitNumber = limit ? parseInt(limit) : NaN;
+    const actualLimit = isNaN(limitNumber) || limitNumber <= 0 ? null : limitNumber;
     if (isToolName(toolName)) {
       map.set(toolName, actualLimit);
     } else if (isToolGroupName(toolName)) {
@@ -521,6 +1156,79 @@ function getMaxResultLimits(maxResultLimits: string): Map<ToolName, number | nul
   return map;
 }
 
+// Parses the site registry, a JSON object of site configs keyed by their alias.
+function getSites(sites: string): Map<string, SiteConfig> {
+  let json: unknown;
+  try {
+    json = JSON.parse(sites);
+  } catch {
+    throw new Error('The environment variable SITES is not valid JSON');
+  }
+
+  const result = sitesSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error(`The environment variable SITES is not a valid site registry: ${result.error}`);
+  }
+
+  const map = new Map(Object.entries(result.data));
+  if (map.size === 0) {
+    throw new Error('When set, the environment variable SITES must have at least one site');
+  }
+
+  return map;
+}
+
+// Parses the tool policies, a JSON array of rules that are evaluated in order.
+function getToolPolicies(toolPolicies: string): Array<ToolPolicyRule> {
+  let json: unknown;
+  try {
+    json = JSON.parse(toolPolicies);
+  } catch {
+    throw new Error('The environment variable TOOL_POLICIES is not valid JSON');
+  }
+
+  const result = toolPoliciesSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error(
+      `The environment variable TOOL_POLICIES is not a valid list of tool policy rules: ${result.error}`,
+    );
+  }
+
+  return result.data;
+}
+
+// Parses the column policies, a JSON object of rules by datasource LUID.
+function getColumnPolicies(columnPolicies: string): Map<string, Array<ColumnPolicyRule>> {
+  let json: unknown;
+  try {
+    json = JSON.parse(columnPolicies);
+  } catch {
+    throw new Error('The environment variable COLUMN_POLICIES is not valid JSON');
+  }
+
+  const result = columnPoliciesSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error(
+      `The environment variable COLUMN_POLICIES is not a valid object of column policy rules: ${result.error}`,
+    );
+  }
+
+  return new Map(Object.entries(result.data));
+}
+
+// Parses a comma-separated list of "datasourceLuid:ttlMs" pairs.
+function getQueryResultCacheTtls(queryResultCacheTtls: string): Map<string, number> {
+  const map = new Map<string, number>();
+  queryResultCacheTtls.split(',').forEach((curr) => {
+    const [datasourceLuid, ttlMs] = curr.split(':').map((s) => s.trim());
+    if (datasourceLuid) {
+      map.set(datasourceLuid, parseNumber(ttlMs, numberSettings.QUERY_RESULT_CACHE_TTL_MS));
+    }
+  });
+
+  return map;
+}
+
 function parseNumber(
   value: string | undefined,
   {
@@ -545,6 +1253,209 @@ function parseNumber(
     : number;
 }
 
+/**
+ * The settings that can be changed while the server is running, by editing the config file or with the admin API.
+ * Changes to the other settings in the config file are ignored until the server is restarted.
+ */
+export const reloadableSettingNames = [
+  'INCLUDE_TOOLS',
+  'EXCLUDE_TOOLS',
+  'TOOL_POLICIES',
+  'COLUMN_POLICIES',
+  'INCLUDE_PROJECT_IDS',
+  'INCLUDE_DATASOURCE_IDS',
+  'INCLUDE_WORKBOOK_IDS',
+  'INCLUDE_TAGS',
+  'INCLUDE_CHILD_PROJECTS',
+  'CERTIFIED_DATASOURCES_ONLY',
+  'INCLUDE_OWNER_IDS',
+  'EXCLUDE_OWNER_IDS',
+  'MAX_RESULT_LIMITS',
+  'RATE_LIMIT',
+  'RATE_LIMITS',
+  'USER_RATE_LIMIT',
+  'MAX_CONCURRENT_CALLS_PER_SITE',
+] as const;
+export type ReloadableSettingName = (typeof reloadableSettingNames)[number];
+
+export function isReloadableSettingName(name: unknown): name is ReloadableSettingName {
+  return !!reloadableSettingNames.find((n) => n === name);
+}
+
+let configFile: { path: string; vars: Record<string, string> } | undefined;
+
+// The reloadable settings set with the admin API, which take precedence over the environment and the config file.
+let settingOverrides: Partial<Record<ReloadableSettingName, string>> = {};
+
+// Reads the config file set by CONFIG_FILE.
+// The file is only read once, since the config is created for every getConfig() call.
+function getConfigFileVars(path: string | undefined): Record<string, string> {
+  if (!path) {
+    return {};
+  }
+
+  if (configFile?.path !== path) {
+    configFile = { path, vars: readValidConfigFile(path) };
+  }
+
+  return configFile.vars;
+}
+
+// Reads the config file, rejecting it if any of its settings is invalid.
+function readValidConfigFile(path: string): Record<string, string> {
+  const vars = readConfigFile(path);
+  const issues = getSettingIssues(vars);
+  if (issues.length > 0) {
+    throw new Error(
+      `The config file ${path} has invalid settings:\n${issues.map((issue) => `  ${issue}`).join('\n')}`,
+    );
+  }
+
+  return vars;
+}
+
+/**
+ * Gets the environment variables the config is created from, with the settings of the config file
+ * for those that are not set or are empty, and the setting overrides of the admin API.
+ */
+export function getConfigVars(): Record<string, string | undefined> {
+  const vars = removeClaudeMcpBundleUserConfigTemplates(process.env);
+  for (const [name, value] of Object.entries(getConfigFileVars(vars.CONFIG_FILE))) {
+    if (!vars[name]) {
+      vars[name] = value;
+    }
+  }
+
+  return { ...vars, ...settingOverrides };
+}
+
+/**
+ * Reads the config file again, applying the changes to its reloadable settings.
+ * Nothing is applied when the file is invalid or the resulting config is, in which case an error is thrown.
+ *
+ * @returns The reloadable settings that changed, and the other settings that changed but need a restart
+ */
+export function reloadConfigFile(): {
+  changed: Array<ReloadableSettingName>;
+  ignored: Array<string>;
+} {
+  const path = process.env.CONFIG_FILE;
+  if (!path || !configFile) {
+    return { changed: [], ignored: [] };
+  }
+
+  const previousVars = configFile.vars;
+  const vars = readValidConfigFile(path);
+  const changedNames = [...new Set([...Object.keys(previousVars), ...Object.keys(vars)])].filter(
+    (name) => previousVars[name] !== vars[name],
+  );
+
+  const changed = changedNames.filter(isReloadableSettingName);
+  const reloadedVars = { ...previousVars };
+  for (const name of changed) {
+    if (vars[name] === undefined) {
+      delete reloadedVars[name];
+    } else {
+      reloadedVars[name] = vars[name];
+    }
+  }
+
+  applyConfigChange(() => {
+    configFile = { path, vars: reloadedVars };
+  });
+
+  return { changed, ignored: changedNames.filter((name) => !isReloadableSettingName(name)) };
+}
+
+export function getSettingOverrides(): Partial<Record<ReloadableSettingName, string>> {
+  return { ...settingOverrides };
+}
+
+/**
+ * Sets reloadable settings that take precedence over the environment and the config file,
+ * or removes them when their value is null.
+ * Lists and maps can be given as arrays and objects, as in the config file.
+ *
+ * Nothing is applied when a setting is invalid or the resulting config is, in which case an error is thrown.
+ *
+ * @returns The settings that were set or removed
+ */
+export function updateSettingOverrides(
+  settings: Record<string, unknown>,
+): Array<ReloadableSettingName> {
+  const overrides = { ...settingOverrides };
+  for (const [name, value] of Object.entries(settings)) {
+    if (!isReloadableSettingName(name)) {
+      throw new Error(
+        `${name} is not a reloadable setting, expected one of: ${reloadableSettingNames.join(', ')}`,
+      );
+    }
+
+    if (value === null) {
+      delete overrides[name];
+    } else {
+      overrides[name] = toEnvironmentVariableValue(name, value);
+    }
+  }
+
+  const issues = getSettingIssues(overrides);
+  if (issues.length > 0) {
+    throw new Error(issues.join('\n'));
+  }
+
+  applyConfigChange(() => {
+    settingOverrides = overrides;
+  });
+
+  return Object.keys(settings).filter(isReloadableSettingName);
+}
+
+// Applies a change to the settings, undoing it when the config can no longer be created with them,
+// e.g. when both INCLUDE_TOOLS and EXCLUDE_TOOLS would be set.
+function applyConfigChange(change: () => void): void {
+  const previousConfigFile = configFile;
+  const previousSettingOverrides = settingOverrides;
+
+  change();
+  try {
+    new Config();
+  } catch (error) {
+    configFile = previousConfigFile;
+    settingOverrides = previousSettingOverrides;
+    throw error;
+  }
+}
+
+/**
+ * Validates settings given as the values of their environment variables,
+ * returning a message for each invalid value, e.g. "MAX_RESULT_LIMIT: Expected a number".
+ *
+ * Empty values are not validated, since they are the same as not setting the variable.
+ *
+ * @param options.ignoreUnknown - Whether to ignore variables that are not settings, e.g. when validating the environment
+ */
+export function getSettingIssues(
+  vars: Record<string, string | undefined>,
+  { ignoreUnknown = false }: { ignoreUnknown?: boolean } = {},
+): Array<string> {
+  const settings = Object.fromEntries(
+    Object.entries(vars).filter(
+      ([name, value]) => value && (!ignoreUnknown || name in settingsSchema.shape),
+    ),
+  );
+
+  const result = settingsSchema.safeParse(settings);
+  if (result.success) {
+    return [];
+  }
+
+  return result.error.issues.flatMap((issue) =>
+    issue.code === z.ZodIssueCode.unrecognized_keys
+      ? issue.keys.map((key) => `${key}: Unknown setting`)
+      : `${issue.path.join('.')}: ${issue.message}`,
+  );
+}
+
 export const getConfig = (): Config => new Config();
 
 export const exportedForTesting = {
@@ -0,0 +1,79 @@
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+
+// Settings whose environment variable holds JSON, so objects and arrays in the config file are written as JSON.
+// Objects and arrays of the other settings are written as "key:value" pairs and comma-separated lists.
+const jsonSettingNames = new Set([
+  'COLUMN_POLICIES',
+  'CORS_ORIGIN_CONFIG',
+  'DATASOURCE_CREDENTIALS',
+  'JWT_ADDITIONAL_PAYLOAD',
+  'SITES',
+  'TELEMETRY_PROVIDER_CONFIG',
+  'TOOL_POLICIES',
+]);
+
+/**
+ * Reads a JSON or YAML config file, whose keys are the names of the environment variables they set.
+ * The values are converted to the strings the environment variables would have,
+ * e.g. `INCLUDE_TOOLS: [query-datasource, list-datasources]` becomes `"query-datasource,list-datasources"`.
+ *
+ * The file is parsed as YAML unless its extension is .json. The values are not validated.
+ *
+ * @param path - The path of the config file
+ */
+export function readConfigFile(path: string): Record<string, string> {
+  let contents: string;
+  try {
+    contents = readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new Error(`Could not read the config file ${path}: ${(error as Error).message}`);
+  }
+
+  let settings: unknown;
+  try {
+    settings = extname(path).toLowerCase() === '.json' ? JSON.parse(contents) : parseYaml(contents);
+  } catch (error) {
+    throw new Error(`The config file ${path} could not be parsed: ${(error as Error).message}`);
+  }
+
+  if (settings === null || settings === undefined) {
+    // An empty YAML file
+    return {};
+  }
+
+  if (typeof settings !== 'object' || Array.isArray(settings)) {
+    throw new Error(`The config file ${path} must contain an object of settings`);
+  }
+
+  return Object.entries(settings).reduce<Record<string, string>>((acc, [name, value]) => {
+    acc[name] = toEnvironmentVariableValue(name, value);
+    return acc;
+  }, {});
+}
+
+/**
+ * Converts the value of a setting, as given in the config file, to the string its environment variable would have.
+ */
+export function toEnvironmentVariableValue(name: string, value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  if (typeof value !== 'object') {
+    return String(value);
+  }
+
+  if (jsonSettingNames.has(name)) {
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(String).join(',');
+  }
+
+  return Object.entries(value)
+    .map(([key, value]) => `${key}:${value}`)
+    .join(',');
+}
@@ -0,0 +1,78 @@
+import { watchFile } from 'fs';
+
+import { ReloadableSettingName, reloadConfigFile } from './config.js';
+import { writeToStderr } from './logging/log.js';
+import { updateConnectedServerTools } from './server.js';
+import { resourceAccessChecker } from './tools/resourceAccessChecker.js';
+import { getExceptionMessage } from './utils/getExceptionMessage.js';
+
+const boundedContextSettingNames: Array<ReloadableSettingName> = [
+  'INCLUDE_PROJECT_IDS',
+  'INCLUDE_DATASOURCE_IDS',
+  'INCLUDE_WORKBOOK_IDS',
+  'INCLUDE_TAGS',
+  'INCLUDE_CHILD_PROJECTS',
+  'CERTIFIED_DATASOURCES_ONLY',
+  'INCLUDE_OWNER_IDS',
+  'EXCLUDE_OWNER_IDS',
+];
+
+const toolSettingNames: Array<ReloadableSettingName> = [
+  'INCLUDE_TOOLS',
+  'EXCLUDE_TOOLS',
+  'TOOL_POLICIES',
+];
+
+let watchedPath: string | undefined;
+
+/**
+ * Updates what depends on reloadable settings that changed.
+ * Result limits and column policies need nothing more, since they are read from the config for every tool call.
+ */
+export async function applySettingChanges(changed: Array<ReloadableSettingName>): Promise<void> {
+  if (changed.some((name) => boundedContextSettingNames.includes(name))) {
+    resourceAccessChecker.clearCache();
+  }
+
+  if (changed.some((name) => toolSettingNames.includes(name))) {
+    await updateConnectedServerTools();
+  }
+}
+
+/**
+ * Reloads the config file set by CONFIG_FILE whenever it changes.
+ *
+ * The file is polled rather than watched for events, since editors and Kubernetes config maps
+ * replace the file instead of writing to it.
+ */
+export function watchConfigFile(): void {
+  const path = process.env.CONFIG_FILE;
+  if (!path || watchedPath) {
+    return;
+  }
+
+  watchedPath = path;
+  watchFile(path, { interval: 2000, persistent: false }, async (current, previous) => {
+    if (current.mtimeMs === previous.mtimeMs) {
+      return;
+    }
+
+    try {
+      const { changed, ignored } = reloadConfigFile();
+      if (ignored.length > 0) {
+        writeToStderr(
+          `The config file changed, but these settings need a restart to take effect: ${ignored.join(', ')}`,
+        );
+      }
+
+      if (changed.length > 0) {
+        writeToStderr(`Reloaded from the config file: ${changed.join(', ')}`);
+        await applySettingChanges(changed);
+      }
+    } catch (error) {
+      writeToStderr(
+        `The config file could not be reloaded, keeping the previous settings: ${getExceptionMessage(error)}`,
+      );
+    }
+  });
+}
@@ -0,0 +1,146 @@
+/* eslint-disable no-console -- The doctor command prints its report to the console. */
+import { accessSync, constants, existsSync, statSync } from 'fs';
+import { dirname, resolve } from 'path';
+
+import { Config, getConfigVars, getSettingIssues } from './config.js';
+import { readConfigFile } from './configFile.js';
+import { getExceptionMessage } from './utils/getExceptionMessage.js';
+
+// Settings that hold secrets, which are redacted from the effective config.
+const secretNamePattern = /secret|password|passphrase|privatekey$|patvalue|apikey|credentials/i;
+
+/**
+ * Validates the configuration of the server, from the environment and the config file set by CONFIG_FILE,
+ * checks that the files it refers to exist, and prints the effective config with its secrets redacted.
+ *
+ * Run with `tableau-mcp-server doctor`.
+ *
+ * @returns Whether the configuration is valid
+ */
+export function runDoctor(): boolean {
+  let valid = true;
+  const report = (title: string, problems: Array<string>): void => {
+    if (problems.length === 0) {
+      console.log(`✅ ${title}`);
+      return;
+    }
+
+    valid = false;
+    console.log(`❌ ${title}`);
+    for (const problem of problems) {
+      console.log(`   - ${problem}`);
+    }
+  };
+
+  const { CONFIG_FILE: configFilePath } = process.env;
+  if (configFilePath) {
+    let problems: Array<string>;
+    try {
+      problems = getSettingIssues(readConfigFile(configFilePath));
+    } catch (error) {
+      problems = [getExceptionMessage(error)];
+    }
+
+    report(`Config file ${resolve(configFilePath)}`, problems);
+  } else {
+    console.log('ℹ️ No config file, set CONFIG_FILE to use one');
+  }
+
+  report('Environment variables', getSettingIssues(process.env, { ignoreUnknown: true }));
+
+  if (!valid) {
+    console.log('\nFix the settings above to check the rest of the configuration.');
+    return false;
+  }
+
+  let config: Config;
+  try {
+    config = new Config();
+  } catch (error) {
+    report('Configuration', [getExceptionMessage(error)]);
+    return false;
+  }
+
+  report('Configuration', []);
+  report('Files', getFileProblems(getConfigVars(), config));
+
+  console.log(`\nEffective config:\n${JSON.stringify(config, redactSecrets, 2)}`);
+  return valid;
+}
+
+function getFileProblems(vars: Record<string, string | undefined>, config: Config): Array<string> {
+  const problems: Array<string> = [];
+  const files = {
+    SSL_KEY: config.sslKey,
+    SSL_CERT: config.sslCert,
+    UAT_PRIVATE_KEY_PATH: vars.UAT_PRIVATE_KEY_PATH,
+    OAUTH_JWE_PRIVATE_KEY_PATH: config.oauth.jwePrivateKeyPath,
+  };
+
+  for (const [name, path] of Object.entries(files)) {
+    if (path && !existsSync(path)) {
+      problems.push(`${name}: ${path} does not exist`);
+    }
+  }
+
+  const directories = {
+    ...(config.sessionStore === 'file' && {
+      SESSION_STORE_PATH: dirname(config.sessionStorePath),
+    }),
+    ...(config.eventStoreDirectory && { EVENT_STORE_DIRECTORY: config.eventStoreDirectory }),
+    ...(config.enableServerLogging && { SERVER_LOG_DIRECTORY: config.serverLogDirectory }),
+    ...(config.auditLog === 'file' && { AUDIT_LOG_DIRECTORY: config.auditLogDirectory }),
+  };
+
+  for (const [name, path] of Object.entries(directories)) {
+    const problem = getDirectoryProblem(path);
+    if (problem) {
+      problems.push(`${name}: ${problem}`);
+    }
+  }
+
+  return problems;
+}
+
+// Directories are created when needed, so they only need to be writable or be in a writable directory.
+function getDirectoryProblem(path: string): string | undefined {
+  let existingPath = resolve(path);
+  while (!existsSync(existingPath)) {
+    existingPath = dirname(existingPath);
+  }
+
+  if (!statSync(existingPath).isDirectory()) {
+    return `${existingPath} is not a directory`;
+  }
+
+  try {
+    accessSync(existingPath, constants.W_OK);
+  } catch {
+    return `${existingPath} is not writable`;
+  }
+}
+
+function redactSecrets(key: string, value: unknown): unknown {
+  if (value instanceof Map) {
+    return Object.fromEntries(value);
+  }
+
+  if (value instanceof Set) {
+    return [...value];
+  }
+
+  if (value && secretNamePattern.test(key)) {
+    return '<redacted>';
+  }
+
+  if (key === 'sessionStoreUrl' && typeof value === 'string' && value) {
+    const url = new URL(value);
+    if (url.password) {
+      url.password = 'redacted';
+    }
+
+    return url.toString();
+  }
+
+  return value;
+}
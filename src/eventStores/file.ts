@@ -0,0 +1,116 @@
+import { EventId, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { appendFile, mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+
+import { MemoryEventStore } from './memory.js';
+import { StoredEvent } from './types.js';
+
+/**
+ * Keeps the most recent events of a session in memory and in a JSON Lines file,
+ * so a session restored after a restart can still replay the events sent before it.
+ *
+ * Events are appended to the file, which is rewritten with only the events in memory
+ * once it holds twice as many events as the store can.
+ */
+export class FileEventStore extends MemoryEventStore {
+  private readonly _path: string;
+  private _loaded: Promise<void> | undefined;
+  private _queue: Promise<unknown> = Promise.resolve();
+  private _fileEventCount = 0;
+
+  constructor({ capacity, path }: { capacity: number; path: string }) {
+    super({ capacity });
+    this._path = path;
+  }
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    await this._load();
+
+    // The file is updated in the order events are added, which the queue preserves.
+    const event = this._addEvent(streamId, message);
+    if (this._fileEventCount >= this._events.capacity * 2) {
+      const events = [...this._events];
+      this._fileEventCount = events.length;
+      await this._enqueue(() => this._rewrite(events));
+    } else {
+      this._fileEventCount++;
+      await this._enqueue(async () => {
+        await mkdir(dirname(this._path), { recursive: true });
+        await appendFile(this._path, `${JSON.stringify(event)}\n`, { mode: 0o600 });
+      });
+    }
+
+    return event.eventId;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    await this._load();
+    return super.getStreamIdForEventId(eventId);
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    options: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> },
+  ): Promise<StreamId> {
+    await this._load();
+    return super.replayEventsAfter(lastEventId, options);
+  }
+
+  async clear(): Promise<void> {
+    await super.clear();
+    this._fileEventCount = 0;
+    await this._enqueue(() => rm(this._path, { force: true }));
+  }
+
+  private _load(): Promise<void> {
+    if (!this._loaded) {
+      this._loaded = this._enqueue(async () => {
+        let contents: string;
+        try {
+          contents = await readFile(this._path, 'utf8');
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return;
+          }
+
+          throw error;
+        }
+
+        for (const line of contents.split('\n')) {
+          if (!line) {
+            continue;
+          }
+
+          const event: StoredEvent = JSON.parse(line);
+          this._events.push(event);
+          this._fileEventCount++;
+
+          // Sequence numbers continue from the last event, so event IDs are never reused.
+          const sequenceNumber = parseInt(event.eventId.slice(event.eventId.lastIndexOf('_') + 1));
+          if (sequenceNumber >= this._nextSequenceNumber) {
+            this._nextSequenceNumber = sequenceNumber + 1;
+          }
+        }
+      });
+    }
+
+    return this._loaded;
+  }
+
+  private async _rewrite(events: Array<StoredEvent>): Promise<void> {
+    const tempPath = `${this._path}.${process.pid}.tmp`;
+    await mkdir(dirname(this._path), { recursive: true });
+    await writeFile(tempPath, events.map((event) => `${JSON.stringify(event)}\n`).join(''), {
+      encoding: 'utf8',
+      mode: 0o600,
+    });
+    await rename(tempPath, this._path);
+  }
+
+  private _enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this._queue.then(operation);
+    this._queue = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,28 @@
+import { join } from 'path';
+
+import { getConfig } from '../config.js';
+import { FileEventStore } from './file.js';
+import { MemoryEventStore } from './memory.js';
+import { SessionEventStore } from './types.js';
+
+/**
+ * Creates the event store of a session, or returns undefined when EVENT_STORE_SIZE is 0,
+ * in which case the streams of the session can't be resumed.
+ *
+ * When EVENT_STORE_DIRECTORY is set, the events are also written to a file of the session in it.
+ */
+export function createEventStore(sessionId: string): SessionEventStore | undefined {
+  const { eventStoreSize, eventStoreDirectory } = getConfig();
+  if (eventStoreSize <= 0) {
+    return;
+  }
+
+  if (eventStoreDirectory) {
+    return new FileEventStore({
+      capacity: eventStoreSize,
+      path: join(eventStoreDirectory, `${sessionId}.jsonl`),
+    });
+  }
+
+  return new MemoryEventStore({ capacity: eventStoreSize });
+}
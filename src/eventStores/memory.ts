@@ -0,0 +1,68 @@
+import { EventId, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+import { RingBuffer } from '../utils/ringBuffer.js';
+import { SessionEventStore, StoredEvent } from './types.js';
+
+/**
+ * Keeps the most recent events of a session in memory, up to the capacity of the store.
+ *
+ * Event IDs are the ID of their stream followed by a sequence number,
+ * so events can only be replayed after an event that is still in the store.
+ */
+export class MemoryEventStore implements SessionEventStore {
+  protected readonly _events: RingBuffer<StoredEvent>;
+  protected _nextSequenceNumber = 0;
+
+  constructor({ capacity }: { capacity: number }) {
+    this._events = new RingBuffer(capacity);
+  }
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    return this._addEvent(streamId, message).eventId;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return this._findEvent(eventId)?.streamId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> },
+  ): Promise<StreamId> {
+    const lastEvent = this._findEvent(lastEventId);
+    if (!lastEvent) {
+      throw new Error(`Event ${lastEventId} is no longer in the event store`);
+    }
+
+    let found = false;
+    for (const { eventId, streamId, message } of this._events) {
+      if (eventId === lastEventId) {
+        found = true;
+      } else if (found && streamId === lastEvent.streamId && Object.keys(message).length > 0) {
+        // Priming events have an empty message and are only sent when a stream is opened.
+        await send(eventId, message);
+      }
+    }
+
+    return lastEvent.streamId;
+  }
+
+  async clear(): Promise<void> {
+    this._events.clear();
+  }
+
+  protected _addEvent(streamId: StreamId, message: JSONRPCMessage): StoredEvent {
+    const event = { eventId: `${streamId}_${this._nextSequenceNumber++}`, streamId, message };
+    this._events.push(event);
+    return event;
+  }
+
+  private _findEvent(eventId: EventId): StoredEvent | undefined {
+    for (const event of this._events) {
+      if (event.eventId === eventId) {
+        return event;
+      }
+    }
+  }
+}
@@ -0,0 +1,17 @@
+import { EventId, EventStore, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+export type StoredEvent = {
+  eventId: EventId;
+  streamId: StreamId;
+  message: JSONRPCMessage;
+};
+
+/**
+ * Keeps the messages sent to the client on the SSE streams of a session,
+ * so that a client whose connection dropped can reconnect with Last-Event-ID and replay the messages it missed.
+ */
+export interface SessionEventStore extends EventStore {
+  // Removes every event once the session has ended
+  clear(): Promise<void>;
+}
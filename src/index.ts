@@ -2,17 +2,34 @@
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import dotenv from 'dotenv';
 
-import { getConfig } from './config.js';
+import { findBrokenAuditLogLine } from './auditLog/file.js';
+import { closeAuditSink } from './auditLog/init.js';
+import { getConfig, getSettingIssues } from './config.js';
+import { watchConfigFile } from './configReload.js';
+import { runDoctor } from './doctor.js';
 import { isLoggingLevel, log, setLogLevel, setServerLogger, writeToStderr } from './logging/log.js';
 import { ServerLogger } from './logging/serverLogger.js';
+import { drainRestApiSessionPool } from './restApiSessionPool.js';
 import { Server, serverName, serverVersion } from './server.js';
 import { startExpressServer } from './server/express.js';
+import { closeSessionStore } from './sessionStores/init.js';
+import { ensureTelemetryInitialized, getTelemetryProvider } from './telemetry/init.js';
 import { getExceptionMessage } from './utils/getExceptionMessage.js';
 
 async function startServer(): Promise<void> {
   dotenv.config();
+
+  // Invalid values would otherwise fall back to their defaults without notice.
+  const settingIssues = getSettingIssues(process.env, { ignoreUnknown: true });
+  if (settingIssues.length > 0) {
+    throw new Error(`Invalid environment variables:\n${settingIssues.join('\n')}`);
+  }
+
   const config = getConfig();
 
+  // Without the preload script, telemetry starts with the server.
+  ensureTelemetryInitialized();
+
   const logLevel = isLoggingLevel(config.defaultLogLevel) ? config.defaultLogLevel : 'debug';
   if (config.enableServerLogging) {
     setServerLogger(new ServerLogger({ logDirectory: config.serverLogDirectory }));
@@ -22,6 +39,8 @@ async function startServer(): Promise<void> {
     case 'stdio': {
       const server = new Server();
       await server.registerTools();
+      server.registerResources();
+      server.registerPrompts();
       server.registerRequestHandlers();
 
       const transport = new StdioServerTransport();
@@ -48,12 +67,66 @@ async function startServer(): Promise<void> {
     }
   }
 
+  watchConfigFile();
+
   if (config.disableLogMasking) {
     writeToStderr('⚠️ Log masking is disabled!');
   }
+
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, async () => {
+      // Sign out of pooled Tableau sessions so they don't count against concurrency limits after shutdown.
+      await runShutdownStep('sign out of pooled Tableau sessions', drainRestApiSessionPool);
+
+      // Stored sessions are kept so that clients can resume them once the server is back.
+      await runShutdownStep('close the session store', closeSessionStore);
+      await runShutdownStep('close the audit log', closeAuditSink);
+      await runShutdownStep('shut down telemetry', async () => {
+        await getTelemetryProvider().shutdown?.();
+      });
+      process.exit(0);
+    });
+  }
+}
+
+if (process.argv[2] === 'doctor') {
+  dotenv.config();
+  process.exit(runDoctor() ? 0 : 1);
 }
 
-startServer().catch((error) => {
-  writeToStderr(`Fatal error when starting the server: ${getExceptionMessage(error)}`);
-  process.exit(1);
-});
+if (process.argv[2] === 'verify-audit-log') {
+  dotenv.config();
+  verifyAuditLog().then((valid) => process.exit(valid ? 0 : 1));
+} else {
+  startServer().catch((error) => {
+    writeToStderr(`Fatal error when starting the server: ${getExceptionMessage(error)}`);
+    process.exit(1);
+  });
+}
+
+// Runs a step of the shutdown, which must not keep the following steps from running when it fails.
+async function runShutdownStep(description: string, step: () => Promise<void>): Promise<void> {
+  try {
+    await step();
+  } catch (error) {
+    writeToStderr(`Could not ${description} during shutdown: ${getExceptionMessage(error)}`);
+  }
+}
+
+// Verifies the hash chain of the audit log files in AUDIT_LOG_DIRECTORY.
+async function verifyAuditLog(): Promise<boolean> {
+  const { auditLogDirectory } = getConfig();
+  try {
+    const brokenLine = await findBrokenAuditLogLine(auditLogDirectory);
+    if (brokenLine) {
+      writeToStderr(`The audit log was tampered with, its hash chain is broken at ${brokenLine}`);
+      return false;
+    }
+  } catch (error) {
+    writeToStderr(`Could not verify the audit log: ${getExceptionMessage(error)}`);
+    return false;
+  }
+
+  writeToStderr(`The audit log in ${auditLogDirectory} is intact`);
+  return true;
+}
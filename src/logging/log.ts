@@ -1,10 +1,19 @@
 import { LoggingLevel, RequestId } from '@modelcontextprotocol/sdk/types.js';
 
+import { PromptName } from '../prompts/promptName.js';
+import { ResourceName } from '../resources/resourceName.js';
 import { Server } from '../server.js';
 import { ToolName } from '../tools/toolName.js';
 import { ServerLogger } from './serverLogger.js';
 type Logger = 'rest-api' | (string & {});
-type LogType = LoggingLevel | 'request' | 'response' | 'tool' | 'request-cancelled';
+type LogType =
+  | LoggingLevel
+  | 'request'
+  | 'response'
+  | 'tool'
+  | 'resource'
+  | 'prompt'
+  | 'request-cancelled';
 type LogMessage = {
   type: LogType;
   [key: string]: any;
@@ -103,6 +112,50 @@ export const getToolLogMessage = ({
   };
 };
 
+export const getResourceLogMessage = ({
+  requestId,
+  resourceName,
+  uri,
+  username,
+}: {
+  requestId: RequestId;
+  resourceName: ResourceName;
+  uri: string;
+  username?: string;
+}): LogMessage => {
+  return {
+    type: 'resource',
+    requestId,
+    ...(username ? { username } : {}),
+    resource: {
+      name: resourceName,
+      uri,
+    },
+  };
+};
+
+export const getPromptLogMessage = ({
+  requestId,
+  promptName,
+  args,
+  username,
+}: {
+  requestId: RequestId;
+  promptName: PromptName;
+  args: unknown;
+  username?: string;
+}): LogMessage => {
+  return {
+    type: 'prompt',
+    requestId,
+    ...(username ? { username } : {}),
+    prompt: {
+      name: promptName,
+      ...(args !== undefined ? { args } : {}),
+    },
+  };
+};
+
 function getSendLoggingMessageFn(level: LoggingLevel) {
   return async (
     server: Server,
@@ -113,7 +166,8 @@ function getSendLoggingMessageFn(level: LoggingLevel) {
   ) => {
     serverLogger?.log({ message, level, logger });
 
-    if (!shouldLogWhenLevelIsAtLeast(level)) {
+    // Messages logged before the server is connected, e.g. while its tools are registered, can't be sent to the client.
+    if (!shouldLogWhenLevelIsAtLeast(level) || !server.isConnected()) {
       return;
     }
 
@@ -72,6 +72,29 @@ export const maskResponse = (response: ResponseInterceptorConfig): MaskedRespons
   return maskedData;
 };
 
+// The arguments of tool calls whose names suggest they hold secrets.
+const secretArgNamePattern = /password|secret|token|credentials|apikey/i;
+
+/**
+ * Redacts the values of the arguments of a tool call whose names suggest they hold secrets, at any depth.
+ */
+export const maskArgs = (args: unknown): unknown => {
+  if (Array.isArray(args)) {
+    return args.map(maskArgs);
+  }
+
+  if (args && typeof args === 'object') {
+    return Object.fromEntries(
+      Object.entries(args).map(([name, value]) => [
+        name,
+        secretArgNamePattern.test(name) ? '<redacted>' : maskArgs(value),
+      ]),
+    );
+  }
+
+  return args;
+};
+
 function clone<T>(obj: T): Result<T, Error> {
   try {
     return Ok(structuredClone(obj));
@@ -0,0 +1,96 @@
+import { createHash } from 'crypto';
+
+import { getConfig } from './config.js';
+import { recordCacheLookup } from './metrics.js';
+import { ResponseCache } from './sdks/tableau/responseCache.js';
+import { ExpiringMap } from './utils/expiringMap.js';
+
+/**
+ * Cache of datasource metadata responses from VizQL Data Service and the Metadata API,
+ * shared by every request so that validating a query does not fetch the same metadata again.
+ *
+ * Keys are scoped to the site and user that requested the response, so OAuth users never see each other's metadata.
+ * They are hashed since they can contain datasource credentials.
+ */
+export class MetadataCache implements ResponseCache {
+  private readonly _entries: ExpiringMap<string, unknown>;
+  private readonly _maxEntries: number;
+
+  constructor({ ttlMs, maxEntries }: { ttlMs: number; maxEntries: number }) {
+    this._entries = new ExpiringMap({ defaultExpirationTimeMs: ttlMs });
+    this._maxEntries = maxEntries;
+  }
+
+  get size(): number {
+    return this._entries.size;
+  }
+
+  get(key: string): unknown {
+    const value = this._entries.get(hashKey(key));
+    recordCacheLookup('metadata', value !== undefined);
+    return value;
+  }
+
+  set(key: string, value: unknown): void {
+    const hashedKey = hashKey(key);
+
+    // Entries are kept in insertion order, so the first one is the oldest.
+    while (this._entries.size >= this._maxEntries && !this._entries.has(hashedKey)) {
+      const oldestKey = this._entries.keys().next().value;
+      if (oldestKey === undefined) {
+        break;
+      }
+
+      this._entries.delete(oldestKey);
+    }
+
+    this._entries.set(hashedKey, value);
+  }
+
+  /**
+   * Removes every cached response.
+   *
+   * @returns The number of responses that were removed
+   */
+  clear(): number {
+    const { size } = this._entries;
+    this._entries.clear();
+    return size;
+  }
+}
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+let metadataCache: MetadataCache | undefined;
+
+/**
+ * Gets the shared metadata cache, or undefined when it is disabled.
+ */
+export const getMetadataCache = (): MetadataCache | undefined => {
+  const { metadataCacheTtlMs, metadataCacheMaxEntries } = getConfig();
+  if (metadataCacheTtlMs <= 0) {
+    return;
+  }
+
+  if (!metadataCache) {
+    metadataCache = new MetadataCache({
+      ttlMs: metadataCacheTtlMs,
+      maxEntries: metadataCacheMaxEntries,
+    });
+  }
+
+  return metadataCache;
+};
+
+export const flushMetadataCache = (): number => {
+  return metadataCache?.clear() ?? 0;
+};
+
+export const exportedForTesting = {
+  MetadataCache,
+  resetMetadataCache: () => {
+    metadataCache = undefined;
+  },
+};
@@ -0,0 +1,81 @@
+import { Counter, Gauge, Histogram, Registry } from 'prom-client';
+
+/**
+ * The Prometheus metrics served at /metrics when METRICS_API_KEY is set.
+ *
+ * They are kept in a registry of their own, so they are collected whether or not the endpoint is enabled,
+ * independently of the telemetry provider.
+ */
+export const metricsRegistry = new Registry();
+
+export const toolCalls = new Counter({
+  name: 'tableau_mcp_tool_calls_total',
+  help: 'Tool calls, by tool',
+  labelNames: ['tool'] as const,
+  registers: [metricsRegistry],
+});
+
+export const toolErrors = new Counter({
+  name: 'tableau_mcp_tool_errors_total',
+  help: 'Tool calls that returned an error, by tool and error type, e.g. "query-validation"',
+  labelNames: ['tool', 'error_type'] as const,
+  registers: [metricsRegistry],
+});
+
+export const restRequestDuration = new Histogram({
+  name: 'tableau_mcp_rest_request_duration_seconds',
+  help: 'Duration of the requests to the Tableau APIs, by method and response status',
+  labelNames: ['method', 'status'] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+  registers: [metricsRegistry],
+});
+
+export const oauthTokensIssued = new Counter({
+  name: 'tableau_mcp_oauth_tokens_issued_total',
+  help: 'Access tokens issued by the OAuth token endpoint, by grant type',
+  labelNames: ['grant_type'] as const,
+  registers: [metricsRegistry],
+});
+
+export type CacheName = 'query_result' | 'metadata';
+
+const cacheLookups = new Map<CacheName, { hits: number; misses: number }>();
+
+const cacheHits = new Counter({
+  name: 'tableau_mcp_cache_hits_total',
+  help: 'Cache lookups that found an entry, by cache',
+  labelNames: ['cache'] as const,
+  registers: [metricsRegistry],
+});
+
+const cacheMisses = new Counter({
+  name: 'tableau_mcp_cache_misses_total',
+  help: 'Cache lookups that did not find an entry, by cache',
+  labelNames: ['cache'] as const,
+  registers: [metricsRegistry],
+});
+
+new Gauge({
+  name: 'tableau_mcp_cache_hit_ratio',
+  help: 'Ratio of the cache lookups that found an entry since the server started, by cache',
+  labelNames: ['cache'] as const,
+  registers: [metricsRegistry],
+  collect() {
+    for (const [cache, { hits, misses }] of cacheLookups) {
+      this.set({ cache }, hits / (hits + misses));
+    }
+  },
+});
+
+export function recordCacheLookup(cache: CacheName, hit: boolean): void {
+  const lookups = cacheLookups.get(cache) ?? { hits: 0, misses: 0 };
+  if (hit) {
+    lookups.hits++;
+    cacheHits.inc({ cache });
+  } else {
+    lookups.misses++;
+    cacheMisses.inc({ cache });
+  }
+
+  cacheLookups.set(cache, lookups);
+}
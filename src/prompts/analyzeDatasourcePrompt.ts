@@ -0,0 +1,144 @@
+import { z } from 'zod';
+
+import { getConfig } from '../config.js';
+import { useRestApi } from '../restApiInstance.js';
+import { Server } from '../server.js';
+import { getTableauAuthInfo } from '../server/oauth/getTableauAuthInfo.js';
+import { getDatasourceFields } from '../tools/getDatasourceMetadata/getDatasourceMetadata.js';
+import { getVizqlDataServiceDisabledError } from '../tools/getVizqlDataServiceDisabledError.js';
+import { queryDatasourceToolDescription20253 } from '../tools/queryDatasource/queryDescription.2025.3.js';
+import { queryDatasourceToolDescription } from '../tools/queryDatasource/queryDescription.js';
+import { resourceAccessChecker } from '../tools/resourceAccessChecker.js';
+import { getResultForTableauVersion } from '../utils/isTableauVersionAtLeast.js';
+import { getPromptNotAllowedError, Prompt } from './prompt.js';
+
+const argsSchema = {
+  datasourceLuid: z.string().nonempty().describe('The LUID of the published datasource to analyze'),
+  question: z
+    .string()
+    .optional()
+    .describe('An optional business question the analysis should answer'),
+  fieldCaption: z
+    .string()
+    .optional()
+    .describe('An optional field the analysis should break the data down by'),
+  filterValue: z
+    .string()
+    .optional()
+    .describe('An optional value of the field given by fieldCaption to restrict the analysis to'),
+};
+
+export const getAnalyzeDatasourcePrompt = (server: Server): Prompt<typeof argsSchema> => {
+  const analyzeDatasourcePrompt = new Prompt({
+    server,
+    name: 'analyze-datasource',
+    title: 'Analyze Datasource',
+    description:
+      'Explore a published Tableau datasource: understand its fields, then query it to answer a question or surface notable trends.',
+    argsSchema,
+    toolNames: ['query-datasource'],
+    callback: async (
+      { datasourceLuid, question, fieldCaption, filterValue },
+      { requestId, authInfo, signal },
+    ) => {
+      const config = getConfig();
+      const tableauAuthInfo = getTableauAuthInfo(authInfo);
+
+      const isDatasourceAllowedResult = await resourceAccessChecker.isDatasourceAllowed({
+        datasourceLuid,
+        restApiArgs: { config, requestId, server, signal },
+      });
+
+      if (!isDatasourceAllowedResult.allowed) {
+        throw getPromptNotAllowedError(isDatasourceAllowedResult.message);
+      }
+
+      const fieldsResult = await useRestApi({
+        config,
+        requestId,
+        server,
+        jwtScopes: ['tableau:content:read', 'tableau:viz_data_service:read'],
+        signal,
+        authInfo: tableauAuthInfo,
+        callback: async (restApi) =>
+          await getDatasourceFields({
+            restApi,
+            datasourceLuid,
+            disableMetadataApiRequests: config.disableMetadataApiRequests,
+          }),
+      });
+
+      if (fieldsResult.isErr()) {
+        switch (fieldsResult.error.type) {
+          case 'feature-disabled':
+            throw new Error(getVizqlDataServiceDisabledError());
+          case 'datasource-not-allowed':
+            throw getPromptNotAllowedError(fieldsResult.error.message);
+          case 'tableau-error':
+            throw new Error(JSON.stringify(fieldsResult.error.error));
+        }
+      }
+
+      const queryGuidance = await getResultForTableauVersion({
+        server: config.server || tableauAuthInfo?.server,
+        mappings: {
+          '2025.3.0': queryDatasourceToolDescription20253,
+          default: queryDatasourceToolDescription,
+        },
+      });
+
+      return {
+        description: `Analyze the datasource with LUID ${datasourceLuid}`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: [
+                `I want to analyze the published Tableau datasource with LUID ${datasourceLuid}.`,
+                question
+                  ? `The question I want answered is: ${question}`
+                  : 'Identify the most notable trends, outliers and breakdowns in the data.',
+                ...(fieldCaption && filterValue
+                  ? [
+                      `Restrict the analysis to the rows where the field "${fieldCaption}" is "${filterValue}" by applying a SET filter.`,
+                    ]
+                  : fieldCaption
+                    ? [`Break the data down by the field "${fieldCaption}".`]
+                    : []),
+              ].join('\n'),
+            },
+          },
+          {
+            role: 'user',
+            content: {
+              type: 'resource',
+              resource: {
+                uri: `tableau://datasource/${datasourceLuid}/metadata`,
+                mimeType: 'application/json',
+                text: JSON.stringify(fieldsResult.value),
+              },
+            },
+          },
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: [
+                'The fields and parameters of the datasource are attached above, so you do not need to request its metadata again.',
+                'Follow these steps:',
+                '1. Pick the dimensions and measures that are relevant to the question, using their captions exactly as listed.',
+                '2. Run one or more focused queries using the query-datasource tool, following the guidance below.',
+                '3. Summarize the findings in plain language, citing the numbers the queries returned and noting any filters or limits you applied.',
+                '',
+                queryGuidance,
+              ].join('\n'),
+            },
+          },
+        ],
+      };
+    },
+  });
+
+  return analyzeDatasourcePrompt;
+};
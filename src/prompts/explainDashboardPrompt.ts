@@ -0,0 +1,92 @@
+import { z } from 'zod';
+
+import { getConfig } from '../config.js';
+import { useRestApi } from '../restApiInstance.js';
+import { Server } from '../server.js';
+import { getTableauAuthInfo } from '../server/oauth/getTableauAuthInfo.js';
+import { resourceAccessChecker } from '../tools/resourceAccessChecker.js';
+import { getPromptNotAllowedError, Prompt } from './prompt.js';
+
+const argsSchema = {
+  viewId: z.string().nonempty().describe('The ID of the dashboard or view to explain'),
+};
+
+export const getExplainDashboardPrompt = (server: Server): Prompt<typeof argsSchema> => {
+  const explainDashboardPrompt = new Prompt({
+    server,
+    name: 'explain-dashboard',
+    title: 'Explain Dashboard',
+    description:
+      'Explain what a Tableau dashboard or view shows, using an image of it and, when needed, its underlying data.',
+    argsSchema,
+    toolNames: ['get-view-image', 'get-view-data'],
+    callback: async ({ viewId }, { requestId, authInfo, signal }) => {
+      const config = getConfig();
+
+      const isViewAllowedResult = await resourceAccessChecker.isViewAllowed({
+        viewId,
+        restApiArgs: { config, requestId, server, signal },
+      });
+
+      if (!isViewAllowedResult.allowed) {
+        throw getPromptNotAllowedError(isViewAllowedResult.message);
+      }
+
+      const { view, pngData } = await useRestApi({
+        config,
+        requestId,
+        server,
+        jwtScopes: ['tableau:content:read', 'tableau:views:download'],
+        signal,
+        authInfo: getTableauAuthInfo(authInfo),
+        callback: async (restApi) => {
+          const view = await restApi.viewsMethods.getView({ viewId, siteId: restApi.siteId });
+          const pngData = await restApi.viewsMethods.queryViewImage({
+            viewId,
+            siteId: restApi.siteId,
+            resolution: 'high',
+          });
+
+          return { view, pngData };
+        },
+      });
+
+      return {
+        description: `Explain the view "${view.name}"`,
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `Explain the Tableau view "${view.name}" (ID ${viewId}). An image of it is attached below.`,
+            },
+          },
+          {
+            role: 'user',
+            content: {
+              type: 'image',
+              data: Buffer.from(pngData).toString('base64'),
+              mimeType: 'image/png',
+            },
+          },
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: [
+                'Structure your explanation as follows:',
+                '1. The purpose of the view and the audience it is likely built for.',
+                '2. What each chart or sheet shows, including the measures, dimensions and filters that are visible.',
+                '3. The key takeaways: the largest values, notable trends, outliers and comparisons.',
+                `If the image alone is not enough to support a takeaway, use the get-view-data tool with view ID ${viewId} to inspect the underlying data, and quote the exact values.`,
+                'Do not guess at values that are neither legible in the image nor present in the data.',
+              ].join('\n'),
+            },
+          },
+        ],
+      };
+    },
+  });
+
+  return explainDashboardPrompt;
+};
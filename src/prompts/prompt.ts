@@ -0,0 +1,122 @@
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  ErrorCode,
+  GetPromptResult,
+  McpError,
+  ServerNotification,
+  ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import { z, ZodRawShape, ZodTypeAny } from 'zod';
+
+import { getPromptLogMessage, log } from '../logging/log.js';
+import { Server } from '../server.js';
+import { getTableauAuthInfo } from '../server/oauth/getTableauAuthInfo.js';
+import { getTelemetryProvider } from '../telemetry/init.js';
+import { ToolName } from '../tools/toolName.js';
+import { getExceptionMessage } from '../utils/getExceptionMessage.js';
+import { PromptName } from './promptName.js';
+
+export type PromptRequestExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * The parameters for creating a prompt instance
+ *
+ * @typeParam Args - The schema of the prompt's arguments
+ */
+export type PromptParams<Args extends ZodRawShape> = {
+  // The MCP server instance
+  server: Server;
+
+  // The name of the prompt
+  name: PromptName;
+
+  // The human-readable title of the prompt
+  title: string;
+
+  // The description of the prompt
+  description: string;
+
+  // The schema of the prompt's arguments. Prompt arguments are always strings.
+  argsSchema: Args;
+
+  // The tools the prompt instructs the model to use. The prompt is only registered when all of them are.
+  toolNames: Array<ToolName>;
+
+  // A function that expands the prompt's arguments into a message sequence
+  callback: (
+    args: z.objectOutputType<Args, ZodTypeAny>,
+    extra: PromptRequestExtra,
+  ) => Promise<GetPromptResult>;
+};
+
+/**
+ * Represents an MCP prompt
+ *
+ * @template Args - The schema of the prompt's arguments
+ */
+export class Prompt<Args extends ZodRawShape> {
+  server: Server;
+  name: PromptName;
+  title: string;
+  description: string;
+  argsSchema: Args;
+  toolNames: Array<ToolName>;
+  callback: PromptParams<Args>['callback'];
+
+  constructor({
+    server,
+    name,
+    title,
+    description,
+    argsSchema,
+    toolNames,
+    callback,
+  }: PromptParams<Args>) {
+    this.server = server;
+    this.name = name;
+    this.title = title;
+    this.description = description;
+    this.argsSchema = argsSchema;
+    this.toolNames = toolNames;
+    this.callback = callback;
+  }
+
+  logAndGet = async (
+    args: z.objectOutputType<Args, ZodTypeAny>,
+    extra: PromptRequestExtra,
+  ): Promise<GetPromptResult> => {
+    const { requestId, authInfo } = extra;
+
+    log.debug(
+      this.server,
+      getPromptLogMessage({
+        requestId,
+        promptName: this.name,
+        args,
+        username: getTableauAuthInfo(authInfo)?.username,
+      }),
+    );
+
+    getTelemetryProvider().recordMetric('mcp.prompt.gets', 1, {
+      prompt_name: this.name,
+      request_id: requestId.toString(),
+    });
+
+    try {
+      return await this.callback(args, extra);
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InternalError,
+        `requestId: ${requestId}, error: ${getExceptionMessage(error)}`,
+      );
+    }
+  };
+}
+
+export function getPromptNotAllowedError(message: string): McpError {
+  return new McpError(ErrorCode.InvalidParams, message);
+}
@@ -0,0 +1,10 @@
+export const promptNames = [
+  'analyze-datasource',
+  'explain-dashboard',
+  'summarize-pulse-metrics',
+] as const;
+export type PromptName = (typeof promptNames)[number];
+
+export function isPromptName(value: unknown): value is PromptName {
+  return !!promptNames.find((name) => name === value);
+}
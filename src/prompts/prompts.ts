@@ -0,0 +1,9 @@
+import { getAnalyzeDatasourcePrompt } from './analyzeDatasourcePrompt.js';
+import { getExplainDashboardPrompt } from './explainDashboardPrompt.js';
+import { getSummarizePulseMetricsPrompt } from './summarizePulseMetricsPrompt.js';
+
+export const promptFactories = [
+  getAnalyzeDatasourcePrompt,
+  getExplainDashboardPrompt,
+  getSummarizePulseMetricsPrompt,
+];
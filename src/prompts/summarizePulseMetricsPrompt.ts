@@ -0,0 +1,117 @@
+import { z } from 'zod';
+
+import { getConfig } from '../config.js';
+import { useRestApi } from '../restApiInstance.js';
+import { Server } from '../server.js';
+import { getTableauAuthInfo } from '../server/oauth/getTableauAuthInfo.js';
+import { constrainPulseMetrics } from '../tools/pulse/constrainPulseMetrics.js';
+import { getPulseDisabledError } from '../tools/pulse/getPulseDisabledError.js';
+import { Prompt } from './prompt.js';
+
+const argsSchema = {
+  focus: z
+    .string()
+    .optional()
+    .describe('An optional topic, such as a region or product line, the summary should focus on'),
+};
+
+export const getSummarizePulseMetricsPrompt = (server: Server): Prompt<typeof argsSchema> => {
+  const summarizePulseMetricsPrompt = new Prompt({
+    server,
+    name: 'summarize-pulse-metrics',
+    title: 'Summarize My Pulse Metrics',
+    description:
+      'Summarize how the Tableau Pulse Metrics the current user is subscribed to are performing.',
+    argsSchema,
+    toolNames: [
+      'list-pulse-metric-definitions-from-definition-ids',
+      'generate-pulse-insight-brief',
+    ],
+    callback: async ({ focus }, { requestId, authInfo, signal }) => {
+      const config = getConfig();
+
+      const metricsResult = await useRestApi({
+        config,
+        requestId,
+        server,
+        jwtScopes: ['tableau:metric_subscriptions:read', 'tableau:insight_metrics:read'],
+        signal,
+        authInfo: getTableauAuthInfo(authInfo),
+        callback: async (restApi) => {
+          const subscriptionsResult =
+            await restApi.pulseMethods.listPulseMetricSubscriptionsForCurrentUser();
+
+          if (subscriptionsResult.isErr() || subscriptionsResult.value.length === 0) {
+            return subscriptionsResult.map(() => []);
+          }
+
+          return await restApi.pulseMethods.listPulseMetricsFromMetricIds(
+            subscriptionsResult.value.map((subscription) => subscription.metric_id),
+          );
+        },
+      });
+
+      if (metricsResult.isErr()) {
+        throw new Error(getPulseDisabledError(metricsResult.error));
+      }
+
+      const constrainedMetrics = constrainPulseMetrics({
+        metrics: metricsResult.value,
+        boundedContext: config.boundedContext,
+      });
+
+      if (constrainedMetrics.type !== 'success') {
+        return {
+          description: 'Summarize my Pulse Metrics',
+          messages: [
+            {
+              role: 'user',
+              content: {
+                type: 'text',
+                text: `I wanted a summary of my Tableau Pulse Metrics, but none are available: ${constrainedMetrics.message}`,
+              },
+            },
+          ],
+        };
+      }
+
+      return {
+        description: 'Summarize my Pulse Metrics',
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: [
+                'Summarize how the Tableau Pulse Metrics I am subscribed to are performing.',
+                ...(focus ? [`Focus the summary on: ${focus}`] : []),
+                'The metrics are attached below.',
+              ].join('\n'),
+            },
+          },
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: JSON.stringify(constrainedMetrics.result),
+            },
+          },
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: [
+                'Follow these steps:',
+                '1. Use the list-pulse-metric-definitions-from-definition-ids tool with the definition_id of each metric to retrieve the metric definitions.',
+                '2. Group the metrics by datasource_luid and use the generate-pulse-insight-brief tool once per group, passing the complete metric and definition data.',
+                '3. Combine the insight briefs into a single summary that leads with the metrics that changed the most, calls out metrics that are off track from their goals, and ends with suggested follow-up questions.',
+              ].join('\n'),
+            },
+          },
+        ],
+      };
+    },
+  });
+
+  return summarizePulseMetricsPrompt;
+};
@@ -0,0 +1,153 @@
+import { Config } from '../config.js';
+import { TableauAuthInfo } from '../server/oauth/schemas.js';
+import { ToolName } from '../tools/toolName.js';
+import { ExpiringMap } from '../utils/expiringMap.js';
+import { Semaphore } from '../utils/semaphore.js';
+import { TokenBucket } from '../utils/tokenBucket.js';
+
+// Rate limits are numbers of calls per minute.
+const rateLimitIntervalMs = 60 * 1000;
+
+// A bucket that hasn't been used for an interval is full again, so it can be forgotten.
+const userBuckets = new ExpiringMap<string, TokenBucket>({
+  defaultExpirationTimeMs: rateLimitIntervalMs,
+});
+const toolBuckets = new Map<ToolName, TokenBucket>();
+let globalBucket: TokenBucket | undefined;
+
+const siteSemaphores = new Map<string, Semaphore>();
+
+export type Throttle = {
+  // The limit that was reached
+  scope: 'user' | 'tool' | 'global' | 'site-concurrency';
+  message: string;
+  retryAfterSeconds: number;
+};
+
+/**
+ * Takes a call from each rate limit that applies to it: USER_RATE_LIMIT for the user, RATE_LIMITS for the tool
+ * and RATE_LIMIT for every call. A call that one of them doesn't allow takes nothing from the others.
+ *
+ * @param config - The server configuration
+ * @param userKey - Identifies the user the tool is called by, e.g. from getUserIdentity()
+ * @param toolName - The name of the tool
+ * @returns The limit that was reached, or undefined when the call is allowed
+ */
+export function takeRateLimits({
+  config,
+  userKey,
+  toolName,
+}: {
+  config: Config;
+  userKey: string;
+  toolName: ToolName;
+}): Throttle | undefined {
+  const buckets: Array<[Throttle['scope'], TokenBucket]> = [];
+
+  if (config.userRateLimit) {
+    const bucket = getBucket(userBuckets.get(userKey), config.userRateLimit);
+    userBuckets.set(userKey, bucket);
+    buckets.push(['user', bucket]);
+  }
+
+  const toolRateLimit = config.getToolRateLimit(toolName);
+  if (toolRateLimit) {
+    const bucket = getBucket(toolBuckets.get(toolName), toolRateLimit);
+    toolBuckets.set(toolName, bucket);
+    buckets.push(['tool', bucket]);
+  }
+
+  if (config.rateLimit) {
+    globalBucket = getBucket(globalBucket, config.rateLimit);
+    buckets.push(['global', globalBucket]);
+  }
+
+  for (const [scope, bucket] of buckets) {
+    const waitMs = bucket.getWaitMs();
+    if (waitMs > 0) {
+      return {
+        scope,
+        message: getRateLimitMessage(scope, toolName, bucket.capacity),
+        retryAfterSeconds: Math.ceil(waitMs / 1000),
+      };
+    }
+  }
+
+  for (const [, bucket] of buckets) {
+    bucket.take();
+  }
+}
+
+/**
+ * Waits for one of the MAX_CONCURRENT_CALLS_PER_SITE calls that can run at once against a Tableau site.
+ *
+ * @param config - The server configuration, whose server and site name identify the site
+ * @param authInfo - The Tableau authentication info provided when OAuth is enabled,
+ * whose server and site identify the site instead when the user signed in to them
+ * @param signal - The abort signal of the call, which stops waiting once the call is cancelled
+ * @returns A function that must be called when the call is done, the throttle when the call waited
+ * longer than CONCURRENCY_QUEUE_TIMEOUT_MS, or undefined when the call was cancelled
+ */
+export async function acquireSiteSlot({
+  config,
+  authInfo,
+  signal,
+}: {
+  config: Config;
+  authInfo: TableauAuthInfo | undefined;
+  signal?: AbortSignal;
+}): Promise<{ release: () => void } | { throttle: Throttle } | undefined> {
+  const limit = config.maxConcurrentCallsPerSite;
+  if (!limit) {
+    return { release: () => {} };
+  }
+
+  const siteKey = JSON.stringify([
+    config.server || authInfo?.server,
+    authInfo?.siteId ?? config.siteName,
+  ]);
+  let semaphore = siteSemaphores.get(siteKey);
+  if (semaphore) {
+    semaphore.limit = limit;
+  } else {
+    semaphore = new Semaphore(limit);
+    siteSemaphores.set(siteKey, semaphore);
+  }
+
+  const release = await semaphore.acquire(config.concurrencyQueueTimeoutMs, signal);
+  if (signal?.aborted) {
+    release?.();
+    return;
+  }
+
+  if (!release) {
+    return {
+      throttle: {
+        scope: 'site-concurrency',
+        message: `The Tableau site is already running ${limit} tool calls at once. Try again shortly.`,
+        // A slot frees up as soon as one of the running calls ends.
+        retryAfterSeconds: 1,
+      },
+    };
+  }
+
+  return { release };
+}
+
+// Reuses a bucket unless its limit was changed.
+function getBucket(bucket: TokenBucket | undefined, limit: number): TokenBucket {
+  return bucket?.capacity === limit
+    ? bucket
+    : new TokenBucket({ capacity: limit, intervalMs: rateLimitIntervalMs });
+}
+
+function getRateLimitMessage(scope: Throttle['scope'], toolName: ToolName, limit: number): string {
+  switch (scope) {
+    case 'user':
+      return `You can make up to ${limit} tool calls per minute.`;
+    case 'tool':
+      return `The tool ${toolName} can be called up to ${limit} times per minute.`;
+    default:
+      return `The server can handle up to ${limit} tool calls per minute.`;
+  }
+}
@@ -0,0 +1,128 @@
+import { getConfig } from '../config.js';
+import { useRestApi } from '../restApiInstance.js';
+import { Server } from '../server.js';
+import { getTableauAuthInfo } from '../server/oauth/getTableauAuthInfo.js';
+import { getDatasourceFields } from '../tools/getDatasourceMetadata/getDatasourceMetadata.js';
+import { getVizqlDataServiceDisabledError } from '../tools/getVizqlDataServiceDisabledError.js';
+import { constrainDatasources } from '../tools/listDatasources/listDatasources.js';
+import { resourceAccessChecker } from '../tools/resourceAccessChecker.js';
+import { paginate } from '../utils/paginate.js';
+import {
+  DEFAULT_RESOURCE_LIST_LIMIT,
+  getResourceNotAllowedError,
+  getVariable,
+  Resource,
+} from './resource.js';
+
+export const getDatasourceMetadataResource = (server: Server): Resource => {
+  const datasourceMetadataResource = new Resource({
+    server,
+    name: 'datasource-metadata',
+    toolName: 'get-datasource-metadata',
+    uriTemplate: 'tableau://datasource/{datasourceLuid}/metadata',
+    title: 'Datasource Metadata',
+    description:
+      'The fields and parameters of a published Tableau datasource, enriched with descriptions, roles and data categories when available.',
+    mimeType: 'application/json',
+    list: async ({ requestId, authInfo, signal }) => {
+      const config = getConfig();
+      const datasources = await useRestApi({
+        config,
+        requestId,
+        server,
+        jwtScopes: ['tableau:content:read'],
+        signal,
+        authInfo: getTableauAuthInfo(authInfo),
+        callback: async (restApi) =>
+          await paginate({
+            pageConfig: {
+              limit: config.getMaxResultLimit('list-datasources') ?? DEFAULT_RESOURCE_LIST_LIMIT,
+            },
+            getDataFn: async (pageConfig) => {
+              const { pagination, datasources: data } =
+                await restApi.datasourcesMethods.listDatasources({
+                  siteId: restApi.siteId,
+                  filter: '',
+                  pageSize: pageConfig.pageSize,
+                  pageNumber: pageConfig.pageNumber,
+                });
+
+              return { pagination, data };
+            },
+          }),
+      });
+
+      const constrainedDatasources = constrainDatasources({
+        datasources,
+        boundedContext: await resourceAccessChecker.getBoundedContext({
+          config,
+          requestId,
+          server,
+          signal,
+        }),
+      });
+
+      if (constrainedDatasources.type !== 'success') {
+        return [];
+      }
+
+      return constrainedDatasources.result.map((datasource) => ({
+        uri: `tableau://datasource/${datasource.id}/metadata`,
+        name: datasource.name,
+        ...(datasource.description ? { description: datasource.description } : {}),
+        mimeType: 'application/json',
+      }));
+    },
+    read: async (uri, variables, { requestId, authInfo, signal }) => {
+      const config = getConfig();
+      const datasourceLuid = getVariable(variables, 'datasourceLuid');
+
+      const isDatasourceAllowedResult = await resourceAccessChecker.isDatasourceAllowed({
+        datasourceLuid,
+        restApiArgs: { config, requestId, server, signal },
+      });
+
+      if (!isDatasourceAllowedResult.allowed) {
+        throw getResourceNotAllowedError(isDatasourceAllowedResult.message);
+      }
+
+      const result = await useRestApi({
+        config,
+        requestId,
+        server,
+        jwtScopes: ['tableau:content:read', 'tableau:viz_data_service:read'],
+        signal,
+        authInfo: getTableauAuthInfo(authInfo),
+        callback: async (restApi) =>
+          await getDatasourceFields({
+            restApi,
+            datasourceLuid,
+            disableMetadataApiRequests: config.disableMetadataApiRequests,
+          }),
+      });
+
+      if (result.isErr()) {
+        switch (result.error.type) {
+          case 'feature-disabled':
+            throw new Error(getVizqlDataServiceDisabledError());
+          case 'datasource-not-allowed':
+            throw getResourceNotAllowedError(result.error.message);
+          case 'tableau-error':
+            throw new Error(JSON.stringify(result.error.error));
+        }
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify(result.value),
+          },
+        ],
+      };
+    },
+  });
+
+  return datasourceMetadataResource;
+};
@@ -0,0 +1,103 @@
+import { getConfig } from '../config.js';
+import { useRestApi } from '../restApiInstance.js';
+import { Server } from '../server.js';
+import { getTableauAuthInfo } from '../server/oauth/getTableauAuthInfo.js';
+import { constrainPulseMetrics } from '../tools/pulse/constrainPulseMetrics.js';
+import { getPulseDisabledError } from '../tools/pulse/getPulseDisabledError.js';
+import { getResourceNotAllowedError, getVariable, Resource } from './resource.js';
+
+export const getPulseMetricResource = (server: Server): Resource => {
+  const pulseMetricResource = new Resource({
+    server,
+    name: 'pulse-metric',
+    toolName: 'list-pulse-metrics-from-metric-ids',
+    uriTemplate: 'tableau://pulse/metric/{metricId}',
+    title: 'Pulse Metric',
+    description:
+      'A Tableau Pulse Metric, including its specification, goals and the LUID of its datasource. Only the metrics the current user is subscribed to are listed.',
+    mimeType: 'application/json',
+    list: async ({ requestId, authInfo, signal }) => {
+      const config = getConfig();
+      const metricsResult = await useRestApi({
+        config,
+        requestId,
+        server,
+        jwtScopes: ['tableau:metric_subscriptions:read', 'tableau:insight_metrics:read'],
+        signal,
+        authInfo: getTableauAuthInfo(authInfo),
+        callback: async (restApi) => {
+          const subscriptionsResult =
+            await restApi.pulseMethods.listPulseMetricSubscriptionsForCurrentUser();
+
+          if (subscriptionsResult.isErr() || subscriptionsResult.value.length === 0) {
+            return subscriptionsResult.map(() => []);
+          }
+
+          return await restApi.pulseMethods.listPulseMetricsFromMetricIds(
+            subscriptionsResult.value.map((subscription) => subscription.metric_id),
+          );
+        },
+      });
+
+      if (metricsResult.isErr()) {
+        throw new Error(getPulseDisabledError(metricsResult.error));
+      }
+
+      const constrainedMetrics = constrainPulseMetrics({
+        metrics: metricsResult.value,
+        boundedContext: config.boundedContext,
+      });
+
+      if (constrainedMetrics.type !== 'success') {
+        return [];
+      }
+
+      return constrainedMetrics.result.map((metric) => ({
+        uri: `tableau://pulse/metric/${metric.id}`,
+        name: metric.id,
+        mimeType: 'application/json',
+      }));
+    },
+    read: async (uri, variables, { requestId, authInfo, signal }) => {
+      const config = getConfig();
+      const metricId = getVariable(variables, 'metricId');
+
+      const metricsResult = await useRestApi({
+        config,
+        requestId,
+        server,
+        jwtScopes: ['tableau:insight_metrics:read'],
+        signal,
+        authInfo: getTableauAuthInfo(authInfo),
+        callback: async (restApi) => {
+          return await restApi.pulseMethods.listPulseMetricsFromMetricIds([metricId]);
+        },
+      });
+
+      if (metricsResult.isErr()) {
+        throw new Error(getPulseDisabledError(metricsResult.error));
+      }
+
+      const constrainedMetrics = constrainPulseMetrics({
+        metrics: metricsResult.value,
+        boundedContext: config.boundedContext,
+      });
+
+      if (constrainedMetrics.type !== 'success') {
+        throw getResourceNotAllowedError(constrainedMetrics.message);
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify(constrainedMetrics.result[0]),
+          },
+        ],
+      };
+    },
+  });
+
+  return pulseMetricResource;
+};
@@ -0,0 +1,175 @@
+import { ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import {
+  ErrorCode,
+  ListResourcesResult,
+  McpError,
+  ReadResourceResult,
+  Resource as McpResource,
+  ServerNotification,
+  ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+
+import { getResourceLogMessage, log } from '../logging/log.js';
+import { Server } from '../server.js';
+import { getTableauAuthInfo } from '../server/oauth/getTableauAuthInfo.js';
+import { getTelemetryProvider } from '../telemetry/init.js';
+import { ToolName } from '../tools/toolName.js';
+import { getExceptionMessage } from '../utils/getExceptionMessage.js';
+import { ResourceName } from './resourceName.js';
+
+// The maximum number of resources a single resource template lists when no result limit is configured.
+export const DEFAULT_RESOURCE_LIST_LIMIT = 100;
+
+export type ResourceRequestExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * The parameters for creating a resource instance
+ */
+export type ResourceParams = {
+  // The MCP server instance
+  server: Server;
+
+  // The name of the resource template
+  name: ResourceName;
+
+  // The tool whose content the resource exposes. The resource is only registered when the tool is.
+  toolName: ToolName;
+
+  // The RFC 6570 URI template of the resource, e.g. tableau://workbook/{workbookId}
+  uriTemplate: string;
+
+  // The human-readable title of the resource template
+  title: string;
+
+  // The description of the resource template
+  description: string;
+
+  // The MIME type of the contents of the resource
+  mimeType: string;
+
+  // A function that lists the resources matching the template
+  list?: (extra: ResourceRequestExtra) => Promise<Array<McpResource>>;
+
+  // A function that reads the contents of the resource
+  read: (
+    uri: URL,
+    variables: Variables,
+    extra: ResourceRequestExtra,
+  ) => Promise<ReadResourceResult>;
+};
+
+/**
+ * Represents an MCP resource template
+ */
+export class Resource {
+  server: Server;
+  name: ResourceName;
+  toolName: ToolName;
+  uriTemplate: string;
+  title: string;
+  description: string;
+  mimeType: string;
+  list?: ResourceParams['list'];
+  read: ResourceParams['read'];
+
+  constructor({
+    server,
+    name,
+    toolName,
+    uriTemplate,
+    title,
+    description,
+    mimeType,
+    list,
+    read,
+  }: ResourceParams) {
+    this.server = server;
+    this.name = name;
+    this.toolName = toolName;
+    this.uriTemplate = uriTemplate;
+    this.title = title;
+    this.description = description;
+    this.mimeType = mimeType;
+    this.list = list;
+    this.read = read;
+  }
+
+  get template(): ResourceTemplate {
+    return new ResourceTemplate(this.uriTemplate, {
+      list: this.list ? this.logAndList : undefined,
+    });
+  }
+
+  logAndList = async (extra: ResourceRequestExtra): Promise<ListResourcesResult> => {
+    if (!this.list) {
+      return { resources: [] };
+    }
+
+    try {
+      return { resources: await this.list(extra) };
+    } catch (error) {
+      // A template that cannot be listed should not prevent the other templates from being listed.
+      log.warning(
+        this.server,
+        `Failed to list ${this.name} resources: ${getExceptionMessage(error)}`,
+        { requestId: extra.requestId },
+      );
+      return { resources: [] };
+    }
+  };
+
+  logAndRead = async (
+    uri: URL,
+    variables: Variables,
+    extra: ResourceRequestExtra,
+  ): Promise<ReadResourceResult> => {
+    const { requestId, authInfo } = extra;
+
+    log.debug(
+      this.server,
+      getResourceLogMessage({
+        requestId,
+        resourceName: this.name,
+        uri: uri.href,
+        username: getTableauAuthInfo(authInfo)?.username,
+      }),
+    );
+
+    getTelemetryProvider().recordMetric('mcp.resource.reads', 1, {
+      resource_name: this.name,
+      request_id: requestId.toString(),
+    });
+
+    try {
+      return await this.read(uri, variables, extra);
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      throw new McpError(
+        ErrorCode.InternalError,
+        `requestId: ${requestId}, error: ${getExceptionMessage(error)}`,
+      );
+    }
+  };
+}
+
+/**
+ * Gets the value of a variable of a matched URI template.
+ */
+export function getVariable(variables: Variables, name: string): string {
+  const value = variables[name];
+  const decoded = decodeURIComponent((Array.isArray(value) ? value[0] : value) ?? '');
+  if (!decoded) {
+    throw new McpError(ErrorCode.InvalidParams, `The resource URI is missing the ${name}`);
+  }
+
+  return decoded;
+}
+
+export function getResourceNotAllowedError(message: string): McpError {
+  return new McpError(ErrorCode.InvalidParams, message);
+}
@@ -0,0 +1,12 @@
+export const resourceNames = [
+  'datasource-metadata',
+  'workbook',
+  'view-image',
+  'view-data',
+  'pulse-metric',
+] as const;
+export type ResourceName = (typeof resourceNames)[number];
+
+export function isResourceName(value: unknown): value is ResourceName {
+  return !!resourceNames.find((name) => name === value);
+}
@@ -0,0 +1,12 @@
+import { getDatasourceMetadataResource } from './datasourceMetadataResource.js';
+import { getPulseMetricResource } from './pulseMetricResource.js';
+import { getViewDataResource, getViewImageResource } from './viewResources.js';
+import { getWorkbookResource } from './workbookResource.js';
+
+export const resourceFactories = [
+  getDatasourceMetadataResource,
+  getWorkbookResource,
+  getViewImageResource,
+  getViewDataResource,
+  getPulseMetricResource,
+];
@@ -0,0 +1,197 @@
+import { Resource as McpResource } from '@modelcontextprotocol/sdk/types.js';
+
+import { applyColumnPoliciesToCsv } from '../columnPolicies/columnPolicies.js';
+import { getConfig } from '../config.js';
+import { useRestApi } from '../restApiInstance.js';
+import { Server } from '../server.js';
+import { getTableauAuthInfo } from '../server/oauth/getTableauAuthInfo.js';
+import { resourceAccessChecker } from '../tools/resourceAccessChecker.js';
+import { constrainViews } from '../tools/views/listViews.js';
+import { paginate } from '../utils/paginate.js';
+import {
+  DEFAULT_RESOURCE_LIST_LIMIT,
+  getResourceNotAllowedError,
+  getVariable,
+  Resource,
+  ResourceRequestExtra,
+} from './resource.js';
+
+export const getViewImageResource = (server: Server): Resource => {
+  const viewImageResource = new Resource({
+    server,
+    name: 'view-image',
+    toolName: 'get-view-image',
+    uriTemplate: 'tableau://view/{viewId}/image',
+    title: 'View Image',
+    description: 'A PNG image of a view in a Tableau workbook.',
+    mimeType: 'image/png',
+    list: async (extra) =>
+      await listViewResources({
+        server,
+        extra,
+        getUri: (viewId) => `tableau://view/${viewId}/image`,
+        mimeType: 'image/png',
+      }),
+    read: async (uri, variables, { requestId, authInfo, signal }) => {
+      const config = getConfig();
+      const viewId = getVariable(variables, 'viewId');
+
+      const isViewAllowedResult = await resourceAccessChecker.isViewAllowed({
+        viewId,
+        restApiArgs: { config, requestId, server, signal },
+      });
+
+      if (!isViewAllowedResult.allowed) {
+        throw getResourceNotAllowedError(isViewAllowedResult.message);
+      }
+
+      const pngData = await useRestApi({
+        config,
+        requestId,
+        server,
+        jwtScopes: ['tableau:views:download'],
+        signal,
+        authInfo: getTableauAuthInfo(authInfo),
+        callback: async (restApi) => {
+          return await restApi.viewsMethods.queryViewImage({
+            viewId,
+            siteId: restApi.siteId,
+            resolution: 'high',
+          });
+        },
+      });
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'image/png',
+            blob: Buffer.from(pngData).toString('base64'),
+          },
+        ],
+      };
+    },
+  });
+
+  return viewImageResource;
+};
+
+export const getViewDataResource = (server: Server): Resource => {
+  const viewDataResource = new Resource({
+    server,
+    name: 'view-data',
+    toolName: 'get-view-data',
+    uriTemplate: 'tableau://view/{viewId}/data',
+    title: 'View Data',
+    description: 'The data of a view in a Tableau workbook in comma separated value (CSV) format.',
+    mimeType: 'text/csv',
+    list: async (extra) =>
+      await listViewResources({
+        server,
+        extra,
+        getUri: (viewId) => `tableau://view/${viewId}/data`,
+        mimeType: 'text/csv',
+      }),
+    read: async (uri, variables, { requestId, authInfo, signal }) => {
+      const config = getConfig();
+      const viewId = getVariable(variables, 'viewId');
+
+      const isViewAllowedResult = await resourceAccessChecker.isViewAllowed({
+        viewId,
+        restApiArgs: { config, requestId, server, signal },
+      });
+
+      if (!isViewAllowedResult.allowed) {
+        throw getResourceNotAllowedError(isViewAllowedResult.message);
+      }
+
+      const csv = await useRestApi({
+        config,
+        requestId,
+        server,
+        jwtScopes: ['tableau:views:download'],
+        signal,
+        authInfo: getTableauAuthInfo(authInfo),
+        callback: async (restApi) => {
+          return await restApi.viewsMethods.queryViewData({
+            viewId,
+            siteId: restApi.siteId,
+          });
+        },
+      });
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'text/csv',
+            text: applyColumnPoliciesToCsv(
+              resourceAccessChecker.getColumnPolicyRules(),
+              csv,
+              config.columnPolicyHashSecret,
+            ),
+          },
+        ],
+      };
+    },
+  });
+
+  return viewDataResource;
+};
+
+async function listViewResources({
+  server,
+  extra: { requestId, authInfo, signal },
+  getUri,
+  mimeType,
+}: {
+  server: Server;
+  extra: ResourceRequestExtra;
+  getUri: (viewId: string) => string;
+  mimeType: string;
+}): Promise<Array<McpResource>> {
+  const config = getConfig();
+  const views = await useRestApi({
+    config,
+    requestId,
+    server,
+    jwtScopes: ['tableau:content:read'],
+    signal,
+    authInfo: getTableauAuthInfo(authInfo),
+    callback: async (restApi) =>
+      await paginate({
+        pageConfig: {
+          limit: config.getMaxResultLimit('list-views') ?? DEFAULT_RESOURCE_LIST_LIMIT,
+        },
+        getDataFn: async (pageConfig) => {
+          const { pagination, views: data } = await restApi.viewsMethods.queryViewsForSite({
+            siteId: restApi.siteId,
+            filter: '',
+            pageSize: pageConfig.pageSize,
+            pageNumber: pageConfig.pageNumber,
+          });
+
+          return { pagination, data };
+        },
+      }),
+  });
+
+  const constrainedViews = constrainViews({
+    views,
+    boundedContext: await resourceAccessChecker.getBoundedContext({
+      config,
+      requestId,
+      server,
+      signal,
+    }),
+  });
+  if (constrainedViews.type !== 'success') {
+    return [];
+  }
+
+  return constrainedViews.result.map((view) => ({
+    uri: getUri(view.id),
+    name: view.name,
+    mimeType,
+  }));
+}
@@ -0,0 +1,119 @@
+import { getConfig } from '../config.js';
+import { useRestApi } from '../restApiInstance.js';
+import { Server } from '../server.js';
+import { getTableauAuthInfo } from '../server/oauth/getTableauAuthInfo.js';
+import { resourceAccessChecker } from '../tools/resourceAccessChecker.js';
+import { constrainWorkbooks } from '../tools/workbooks/listWorkbooks.js';
+import { paginate } from '../utils/paginate.js';
+import {
+  DEFAULT_RESOURCE_LIST_LIMIT,
+  getResourceNotAllowedError,
+  getVariable,
+  Resource,
+} from './resource.js';
+
+export const getWorkbookResource = (server: Server): Resource => {
+  const workbookResource = new Resource({
+    server,
+    name: 'workbook',
+    toolName: 'get-workbook',
+    uriTemplate: 'tableau://workbook/{workbookId}',
+    title: 'Workbook',
+    description:
+      'Information about a Tableau workbook, including information about the views contained in the workbook.',
+    mimeType: 'application/json',
+    list: async ({ requestId, authInfo, signal }) => {
+      const config = getConfig();
+      const workbooks = await useRestApi({
+        config,
+        requestId,
+        server,
+        jwtScopes: ['tableau:content:read'],
+        signal,
+        authInfo: getTableauAuthInfo(authInfo),
+        callback: async (restApi) =>
+          await paginate({
+            pageConfig: {
+              limit: config.getMaxResultLimit('list-workbooks') ?? DEFAULT_RESOURCE_LIST_LIMIT,
+            },
+            getDataFn: async (pageConfig) => {
+              const { pagination, workbooks: data } =
+                await restApi.workbooksMethods.queryWorkbooksForSite({
+                  siteId: restApi.siteId,
+                  filter: '',
+                  pageSize: pageConfig.pageSize,
+                  pageNumber: pageConfig.pageNumber,
+                });
+
+              return { pagination, data };
+            },
+          }),
+      });
+
+      const constrainedWorkbooks = constrainWorkbooks({
+        workbooks,
+        boundedContext: await resourceAccessChecker.getBoundedContext({
+          config,
+          requestId,
+          server,
+          signal,
+        }),
+      });
+
+      if (constrainedWorkbooks.type !== 'success') {
+        return [];
+      }
+
+      return constrainedWorkbooks.result.map((workbook) => ({
+        uri: `tableau://workbook/${workbook.id}`,
+        name: workbook.name,
+        ...(workbook.description ? { description: workbook.description } : {}),
+        mimeType: 'application/json',
+      }));
+    },
+    read: async (uri, variables, { requestId, authInfo, signal }) => {
+      const config = getConfig();
+      const workbookId = getVariable(variables, 'workbookId');
+
+      const isWorkbookAllowedResult = await resourceAccessChecker.isWorkbookAllowed({
+        workbookId,
+        restApiArgs: { config, requestId, server, signal },
+      });
+
+      if (!isWorkbookAllowedResult.allowed) {
+        throw getResourceNotAllowedError(isWorkbookAllowedResult.message);
+      }
+
+      const workbook = await useRestApi({
+        config,
+        requestId,
+        server,
+        jwtScopes: ['tableau:content:read'],
+        signal,
+        authInfo: getTableauAuthInfo(authInfo),
+        callback: async (restApi) => {
+          // Notice that we already have the workbook if it had been allowed by a project scope.
+          return (
+            isWorkbookAllowedResult.content ??
+            (await restApi.workbooksMethods.getWorkbook({
+              workbookId,
+              siteId: restApi.siteId,
+            }))
+          );
+        },
+      });
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify(workbook),
+          },
+        ],
+      };
+    },
+  });
+
+  return workbookResource;
+};
@@ -3,6 +3,9 @@ import { RequestId } from '@modelcontextprotocol/sdk/types.js';
 import { Config, getConfig } from './config.js';
 import { log, shouldLogWhenLevelIsAtLeast } from './logging/log.js';
 import { maskRequest, maskResponse } from './logging/secretMask.js';
+import { getMetadataCache } from './metadataCache.js';
+import { restRequestDuration } from './metrics.js';
+import { getRestApiSessionPool, RestApiSessionPool } from './restApiSessionPool.js';
 import {
   AxiosResponseInterceptorConfig,
   ErrorInterceptor,
@@ -13,14 +16,20 @@ import {
   ResponseInterceptor,
   ResponseInterceptorConfig,
 } from './sdks/tableau/interceptors.js';
+import { tableauErrorSchema } from './sdks/tableau/apis/vizqlDataServiceApi.js';
+import { AuthConfig } from './sdks/tableau/authConfig.js';
 import { RestApi } from './sdks/tableau/restApi.js';
+import { Credentials } from './sdks/tableau/types/credentials.js';
 import { Server, userAgent } from './server.js';
 import { TableauAuthInfo } from './server/oauth/schemas.js';
+import { getTelemetryProvider, startSpan, withSpan } from './telemetry/init.js';
+import { TelemetrySpan } from './telemetry/types.js';
 import { isAxiosError } from './utils/axios.js';
 import { getExceptionMessage } from './utils/getExceptionMessage.js';
 import invariant from './utils/invariant.js';
+import { ProgressReporter } from './utils/progressReporter.js';
 
-type JwtScopes =
+export type JwtScopes =
   | 'tableau:viz_data_service:read'
   | 'tableau:content:read'
   | 'tableau:insight_definitions_metrics:read'
@@ -28,38 +37,30 @@ type JwtScopes =
   | 'tableau:metric_subscriptions:read'
   | 'tableau:insights:read'
   | 'tableau:views:download'
-  | 'tableau:insight_brief:create';
+  | 'tableau:insight_brief:create'
+  | 'tableau:users:read';
 
-const getNewRestApiInstanceAsync = async (
-  config: Config,
-  requestId: RequestId,
-  server: Server,
-  jwtScopes: Set<JwtScopes>,
-  signal: AbortSignal,
-  authInfo?: TableauAuthInfo,
-): Promise<RestApi> => {
-  signal.addEventListener(
-    'abort',
-    () => {
-      log.info(
-        server,
-        {
-          type: 'request-cancelled',
-          requestId,
-          reason: signal.reason,
-        },
-        { logger: server.name, requestId },
-      );
-    },
-    { once: true },
-  );
-
-  const tableauServer = config.server || authInfo?.server;
-  invariant(tableauServer, 'Tableau server could not be determined');
-
-  const restApi = new RestApi(tableauServer, {
+const createRestApi = ({
+  config,
+  requestId,
+  server,
+  signal,
+  tableauServer,
+  refreshSession,
+}: {
+  config: Config;
+  requestId: RequestId;
+  server: Server;
+  signal: AbortSignal;
+  tableauServer: string;
+  refreshSession?: () => Promise<Credentials | undefined>;
+}): RestApi => {
+  return new RestApi(tableauServer, {
     maxRequestTimeoutMs: config.maxRequestTimeoutMs,
+    maxRetries: config.maxRequestRetries,
     signal,
+    responseCache: getMetadataCache(),
+    refreshSession,
     requestInterceptor: [
       getRequestInterceptor(server, requestId),
       getRequestErrorInterceptor(server, requestId),
@@ -69,47 +70,49 @@ const getNewRestApiInstanceAsync = async (
       getResponseErrorInterceptor(server, requestId),
     ],
   });
+};
 
-  if (config.auth === 'pat') {
-    await restApi.signIn({
-      type: 'pat',
-      patName: config.patName,
-      patValue: config.patValue,
-      siteName: config.siteName,
-    });
-  } else if (config.auth === 'direct-trust') {
-    await restApi.signIn({
-      type: 'direct-trust',
-      siteName: config.siteName,
-      username: getJwtUsername(config, authInfo),
-      clientId: config.connectedAppClientId,
-      secretId: config.connectedAppSecretId,
-      secretValue: config.connectedAppSecretValue,
-      scopes: jwtScopes,
-      additionalPayload: getJwtAdditionalPayload(config, authInfo),
-    });
-  } else if (config.auth === 'uat') {
-    await restApi.signIn({
-      type: 'uat',
-      siteName: config.siteName,
-      username: getJwtUsername(config, authInfo),
-      tenantId: config.uatTenantId,
-      issuer: config.uatIssuer,
-      usernameClaimName: config.uatUsernameClaimName,
-      privateKey: config.uatPrivateKey,
-      keyId: config.uatKeyId,
-      scopes: jwtScopes,
-      additionalPayload: getJwtAdditionalPayload(config, authInfo),
-    });
-  } else {
-    if (!authInfo?.accessToken || !authInfo?.userId) {
-      throw new Error('Auth info is required when not signing in first.');
-    }
-
-    restApi.setCredentials(authInfo.accessToken, authInfo.userId);
+// Returns undefined when the REST API credentials are provided by the OAuth access token instead of a sign-in.
+export const getAuthConfig = (
+  config: Config,
+  jwtScopes: Set<JwtScopes>,
+  authInfo: TableauAuthInfo | undefined,
+): AuthConfig | undefined => {
+  switch (config.auth) {
+    case 'pat':
+      return {
+        type: 'pat',
+        patName: config.patName,
+        patValue: config.patValue,
+        siteName: config.siteName,
+      };
+    case 'direct-trust':
+      return {
+        type: 'direct-trust',
+        siteName: config.siteName,
+        username: getJwtUsername(config, authInfo),
+        clientId: config.connectedAppClientId,
+        secretId: config.connectedAppSecretId,
+        secretValue: config.connectedAppSecretValue,
+        scopes: jwtScopes,
+        additionalPayload: getJwtAdditionalPayload(config, authInfo),
+      };
+    case 'uat':
+      return {
+        type: 'uat',
+        siteName: config.siteName,
+        username: getJwtUsername(config, authInfo),
+        tenantId: config.uatTenantId,
+        issuer: config.uatIssuer,
+        usernameClaimName: config.uatUsernameClaimName,
+        privateKey: config.uatPrivateKey,
+        keyId: config.uatKeyId,
+        scopes: jwtScopes,
+        additionalPayload: getJwtAdditionalPayload(config, authInfo),
+      };
+    case 'oauth':
+      return;
   }
-
-  return restApi;
 };
 
 export const useRestApi = async <T>({
@@ -120,6 +123,7 @@ export const useRestApi = async <T>({
   jwtScopes,
   signal,
   authInfo,
+  reportProgress,
 }: {
   config: Config;
   requestId: RequestId;
@@ -128,31 +132,113 @@ export const useRestApi = async <T>({
   signal: AbortSignal;
   callback: (restApi: RestApi) => Promise<T>;
   authInfo?: TableauAuthInfo;
+  reportProgress?: ProgressReporter;
 }): Promise<T> => {
-  const restApi = await getNewRestApiInstanceAsync(
-    config,
-    requestId,
-    server,
-    new Set(jwtScopes),
-    signal,
-    authInfo,
+  signal.addEventListener(
+    'abort',
+    () => {
+      log.info(
+        server,
+        {
+          type: 'request-cancelled',
+          requestId,
+          reason: signal.reason,
+        },
+        { logger: server.name, requestId },
+      );
+    },
+    { once: true },
   );
-  try {
+
+  const tableauServer = config.server || authInfo?.server;
+  invariant(tableauServer, 'Tableau server could not be determined');
+
+  const authConfig = getAuthConfig(config, new Set(jwtScopes), authInfo);
+  if (!authConfig) {
+    if (!authInfo?.accessToken || !authInfo?.userId) {
+      throw new Error('Auth info is required when not signing in first.');
+    }
+
+    // Sessions for 'oauth' are owned by the access token and must not be signed out.
+    // Signing out would invalidate the session, preventing the access token from being reused for subsequent requests.
+    const restApi = createRestApi({ config, requestId, server, signal, tableauServer });
+    restApi.setCredentials(authInfo.accessToken, authInfo.userId);
     return await callback(restApi);
-  } finally {
-    if (config.auth !== 'oauth') {
-      // Tableau REST sessions for 'pat' and 'direct-trust' are intentionally ephemeral.
-      // Sessions for 'oauth' are not. Signing out would invalidate the session,
-      // preventing the access token from being reused for subsequent requests.
+  }
+
+  if (config.disableRestSessionPooling) {
+    const restApi = createRestApi({ config, requestId, server, signal, tableauServer });
+    await reportProgress?.('Signing in to Tableau');
+    await signIn(restApi, authConfig);
+    try {
+      return await callback(restApi);
+    } finally {
       await restApi.signOut();
     }
   }
+
+  const sessionPool = getRestApiSessionPool();
+  const key = RestApiSessionPool.getKey(tableauServer, authConfig);
+
+  const acquireSession = async (): Promise<Credentials> =>
+    await sessionPool.acquire({
+      key,
+      host: tableauServer,
+      signIn: async () => {
+        await reportProgress?.('Signing in to Tableau');
+        const signInRestApi = createRestApi({ config, requestId, server, signal, tableauServer });
+        await signIn(signInRestApi, authConfig);
+        invariant(signInRestApi.credentials, 'Sign in did not return credentials');
+        return signInRestApi.credentials;
+      },
+    });
+
+  let credentials = await acquireSession();
+  let refreshed = false;
+
+  const restApi = createRestApi({
+    config,
+    requestId,
+    server,
+    signal,
+    tableauServer,
+    // A 401 most likely means the session expired on the server before it expired in the pool,
+    // so the request that was rejected is sent again with a new session.
+    // A session is only replaced once per tool call so a genuine 401 does not cause a sign-in loop.
+    refreshSession: async () => {
+      if (refreshed || signal.aborted) {
+        return;
+      }
+
+      refreshed = true;
+      log.info(
+        server,
+        `Pooled Tableau session was rejected, signing in again for request ${requestId}`,
+        { logger: 'rest-api', requestId },
+      );
+
+      // Another tool call may have replaced the session already, in which case its new session is reused.
+      sessionPool.evict(key, credentials);
+      credentials = await acquireSession();
+      return credentials;
+    },
+  });
+
+  restApi.restoreSession(credentials);
+  return await callback(restApi);
 };
 
+async function signIn(restApi: RestApi, authConfig: AuthConfig): Promise<void> {
+  await withSpan('tableau.sign_in', { auth_type: authConfig.type }, () =>
+    restApi.signIn(authConfig),
+  );
+}
+
 export const getRequestInterceptor =
   (server: Server, requestId: RequestId): RequestInterceptor =>
   (request) => {
     request.headers['User-Agent'] = getUserAgent(server);
+    startRequestSpan(request, requestId);
     logRequest(server, request, requestId);
     return request;
   };
@@ -182,6 +268,7 @@ export const getRequestErrorInterceptor =
 export const getResponseInterceptor =
   (server: Server, requestId: RequestId): ResponseInterceptor =>
   (response) => {
+    endRequestSpan(response.requestHeaders, { status: response.status });
     logResponse(server, response, requestId);
     return response;
   };
@@ -189,6 +276,16 @@ export const getResponseInterceptor =
 export const getResponseErrorInterceptor =
   (server: Server, requestId: RequestId): ErrorInterceptor =>
   (error, baseUrl) => {
+    if (isAxiosError(error) && error.config) {
+      // The error code of VizQL Data Service errors, which is only parsed by itself so any other field can be malformed.
+      const { data } = tableauErrorSchema.pick({ errorCode: true }).safeParse(error.response?.data);
+      endRequestSpan(error.config.headers, {
+        status: error.response?.status,
+        vdsErrorCode: data?.errorCode,
+        error,
+      });
+    }
+
     if (!isAxiosError(error) || !error.response) {
       log.error(
         server,
@@ -210,6 +307,53 @@ export const getResponseErrorInterceptor =
     );
   };
 
+// The spans of the requests in flight, by their headers object, which axios keeps for the whole request.
+const requestSpans = new WeakMap<
+  object,
+  { span: TelemetrySpan; method: string; startTime: number }
+>();
+
+function startRequestSpan(request: RequestInterceptorConfig, requestId: RequestId): void {
+  const method = (request.method ?? 'GET').toUpperCase();
+  // A retried request goes through the interceptors again, which ends the span of the previous attempt.
+  requestSpans.get(request.headers)?.span.end('retried');
+  requestSpans.set(request.headers, {
+    span: startSpan('tableau.rest.request', {
+      'http.request.method': method,
+      'url.path': request.url ?? '',
+      request_id: requestId.toString(),
+    }),
+    method,
+    startTime: Date.now(),
+  });
+}
+
+function endRequestSpan(
+  requestHeaders: object,
+  { status, vdsErrorCode, error }: { status?: number; vdsErrorCode?: string; error?: unknown },
+): void {
+  const requestSpan = requestSpans.get(requestHeaders);
+  if (!requestSpan) {
+    return;
+  }
+
+  requestSpans.delete(requestHeaders);
+  const { span, method, startTime } = requestSpan;
+  span.setAttributes({
+    ...(status && { 'http.response.status_code': status }),
+    ...(vdsErrorCode && { vds_error_code: vdsErrorCode }),
+  });
+
+  span.end(error);
+  const durationMs = Date.now() - startTime;
+  restRequestDuration.observe({ method, status: status ?? 'none' }, durationMs / 1000);
+  getTelemetryProvider().recordHistogram?.('tableau.rest.duration', durationMs, {
+    http_method: method,
+    ...(status && { http_status: status }),
+    ...(vdsErrorCode && { vds_error_code: vdsErrorCode }),
+  });
+}
+
 function logRequest(server: Server, request: RequestInterceptorConfig, requestId: RequestId): void {
   const config = getConfig();
   const maskedRequest = config.disableLogMasking ? request : maskRequest(request);
@@ -0,0 +1,151 @@
+import { getConfig } from './config.js';
+import { AuthConfig } from './sdks/tableau/authConfig.js';
+import { RestApi } from './sdks/tableau/restApi.js';
+import { Credentials } from './sdks/tableau/types/credentials.js';
+import { ExpiringMap } from './utils/expiringMap.js';
+
+type PooledSession = {
+  host: string;
+  credentials: Credentials;
+};
+
+/**
+ * Pool of signed-in Tableau REST sessions, keyed by server, site, username and scope set.
+ *
+ * Sessions are reused across tool calls until they expire or Tableau rejects them,
+ * which saves the sign-in and sign-out round-trips for every call.
+ * Expired sessions are signed out so they don't count against the site's concurrent session limit.
+ */
+export class RestApiSessionPool {
+  private readonly _sessions: ExpiringMap<string, PooledSession>;
+  private readonly _pendingSignIns = new Map<string, Promise<Credentials>>();
+  private readonly _maxRequestTimeoutMs: number;
+
+  constructor({
+    sessionTtlMs,
+    maxRequestTimeoutMs,
+  }: {
+    sessionTtlMs: number;
+    maxRequestTimeoutMs: number;
+  }) {
+    this._sessions = new ExpiringMap({
+      defaultExpirationTimeMs: sessionTtlMs,
+      onExpire: (_key, session) => {
+        this._signOut(session).catch(() => undefined);
+      },
+    });
+    this._maxRequestTimeoutMs = maxRequestTimeoutMs;
+  }
+
+  get size(): number {
+    return this._sessions.size;
+  }
+
+  static getKey(host: string, authConfig: AuthConfig): string {
+    switch (authConfig.type) {
+      case 'pat':
+        // Signing in with a PAT invalidates any other session for the same PAT,
+        // so every request shares one session regardless of the requested scopes.
+        return JSON.stringify([host, authConfig.siteName, 'pat', authConfig.patName]);
+      case 'direct-trust':
+      case 'uat':
+        return JSON.stringify([
+          host,
+          authConfig.siteName,
+          authConfig.type,
+          authConfig.username,
+          [...authConfig.scopes].sort(),
+        ]);
+    }
+  }
+
+  /**
+   * Returns a pooled session for the key, signing in when there is none.
+   * Concurrent requests for the same key share a single sign-in.
+   *
+   * @param key - The key returned by {@link RestApiSessionPool.getKey}
+   * @param host - The Tableau server the session belongs to
+   * @param signIn - Signs in and returns the credentials of the new session
+   */
+  async acquire({
+    key,
+    host,
+    signIn,
+  }: {
+    key: string;
+    host: string;
+    signIn: () => Promise<Credentials>;
+  }): Promise<Credentials> {
+    const pooledSession = this._sessions.get(key);
+    if (pooledSession) {
+      return pooledSession.credentials;
+    }
+
+    const pendingSignIn = this._pendingSignIns.get(key);
+    if (pendingSignIn) {
+      return await pendingSignIn;
+    }
+
+    const newSignIn = signIn();
+    this._pendingSignIns.set(key, newSignIn);
+
+    try {
+      const credentials = await newSignIn;
+      this._sessions.set(key, { host, credentials });
+      return credentials;
+    } finally {
+      this._pendingSignIns.delete(key);
+    }
+  }
+
+  /**
+   * Removes the session from the pool, unless it has already been replaced by a newer one.
+   */
+  evict(key: string, credentials: Credentials): void {
+    if (this._sessions.get(key)?.credentials.token === credentials.token) {
+      this._sessions.delete(key);
+    }
+  }
+
+  /**
+   * Signs out of every pooled session and empties the pool.
+   * Sign-out failures are ignored since the sessions will eventually expire on their own.
+   */
+  async drain(): Promise<void> {
+    const sessions = [...this._sessions.values()];
+    this._sessions.clear();
+
+    await Promise.allSettled(sessions.map((session) => this._signOut(session)));
+  }
+
+  private async _signOut({ host, credentials }: PooledSession): Promise<void> {
+    const restApi = new RestApi(host, { maxRequestTimeoutMs: this._maxRequestTimeoutMs });
+    restApi.restoreSession(credentials);
+    await restApi.signOut();
+  }
+}
+
+let restApiSessionPool: RestApiSessionPool | undefined;
+
+export const getRestApiSessionPool = (): RestApiSessionPool => {
+  if (!restApiSessionPool) {
+    const { restSessionTtlMs, maxRequestTimeoutMs } = getConfig();
+    restApiSessionPool = new RestApiSessionPool({
+      sessionTtlMs: restSessionTtlMs,
+      maxRequestTimeoutMs,
+    });
+  }
+
+  return restApiSessionPool;
+};
+
+export const drainRestApiSessionPool = async (): Promise<void> => {
+  await restApiSessionPool?.drain();
+};
+
+export const exportedForTesting = {
+  RestApiSessionPool,
+  resetRestApiSessionPool: () => {
+    restApiSessionPool = undefined;
+  },
+};
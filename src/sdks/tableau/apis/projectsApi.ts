@@ -0,0 +1,30 @@
+import { makeApi, makeEndpoint, ZodiosEndpointDefinitions } from '@zodios/core';
+import { z } from 'zod';
+
+import { paginationSchema } from '../types/pagination.js';
+import { projectSchema } from '../types/project.js';
+import { paginationParameters } from './paginationParameters.js';
+
+const queryProjectsEndpoint = makeEndpoint({
+  method: 'get',
+  path: '/sites/:siteId/projects',
+  alias: 'queryProjects',
+  description: 'Returns a list of projects on the specified site, with their parent projects.',
+  parameters: [
+    ...paginationParameters,
+    {
+      name: 'siteId',
+      type: 'Path',
+      schema: z.string(),
+    },
+  ],
+  response: z.object({
+    pagination: paginationSchema,
+    projects: z.object({
+      project: z.optional(z.array(projectSchema)),
+    }),
+  }),
+});
+
+const projectsApi = makeApi([queryProjectsEndpoint]);
+export const projectsApis = [...projectsApi] as const satisfies ZodiosEndpointDefinitions;
@@ -0,0 +1,21 @@
+import { makeApi, makeEndpoint, ZodiosEndpointDefinitions } from '@zodios/core';
+import { z } from 'zod';
+
+import { groupSchema } from '../types/group.js';
+import { paginationSchema } from '../types/pagination.js';
+import { paginationParameters } from './paginationParameters.js';
+
+const getGroupsForUserEndpoint = makeEndpoint({
+  method: 'get',
+  path: '/sites/:siteId/users/:userId/groups',
+  alias: 'getGroupsForUser',
+  description: 'Gets a list of groups of which the specified user is a member.',
+  parameters: [...paginationParameters],
+  response: z.object({
+    pagination: paginationSchema,
+    groups: z.object({ group: z.array(groupSchema).optional() }),
+  }),
+});
+
+const usersApi = makeApi([getGroupsForUserEndpoint]);
+export const usersApis = [...usersApi] as const satisfies ZodiosEndpointDefinitions;
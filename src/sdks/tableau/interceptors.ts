@@ -4,7 +4,8 @@ export type RequestInterceptor = (config: RequestInterceptorConfig) => void;
 export type ResponseInterceptor = (response: ResponseInterceptorConfig) => void;
 export type ErrorInterceptor = (error: unknown, baseUrl: string) => void;
 
-export type AxiosInterceptor = ZodiosClass<any>['axios']['interceptors'];
+export type AxiosInstance = ZodiosClass<any>['axios'];
+export type AxiosInterceptor = AxiosInstance['interceptors'];
 export type AxiosRequestInterceptor = Parameters<AxiosInterceptor['request']['use']>[0];
 export type AxiosRequestInterceptorConfig = Parameters<NonNullable<AxiosRequestInterceptor>>[0];
 export type RequestInterceptorConfig = {
@@ -19,6 +20,8 @@ export type ResponseInterceptorConfig = {
   baseUrl: string;
   url: string;
   headers: Record<string, any>;
+  // The headers of the request, which are the same object the request interceptors were given.
+  requestHeaders: Record<string, any>;
   // AxiosHeaders is a complex class, overwrite it for simplicity.
 } & Omit<AxiosResponseInterceptorConfig, 'headers' | 'statusText' | 'config'>;
 
@@ -41,6 +44,7 @@ export function getResponseInterceptorConfig(
     url: response.config.url ?? 'UNKNOWN URL',
     status: response.status,
     headers: response.headers,
+    requestHeaders: response.config.headers,
     data: response.data,
   };
 }
@@ -40,6 +40,13 @@ export default abstract class AuthenticatedMethods<
     return this._creds.user.id;
   }
 
+  /**
+   * Gets the key of a response in a ResponseCache, scoped to the site and user of the credentials.
+   */
+  protected getCacheKey(...parts: Array<unknown>): string {
+    return JSON.stringify([this._creds.site.id, this._creds.user.id, ...parts]);
+  }
+
   constructor(apiClient: ZodiosInstance<T>, creds: Credentials) {
     super(apiClient);
     this._creds = creds;
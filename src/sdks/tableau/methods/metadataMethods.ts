@@ -2,6 +2,7 @@ import { Zodios } from '@zodios/core';
 
 import { AxiosRequestConfig } from '../../../utils/axios.js';
 import { GraphQLResponse, metadataApis } from '../apis/metadataApi.js';
+import { ResponseCache } from '../responseCache.js';
 import { Credentials } from '../types/credentials.js';
 import AuthenticatedMethods from './authenticatedMethods.js';
 
@@ -13,12 +14,21 @@ import AuthenticatedMethods from './authenticatedMethods.js';
  * @link https://help.tableau.com/current/api/rest_api/en-us/REST/rest_api_ref_metadata.htm
  */
 export default class MetadataMethods extends AuthenticatedMethods<typeof metadataApis> {
-  constructor(baseUrl: string, creds: Credentials, axiosConfig: AxiosRequestConfig) {
+  private _responseCache?: ResponseCache;
+
+  constructor(
+    baseUrl: string,
+    creds: Credentials,
+    axiosConfig: AxiosRequestConfig,
+    responseCache?: ResponseCache,
+  ) {
     super(new Zodios(baseUrl, metadataApis, { axiosConfig }), creds);
+    this._responseCache = responseCache;
   }
 
   /**
    * Executes a GraphQL query against the Tableau Server.
+   * Responses are served from the response cache when one is provided.
    *
    * Required scopes: `tableau:content:read`
    *
@@ -26,6 +36,14 @@ export default class MetadataMethods extends AuthenticatedMethods<typeof metadat
    * @link https://help.tableau.com/current/api/metadata_api/en-us/index.html
    */
   graphql = async (query: string): Promise<GraphQLResponse> => {
-    return await this._apiClient.graphql({ query }, { ...this.authHeader });
+    const cacheKey = this.getCacheKey('graphql', query);
+    const cachedResponse = this._responseCache?.get(cacheKey);
+    if (cachedResponse) {
+      return cachedResponse as GraphQLResponse;
+    }
+
+    const response = await this._apiClient.graphql({ query }, { ...this.authHeader });
+    this._responseCache?.set(cacheKey, response);
+    return response;
   };
 }
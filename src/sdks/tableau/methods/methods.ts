@@ -7,7 +7,7 @@ export default class Methods<T extends ZodiosEndpointDefinitions> {
     this._apiClient = apiClient;
   }
 
-  get interceptors(): ZodiosClass<T>['axios']['interceptors'] {
-    return this._apiClient.axios.interceptors;
+  get axios(): ZodiosClass<T>['axios'] {
+    return this._apiClient.axios;
   }
 }
@@ -0,0 +1,51 @@
+import { Zodios } from '@zodios/core';
+
+import { AxiosRequestConfig } from '../../../utils/axios.js';
+import { projectsApis } from '../apis/projectsApi.js';
+import { Credentials } from '../types/credentials.js';
+import { Pagination } from '../types/pagination.js';
+import { Project } from '../types/project.js';
+import AuthenticatedMethods from './authenticatedMethods.js';
+
+/**
+ * Projects methods of the Tableau Server REST API
+ *
+ * @export
+ * @class ProjectsMethods
+ * @link https://help.tableau.com/current/api/rest_api/en-us/REST/rest_api_ref_projects.htm
+ */
+export default class ProjectsMethods extends AuthenticatedMethods<typeof projectsApis> {
+  constructor(baseUrl: string, creds: Credentials, axiosConfig: AxiosRequestConfig) {
+    super(new Zodios(baseUrl, projectsApis, { axiosConfig }), creds);
+  }
+
+  /**
+   * Returns a list of projects on the specified site, with their parent projects.
+   *
+   * Required scopes: `tableau:content:read`
+   *
+   * @param {string} siteId - The Tableau site ID
+   * @param {number} pageSize - (Optional) The number of items to return in one response. The minimum is 1. The maximum is 1000. The default is 100.
+   * @param {number} pageNumber - (Optional) The offset for paging. The default is 1.
+   * @link https://help.tableau.com/current/api/rest_api/en-us/REST/rest_api_ref_projects.htm#query_projects
+   */
+  queryProjects = async ({
+    siteId,
+    pageSize,
+    pageNumber,
+  }: {
+    siteId: string;
+    pageSize?: number;
+    pageNumber?: number;
+  }): Promise<{ pagination: Pagination; projects: Project[] }> => {
+    const response = await this._apiClient.queryProjects({
+      params: { siteId },
+      queries: { pageSize, pageNumber },
+      ...this.authHeader,
+    });
+    return {
+      pagination: response.pagination,
+      projects: response.projects.project ?? [],
+    };
+  };
+}
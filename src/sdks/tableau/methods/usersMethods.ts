@@ -0,0 +1,54 @@
+import { Zodios } from '@zodios/core';
+
+import { AxiosRequestConfig } from '../../../utils/axios.js';
+import { usersApis } from '../apis/usersApi.js';
+import { Credentials } from '../types/credentials.js';
+import { Group } from '../types/group.js';
+import { Pagination } from '../types/pagination.js';
+import AuthenticatedMethods from './authenticatedMethods.js';
+
+/**
+ * Users and groups methods of the Tableau Server REST API
+ *
+ * @export
+ * @class UsersMethods
+ * @link https://help.tableau.com/current/api/rest_api/en-us/REST/rest_api_ref_users_and_groups.htm
+ */
+export default class UsersMethods extends AuthenticatedMethods<typeof usersApis> {
+  constructor(baseUrl: string, creds: Credentials, axiosConfig: AxiosRequestConfig) {
+    super(new Zodios(baseUrl, usersApis, { axiosConfig }), creds);
+  }
+
+  /**
+   * Gets a list of groups of which the specified user is a member.
+   *
+   * Required scopes: `tableau:users:read`
+   *
+   * @param {string} siteId - The Tableau site ID
+   * @param {string} userId - The ID of the user whose group memberships are listed
+   * @param {number} pageSize - (Optional) The number of items to return in one response. The minimum is 1. The maximum is 1000. The default is 100.
+   * @param {number} pageNumber - (Optional) The offset for paging. The default is 1.
+   * @link https://help.tableau.com/current/api/rest_api/en-us/REST/rest_api_ref_users_and_groups.htm#get_groups_for_a_user
+   */
+  getGroupsForUser = async ({
+    siteId,
+    userId,
+    pageSize,
+    pageNumber,
+  }: {
+    siteId: string;
+    userId: string;
+    pageSize?: number;
+    pageNumber?: number;
+  }): Promise<{ pagination: Pagination; groups: Group[] }> => {
+    const response = await this._apiClient.getGroupsForUser({
+      params: { siteId, userId },
+      queries: { pageSize, pageNumber },
+      ...this.authHeader,
+    });
+    return {
+      pagination: response.pagination,
+      groups: response.groups.group ?? [],
+    };
+  };
+}
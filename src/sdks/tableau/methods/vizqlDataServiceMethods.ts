@@ -10,6 +10,7 @@ import {
   TableauError,
   vizqlDataServiceApis,
 } from '../apis/vizqlDataServiceApi.js';
+import { ResponseCache } from '../responseCache.js';
 import { Credentials } from '../types/credentials.js';
 import AuthenticatedMethods from './authenticatedMethods.js';
 
@@ -24,8 +25,16 @@ import AuthenticatedMethods from './authenticatedMethods.js';
 export default class VizqlDataServiceMethods extends AuthenticatedMethods<
   typeof vizqlDataServiceApis
 > {
-  constructor(baseUrl: string, creds: Credentials, axiosConfig: AxiosRequestConfig) {
+  private _responseCache?: ResponseCache;
+
+  constructor(
+    baseUrl: string,
+    creds: Credentials,
+    axiosConfig: AxiosRequestConfig,
+    responseCache?: ResponseCache,
+  ) {
     super(new Zodios(baseUrl, vizqlDataServiceApis, { axiosConfig }), creds);
+    this._responseCache = responseCache;
   }
 
   /**
@@ -57,6 +66,7 @@ export default class VizqlDataServiceMethods extends AuthenticatedMethods<
 
   /**
    * Requests metadata for a specific data source. The metadata provides information about the data fields, such as field names, data types, and descriptions.
+   * Successful responses are served from the response cache when one is provided.
    *
    * Required scopes: `tableau:viz_data_service:read`
    *
@@ -66,8 +76,19 @@ export default class VizqlDataServiceMethods extends AuthenticatedMethods<
   readMetadata = async (
     readMetadataRequest: ReadMetadataRequest,
   ): Promise<Result<MetadataResponse, 'feature-disabled' | TableauError | ZodiosError>> => {
+    const cacheKey = this.getCacheKey('readMetadata', readMetadataRequest);
+    const cachedMetadata = this._responseCache?.get(cacheKey);
+    if (cachedMetadata) {
+      return Ok(cachedMetadata as MetadataResponse);
+    }
+
     try {
-      return Ok(await this._apiClient.readMetadata(readMetadataRequest, { ...this.authHeader }));
+      const metadata = await this._apiClient.readMetadata(readMetadataRequest, {
+        ...this.authHeader,
+      });
+
+      this._responseCache?.set(cacheKey, metadata);
+      return Ok(metadata);
     } catch (error) {
       if (isErrorFromAlias(this._apiClient.api, 'readMetadata', error)) {
         return Err(error.response.data);
@@ -76,4 +97,13 @@ export default class VizqlDataServiceMethods extends AuthenticatedMethods<
       throw error;
     }
   };
+
+  /**
+   * Sends a request that can be used for testing or doing a health check.
+   *
+   * Required scopes: `tableau:viz_data_service:read`
+   */
+  simpleRequest = async (): Promise<string> => {
+    return await this._apiClient.simpleRequest({ ...this.authHeader });
+  };
 }
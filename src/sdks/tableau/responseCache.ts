@@ -0,0 +1,10 @@
+/**
+ * A cache of API responses that rarely change, such as the metadata of a datasource.
+ *
+ * Keys include the site and user the response was requested by,
+ * so implementations can share one cache between users without leaking responses between them.
+ */
+export interface ResponseCache {
+  get(key: string): unknown;
+  set(key: string, value: unknown): void;
+}
@@ -1,6 +1,7 @@
+import { isAxiosError } from '../../utils/axios.js';
 import { AuthConfig } from './authConfig.js';
 import {
-  AxiosInterceptor,
+  AxiosInstance,
   ErrorInterceptor,
   getRequestInterceptorConfig,
   getResponseInterceptorConfig,
@@ -14,11 +15,15 @@ import {
 import ContentExplorationMethods from './methods/contentExplorationMethods.js';
 import DatasourcesMethods from './methods/datasourcesMethods.js';
 import MetadataMethods from './methods/metadataMethods.js';
+import ProjectsMethods from './methods/projectsMethods.js';
 import PulseMethods from './methods/pulseMethods.js';
 import { AuthenticatedServerMethods, ServerMethods } from './methods/serverMethods.js';
+import UsersMethods from './methods/usersMethods.js';
 import ViewsMethods from './methods/viewsMethods.js';
 import VizqlDataServiceMethods from './methods/vizqlDataServiceMethods.js';
 import WorkbooksMethods from './methods/workbooksMethods.js';
+import { ResponseCache } from './responseCache.js';
+import { addRetryPolicy } from './retryPolicy.js';
 import { Credentials } from './types/credentials.js';
 
 /**
@@ -39,8 +44,10 @@ export class RestApi {
   private _contentExplorationMethods?: ContentExplorationMethods;
   private _datasourcesMethods?: DatasourcesMethods;
   private _metadataMethods?: MetadataMethods;
+  private _projectsMethods?: ProjectsMethods;
   private _pulseMethods?: PulseMethods;
   private _serverMethods?: ServerMethods;
+  private _usersMethods?: UsersMethods;
   private _vizqlDataServiceMethods?: VizqlDataServiceMethods;
   private _viewsMethods?: ViewsMethods;
   private _workbooksMethods?: WorkbooksMethods;
@@ -50,6 +57,10 @@ export class RestApi {
   private _signal?: AbortSignal;
   private _requestInterceptor?: [RequestInterceptor, ErrorInterceptor?];
   private _responseInterceptor?: [ResponseInterceptor, ErrorInterceptor?];
+  private _responseCache?: ResponseCache;
+  private _maxRetries: number;
+  private _refreshSession?: () => Promise<Credentials | undefined>;
+  private _pendingRefresh?: Promise<Credentials | undefined>;
 
   constructor(
     host: string,
@@ -57,6 +68,11 @@ export class RestApi {
       signal: AbortSignal;
       requestInterceptor: [RequestInterceptor, ErrorInterceptor?];
       responseInterceptor: [ResponseInterceptor, ErrorInterceptor?];
+      responseCache: ResponseCache;
+      maxRetries: number;
+      // Replaces a session that Tableau rejected with a 401, or returns undefined when it can't be replaced.
+      // The request that was rejected is then sent again with the new session.
+      refreshSession: () => Promise<Credentials | undefined>;
     }>,
   ) {
     this._host = host;
@@ -66,6 +82,9 @@ export class RestApi {
     this._signal = options.signal;
     this._requestInterceptor = options.requestInterceptor;
     this._responseInterceptor = options.responseInterceptor;
+    this._responseCache = options.responseCache;
+    this._maxRetries = options.maxRetries ?? 0;
+    this._refreshSession = options.refreshSession;
   }
 
   private get creds(): Credentials {
@@ -80,13 +99,21 @@ export class RestApi {
     return this.creds.site.id;
   }
 
+  get userId(): string {
+    return this.creds.user.id;
+  }
+
+  get credentials(): Credentials | undefined {
+    return this._creds;
+  }
+
   private get authenticationMethods(): AuthenticationMethods {
     if (!this._authenticationMethods) {
       this._authenticationMethods = new AuthenticationMethods(this._baseUrl, {
         timeout: this._maxRequestTimeoutMs,
         signal: this._signal,
       });
-      this._addInterceptors(this._baseUrl, this._authenticationMethods.interceptors);
+      this._addInterceptors(this._baseUrl, this._authenticationMethods.axios);
     }
     return this._authenticationMethods;
   }
@@ -101,7 +128,7 @@ export class RestApi {
           signal: this._signal,
         },
       );
-      this._addInterceptors(this._baseUrl, this._authenticatedAuthenticationMethods.interceptors);
+      this._addInterceptors(this._baseUrl, this._authenticatedAuthenticationMethods.axios);
     }
     return this._authenticatedAuthenticationMethods;
   }
@@ -112,7 +139,7 @@ export class RestApi {
         timeout: this._maxRequestTimeoutMs,
         signal: this._signal,
       });
-      this._addInterceptors(this._baseUrl, this._authenticatedServerMethods.interceptors);
+      this._addInterceptors(this._baseUrl, this._authenticatedServerMethods.axios);
     }
     return this._authenticatedServerMethods;
   }
@@ -127,10 +154,7 @@ export class RestApi {
           signal: this._signal,
         },
       );
-      this._addInterceptors(
-        this._baseUrlWithoutVersion,
-        this._contentExplorationMethods.interceptors,
-      );
+      this._addInterceptors(this._baseUrlWithoutVersion, this._contentExplorationMethods.axios);
     }
 
     return this._contentExplorationMethods;
@@ -142,7 +166,7 @@ export class RestApi {
         timeout: this._maxRequestTimeoutMs,
         signal: this._signal,
       });
-      this._addInterceptors(this._baseUrl, this._datasourcesMethods.interceptors);
+      this._addInterceptors(this._baseUrl, this._datasourcesMethods.axios);
     }
 
     return this._datasourcesMethods;
@@ -151,14 +175,31 @@ export class RestApi {
   get metadataMethods(): MetadataMethods {
     if (!this._metadataMethods) {
       const baseUrl = `${this._host}/api/metadata`;
-      this._metadataMethods = new MetadataMethods(baseUrl, this.creds, {
+      this._metadataMethods = new MetadataMethods(
+        baseUrl,
+        this.creds,
+        {
+          timeout: this._maxRequestTimeoutMs,
+          signal: this._signal,
+        },
+        this._responseCache,
+      );
+      this._addInterceptors(baseUrl, this._metadataMethods.axios);
+    }
+
+    return this._metadataMethods;
+  }
+
+  get projectsMethods(): ProjectsMethods {
+    if (!this._projectsMethods) {
+      this._projectsMethods = new ProjectsMethods(this._baseUrl, this.creds, {
         timeout: this._maxRequestTimeoutMs,
         signal: this._signal,
       });
-      this._addInterceptors(baseUrl, this._metadataMethods.interceptors);
+      this._addInterceptors(this._baseUrl, this._projectsMethods.axios);
     }
 
-    return this._metadataMethods;
+    return this._projectsMethods;
   }
 
   get pulseMethods(): PulseMethods {
@@ -167,7 +208,7 @@ export class RestApi {
         timeout: this._maxRequestTimeoutMs,
         signal: this._signal,
       });
-      this._addInterceptors(this._baseUrlWithoutVersion, this._pulseMethods.interceptors);
+      this._addInterceptors(this._baseUrlWithoutVersion, this._pulseMethods.axios);
     }
 
     return this._pulseMethods;
@@ -179,7 +220,7 @@ export class RestApi {
         timeout: this._maxRequestTimeoutMs,
         signal: this._signal,
       });
-      this._addInterceptors(this._baseUrl, this._serverMethods.interceptors);
+      this._addInterceptors(this._baseUrl, this._serverMethods.axios);
     }
 
     return this._serverMethods;
@@ -188,14 +229,31 @@ export class RestApi {
   get vizqlDataServiceMethods(): VizqlDataServiceMethods {
     if (!this._vizqlDataServiceMethods) {
       const baseUrl = `${this._host}/api/v1/vizql-data-service`;
-      this._vizqlDataServiceMethods = new VizqlDataServiceMethods(baseUrl, this.creds, {
+      this._vizqlDataServiceMethods = new VizqlDataServiceMethods(
+        baseUrl,
+        this.creds,
+        {
+          timeout: this._maxRequestTimeoutMs,
+          signal: this._signal,
+        },
+        this._responseCache,
+      );
+      this._addInterceptors(baseUrl, this._vizqlDataServiceMethods.axios);
+    }
+
+    return this._vizqlDataServiceMethods;
+  }
+
+  get usersMethods(): UsersMethods {
+    if (!this._usersMethods) {
+      this._usersMethods = new UsersMethods(this._baseUrl, this.creds, {
         timeout: this._maxRequestTimeoutMs,
         signal: this._signal,
       });
-      this._addInterceptors(baseUrl, this._vizqlDataServiceMethods.interceptors);
+      this._addInterceptors(this._baseUrl, this._usersMethods.axios);
     }
 
-    return this._vizqlDataServiceMethods;
+    return this._usersMethods;
   }
 
   get viewsMethods(): ViewsMethods {
@@ -204,7 +262,7 @@ export class RestApi {
         timeout: this._maxRequestTimeoutMs,
         signal: this._signal,
       });
-      this._addInterceptors(this._baseUrl, this._viewsMethods.interceptors);
+      this._addInterceptors(this._baseUrl, this._viewsMethods.axios);
     }
 
     return this._viewsMethods;
@@ -216,7 +274,7 @@ export class RestApi {
         timeout: this._maxRequestTimeoutMs,
         signal: this._signal,
       });
-      this._addInterceptors(this._baseUrl, this._workbooksMethods.interceptors);
+      this._addInterceptors(this._baseUrl, this._workbooksMethods.axios);
     }
 
     return this._workbooksMethods;
@@ -231,6 +289,14 @@ export class RestApi {
     this._creds = undefined;
   };
 
+  /**
+   * Reuses the credentials of a session that was signed in by another RestApi instance.
+   */
+  restoreSession = (creds: Credentials): void => {
+    // A copy, since the token is replaced when the session is refreshed.
+    this._creds = { ...creds };
+  };
+
   setCredentials = (accessToken: string, userId: string): void => {
     const parts = accessToken.split('|');
     if (parts.length < 3) {
@@ -249,7 +315,8 @@ export class RestApi {
     };
   };
 
-  private _addInterceptors = (baseUrl: string, interceptors: AxiosInterceptor): void => {
+  private _addInterceptors = (baseUrl: string, axiosInstance: AxiosInstance): void => {
+    const { interceptors } = axiosInstance;
     interceptors.request.use(
       (config) => {
         this._requestInterceptor?.[0]({
@@ -277,5 +344,47 @@ export class RestApi {
         return Promise.reject(error);
       },
     );
+
+    if (this._refreshSession) {
+      interceptors.response.use(undefined, async (error) => {
+        if (!isAxiosError(error) || error.response?.status !== 401 || !error.config) {
+          throw error;
+        }
+
+        const token = await this._getRefreshedToken(error.config.headers['X-Tableau-Auth']);
+        if (!token) {
+          throw error;
+        }
+
+        error.config.headers['X-Tableau-Auth'] = token;
+        return await axiosInstance.request(error.config);
+      });
+    }
+
+    addRetryPolicy(axiosInstance, this._maxRetries);
+  };
+
+  // Gets the token of the session that replaces the rejected one.
+  // Concurrent requests that were rejected with the same token share a single refresh.
+  private _getRefreshedToken = async (rejectedToken: unknown): Promise<string | undefined> => {
+    if (!this._creds || !this._refreshSession || !rejectedToken) {
+      return;
+    }
+
+    if (this._creds.token !== rejectedToken) {
+      return this._creds.token;
+    }
+
+    this._pendingRefresh ??= this._refreshSession().finally(() => {
+      this._pendingRefresh = undefined;
+    });
+
+    const creds = await this._pendingRefresh;
+    if (creds && this._creds) {
+      // The methods share the credentials object, so they send the new token from now on.
+      this._creds.token = creds.token;
+    }
+
+    return creds?.token;
   };
 }
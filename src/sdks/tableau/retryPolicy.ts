@@ -0,0 +1,81 @@
+import axiosRetry, { IAxiosRetryConfig } from 'axios-retry';
+
+import { tableauErrorSchema } from './apis/vizqlDataServiceApi.js';
+
+type AxiosInstance = Parameters<typeof axiosRetry>[0];
+type AxiosError = Parameters<NonNullable<IAxiosRetryConfig['retryCondition']>>[0];
+
+// Too Many Requests, Bad Gateway, Service Unavailable and Gateway Timeout
+const retryableStatuses = new Set([429, 502, 503, 504]);
+
+// The VizQL Data Service errors for when it is unavailable or timed out.
+const retryableVdsErrorCodes = new Set(['503800', '504000']);
+
+// The POST endpoints that only read, which are as safe to retry as GET requests.
+const readEndpointPatterns = [/\/query-datasource$/, /\/read-metadata$/, /\/graphql$/, /batchGet$/];
+
+// The base of the exponential backoff, so retries wait about 0.5, 1 and 2 seconds.
+const retryDelayFactorMs = 250;
+
+/**
+ * Retries the requests of an API client that fail for reasons that are likely transient:
+ * network errors, 429, 502, 503 and 504 responses, and the VizQL Data Service errors 503800 and 504000.
+ *
+ * Only idempotent requests and requests to read endpoints are retried, with exponential backoff and jitter.
+ * A Retry-After header is honored when it asks for a longer wait.
+ * Retries stop when the request is aborted, and all the attempts and their waits stay within the request's timeout.
+ *
+ * The policy must be added after the client's other interceptors, so those see every attempt.
+ *
+ * @param axiosInstance - The axios instance of the API client
+ * @param retries - The maximum number of retries of a request
+ */
+export function addRetryPolicy(axiosInstance: AxiosInstance, retries: number): void {
+  if (retries <= 0) {
+    return;
+  }
+
+  axiosRetry(axiosInstance, {
+    retries,
+    retryCondition: isRetryableError,
+    retryDelay: (retryCount, error) =>
+      axiosRetry.exponentialDelay(retryCount, error, retryDelayFactorMs),
+  });
+}
+
+function isRetryableError(error: AxiosError): boolean {
+  if (!isRetryableRequest(error.config?.method, error.config?.url)) {
+    return false;
+  }
+
+  if (axiosRetry.isNetworkError(error)) {
+    return true;
+  }
+
+  const { response } = error;
+  if (!response) {
+    return false;
+  }
+
+  if (retryableStatuses.has(response.status)) {
+    return true;
+  }
+
+  const { data } = tableauErrorSchema.pick({ errorCode: true }).safeParse(response.data);
+  return !!data?.errorCode && retryableVdsErrorCodes.has(data.errorCode);
+}
+
+function isRetryableRequest(method: string | undefined, url: string | undefined): boolean {
+  switch (method?.toLowerCase()) {
+    case 'get':
+    case 'head':
+    case 'options':
+    case 'put':
+    case 'delete':
+      return true;
+    case 'post':
+      return !!url && readEndpointPatterns.some((pattern) => pattern.test(url));
+    default:
+      return false;
+  }
+}
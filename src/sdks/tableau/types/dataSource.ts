@@ -7,6 +7,9 @@ export const dataSourceSchema = z.object({
   name: z.string(),
   description: z.string().optional(),
   project: projectSchema,
+  owner: z.object({ id: z.string() }).optional(),
+  isCertified: z.boolean().optional(),
+  tags: z.object({ tag: z.array(z.object({ label: z.string() })).optional() }).optional(),
 });
 
 export type DataSource = z.infer<typeof dataSourceSchema>;
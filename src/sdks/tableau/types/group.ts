@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+export const groupSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+});
+
+export type Group = z.infer<typeof groupSchema>;
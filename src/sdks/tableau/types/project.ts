@@ -3,4 +3,8 @@ import { z } from 'zod';
 export const projectSchema = z.object({
   name: z.string(),
   id: z.string(),
+  // Only returned when listing projects, and not set for top-level projects.
+  parentProjectId: z.string().optional(),
 });
+
+export type Project = z.infer<typeof projectSchema>;
@@ -10,6 +10,7 @@ export const workbookSchema = z.object({
   webpageUrl: z.string().optional(),
   contentUrl: z.string(),
   project: projectSchema.optional(),
+  owner: z.object({ id: z.string() }).optional(),
   showTabs: z.coerce.boolean(),
   defaultViewId: z.string().optional(),
   tags: z.object({ tag: z.array(z.object({ label: z.string() })).optional() }),
@@ -1,13 +1,36 @@
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { InitializeRequest, SetLevelRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  McpServer,
+  RegisteredPrompt,
+  RegisteredResourceTemplate,
+  RegisteredTool,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CompleteRequest,
+  CompleteRequestSchema,
+  InitializeRequest,
+  ServerNotification,
+  ServerRequest,
+  SetLevelRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
 
 import pkg from '../package.json';
+import { getCompletions } from './completions/completions.js';
 import { getConfig } from './config.js';
-import { setLogLevel } from './logging/log.js';
+import { setLogLevel, writeToStderr } from './logging/log.js';
+import { Prompt } from './prompts/prompt.js';
+import { promptFactories } from './prompts/prompts.js';
+import { Resource } from './resources/resource.js';
+import { resourceFactories } from './resources/resources.js';
 import { TableauAuthInfo } from './server/oauth/schemas.js';
+import { getSiteParamSchema, runWithSite } from './sites.js';
 import { Tool } from './tools/tool.js';
-import { toolNames } from './tools/toolName.js';
+import { ToolName, toolNames } from './tools/toolName.js';
 import { toolFactories } from './tools/tools.js';
+import { getToolPolicyDecision, getToolPrincipal } from './toolPolicies/toolPolicies.js';
+import { ToolPrincipal } from './toolPolicies/types.js';
+import { getExceptionMessage } from './utils/getExceptionMessage.js';
 import { Provider } from './utils/provider.js';
 
 export const serverName = 'mcp';
@@ -16,6 +39,26 @@ export const userAgent = `${serverName}/${serverVersion}`;
 
 export type ClientInfo = InitializeRequest['params']['clientInfo'];
 
+// The servers connected to a client, whose tools are updated when the tool filters or policies are reloaded.
+const connectedServers = new Set<Server>();
+
+/**
+ * Updates the tools of every connected server after INCLUDE_TOOLS, EXCLUDE_TOOLS or TOOL_POLICIES has been reloaded.
+ */
+export async function updateConnectedServerTools(): Promise<void> {
+  const results = await Promise.allSettled(
+    [...connectedServers].map((server) => server.updateTools()),
+  );
+
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      writeToStderr(
+        `Could not update the tools of a server: ${getExceptionMessage(result.reason)}`,
+      );
+    }
+  }
+}
+
 export class Server extends McpServer {
   readonly name: string;
   readonly version: string;
@@ -30,6 +73,19 @@ export class Server extends McpServer {
   // With stdio transport, we can use the getClientVersion() method to get the client info.
   private readonly _clientInfo: ClientInfo | undefined;
 
+  private _authInfo: TableauAuthInfo | undefined;
+  private _clientId: string | undefined;
+  private _principal: ToolPrincipal | undefined;
+  private readonly _toolRegistrations = new Map<ToolName, RegisteredTool>();
+  private readonly _resourceRegistrations: Array<{
+    resource: Resource;
+    registration: RegisteredResourceTemplate;
+  }> = [];
+  private readonly _promptRegistrations: Array<{
+    prompt: Prompt<any>;
+    registration: RegisteredPrompt;
+  }> = [];
+
   get clientInfo(): ClientInfo | undefined {
     return this._clientInfo ?? this.server.getClientVersion();
   }
@@ -42,7 +98,10 @@ export class Server extends McpServer {
       },
       {
         capabilities: {
+          completions: {},
           logging: {},
+          prompts: {},
+          resources: {},
           tools: {},
         },
       },
@@ -53,24 +112,136 @@ export class Server extends McpServer {
     this._clientInfo = clientInfo;
   }
 
-  registerTools = async (authInfo?: TableauAuthInfo): Promise<void> => {
-    for (const {
-      name,
-      description,
-      paramsSchema,
-      annotations,
-      callback,
-    } of this._getToolsToRegister(authInfo)) {
-      this.registerTool(
-        name,
+  registerTools = async (authInfo?: TableauAuthInfo, clientId?: string): Promise<void> => {
+    this._authInfo = authInfo;
+    this._clientId = clientId;
+    this._principal = await getToolPrincipal({ server: this, authInfo, clientId });
+    for (const tool of this._getToolsToRegister(authInfo)) {
+      await this._registerTool(tool);
+    }
+  };
+
+  // Every resource and prompt is registered, and those whose tools are not enabled are disabled,
+  // since the SDK can only add the request handlers for resources and prompts before the server is connected.
+  registerResources = (): void => {
+    for (const resource of resourceFactories.map((resourceFactory) => resourceFactory(this))) {
+      const registration = this.registerResource(
+        resource.name,
+        resource.template,
+        {
+          title: resource.title,
+          description: resource.description,
+          mimeType: resource.mimeType,
+        },
+        resource.logAndRead,
+      );
+
+      // Resources expose the same content as their tools, so they follow the tool filtering.
+      if (!this._isToolVisible(resource.toolName)) {
+        registration.disable();
+      }
+
+      this._resourceRegistrations.push({ resource, registration });
+    }
+  };
+
+  registerPrompts = (): void => {
+    for (const prompt of promptFactories.map((promptFactory) => promptFactory(this))) {
+      const registration = this.registerPrompt(
+        prompt.name,
         {
-          description: await Provider.from(description),
-          inputSchema: await Provider.from(paramsSchema),
-          annotations: await Provider.from(annotations),
+          title: prompt.title,
+          description: prompt.description,
+          argsSchema: prompt.argsSchema,
         },
-        await Provider.from(callback),
+        prompt.logAndGet,
+      );
+
+      if (!this._isPromptEnabled(prompt)) {
+        registration.disable();
+      }
+
+      this._promptRegistrations.push({ prompt, registration });
+    }
+  };
+
+  /**
+   * Enables the tools, resources and prompts allowed by the current tool filters and policies and disables the others.
+   * The SDK notifies the client of each change with a list_changed notification.
+   */
+  updateTools = async (): Promise<void> => {
+    this._principal = await getToolPrincipal({
+      server: this,
+      authInfo: this._authInfo,
+      clientId: this._clientId,
+    });
+
+    const toolsToRegister: Array<Tool<any>> = [];
+    for (const tool of toolFactories.map((toolFactory) => toolFactory(this, this._authInfo))) {
+      const registration = this._toolRegistrations.get(tool.name);
+      if (!registration) {
+        // Tools are only registered once they are enabled, since some need a request to Tableau to describe themselves.
+        if (this._isToolEnabled(tool.name)) {
+          toolsToRegister.push(tool);
+        }
+      } else {
+        const enabled = this._isToolVisible(tool.name);
+        if (registration.enabled !== enabled) {
+          registration.update({ enabled });
+        }
+      }
+    }
+
+    for (const { resource, registration } of this._resourceRegistrations) {
+      const enabled = this._isToolVisible(resource.toolName);
+      if (registration.enabled !== enabled) {
+        registration.update({ enabled });
+      }
+    }
+
+    for (const { prompt, registration } of this._promptRegistrations) {
+      const enabled = this._isPromptEnabled(prompt);
+      if (registration.enabled !== enabled) {
+        registration.update({ enabled });
+      }
+    }
+
+    // Newly enabled tools are registered last, so that a tool that can't be registered doesn't keep others enabled.
+    for (const tool of toolsToRegister) {
+      await this._registerTool(tool);
+    }
+  };
+
+  async connect(transport: Transport): Promise<void> {
+    await super.connect(transport);
+
+    connectedServers.add(this);
+    const { onclose } = this.server;
+    this.server.onclose = () => {
+      connectedServers.delete(this);
+      onclose?.();
+    };
+  }
+
+  /**
+   * Whether an argument of a prompt or resource template can be completed.
+   * The prompt or resource template must be enabled, and the user must be able to call the tool
+   * whose data the completer reads.
+   */
+  isCompletionAllowed = (ref: CompleteRequest['params']['ref'], toolName: ToolName): boolean => {
+    if (!this._isToolVisible(toolName)) {
+      return false;
+    }
+
+    if (ref.type === 'ref/prompt') {
+      return this._promptRegistrations.some(
+        ({ prompt, registration }) => prompt.name === ref.name && registration.enabled,
       );
     }
+
+    return this._resourceRegistrations.some(
+      ({ resource, registration }) => resource.uriTemplate === ref.uri && registration.enabled,
+    );
   };
 
   registerRequestHandlers = (): void => {
@@ -78,23 +249,17 @@ export class Server extends McpServer {
       setLogLevel(this, request.params.level);
       return {};
     });
+
+    this.server.setRequestHandler(CompleteRequestSchema, async (request, extra) => {
+      return await getCompletions(this, request, extra);
+    });
   };
 
   private _getToolsToRegister = (authInfo?: TableauAuthInfo): Array<Tool<any>> => {
     const { includeTools, excludeTools } = getConfig();
 
     const tools = toolFactories.map((toolFactory) => toolFactory(this, authInfo));
-    const toolsToRegister = tools.filter((tool) => {
-      if (includeTools.length > 0) {
-        return includeTools.includes(tool.name);
-      }
-
-      if (excludeTools.length > 0) {
-        return !excludeTools.includes(tool.name);
-      }
-
-      return true;
-    });
+    const toolsToRegister = tools.filter((tool) => this._isToolEnabled(tool.name));
 
     if (toolsToRegister.length === 0) {
       throw new Error(`
@@ -107,6 +272,76 @@ export class Server extends McpServer {
 
     return toolsToRegister;
   };
+
+  private _registerTool = async ({
+    name,
+    description,
+    paramsSchema,
+    outputSchema,
+    annotations,
+    callback,
+  }: Tool<any>): Promise<void> => {
+    const { sites } = getConfig();
+    const inputSchema = await Provider.from(paramsSchema);
+    const toolCallback = await Provider.from(callback);
+
+    const registration = this.registerTool(
+      name,
+      {
+        description: await Provider.from(description),
+        // With a site registry, every tool can be run against any of its sites.
+        inputSchema: sites
+          ? { ...inputSchema, site: getSiteParamSchema([...sites.keys()]) }
+          : inputSchema,
+        outputSchema,
+        annotations: await Provider.from(annotations),
+      },
+      sites
+        ? (
+            args: { site?: string },
+            extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+          ) => runWithSite(args.site, () => toolCallback(args, extra))
+        : toolCallback,
+    );
+
+    // Tools the user is not allowed to call by the tool policies are hidden from them.
+    if (!this._isToolAllowed(name)) {
+      registration.disable();
+    }
+
+    this._toolRegistrations.set(name, registration);
+  };
+
+  private _isPromptEnabled = (prompt: Prompt<any>): boolean => {
+    return prompt.toolNames.every((toolName) => this._isToolVisible(toolName));
+  };
+
+  private _isToolVisible = (toolName: ToolName): boolean => {
+    return this._isToolEnabled(toolName) && this._isToolAllowed(toolName);
+  };
+
+  private _isToolAllowed = (toolName: ToolName): boolean => {
+    const { toolPolicies } = getConfig();
+    if (!toolPolicies || !this._principal) {
+      return true;
+    }
+
+    return getToolPolicyDecision(toolPolicies, this._principal, toolName).allowed;
+  };
+
+  private _isToolEnabled = (toolName: ToolName): boolean => {
+    const { includeTools, excludeTools } = getConfig();
+
+    if (includeTools.length > 0) {
+      return includeTools.includes(toolName);
+    }
+
+    if (excludeTools.length > 0) {
+      return !excludeTools.includes(toolName);
+    }
+
+    return true;
+  };
 }
 
 export const exportedForTesting = {
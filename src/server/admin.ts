@@ -0,0 +1,86 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import express, { NextFunction, Request, RequestHandler, Response } from 'express';
+
+import {
+  Config,
+  getSettingOverrides,
+  ReloadableSettingName,
+  updateSettingOverrides,
+} from '../config.js';
+import { applySettingChanges } from '../configReload.js';
+import { flushMetadataCache } from '../metadataCache.js';
+import { flushQueryResultCache } from '../tools/queryDatasource/queryResultCache.js';
+import { getExceptionMessage } from '../utils/getExceptionMessage.js';
+
+/**
+ * Sets up the administration endpoints under /admin.
+ * They are only available when ADMIN_API_KEY is set, and require it as a bearer token.
+ */
+export function setupAdminRoutes(app: express.Application, config: Config): void {
+  if (!config.adminApiKey) {
+    return;
+  }
+
+  const router = express.Router();
+  router.use(requireBearerToken(config.adminApiKey));
+
+  // Removes cached query-datasource results, for a single datasource when its LUID is given in the body.
+  router.post('/query-result-cache/flush', (req: Request, res: Response) => {
+    const datasourceLuid =
+      typeof req.body?.datasourceLuid === 'string' ? req.body.datasourceLuid : undefined;
+
+    res.status(200).json({ flushedCount: flushQueryResultCache(datasourceLuid) });
+  });
+
+  // Removes every cached datasource metadata response.
+  router.post('/metadata-cache/flush', (_req: Request, res: Response) => {
+    res.status(200).json({ flushedCount: flushMetadataCache() });
+  });
+
+  // Gets the reloadable settings set with the admin API.
+  router.get('/settings', (_req: Request, res: Response) => {
+    res.status(200).json({ settings: getSettingOverrides() });
+  });
+
+  // Sets reloadable settings, e.g. { "EXCLUDE_TOOLS": ["query-datasource"] }, or removes them when null.
+  // They take precedence over the environment and the config file, but only in this instance of the server.
+  router.patch('/settings', async (req: Request, res: Response) => {
+    if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+      res
+        .status(400)
+        .json({ error: 'invalid_settings', message: 'Expected an object of settings' });
+      return;
+    }
+
+    let changed: Array<ReloadableSettingName>;
+    try {
+      changed = updateSettingOverrides(req.body);
+    } catch (error) {
+      res.status(400).json({ error: 'invalid_settings', message: getExceptionMessage(error) });
+      return;
+    }
+
+    await applySettingChanges(changed);
+    res.status(200).json({ settings: getSettingOverrides() });
+  });
+
+  app.use('/admin', router);
+}
+
+export function requireBearerToken(expectedToken: string): RequestHandler {
+  // Comparing digests keeps the comparison constant-time regardless of the length of the token provided.
+  const expectedDigest = createHash('sha256').update(expectedToken).digest();
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const authorization = req.headers.authorization ?? '';
+    const token = authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : '';
+    const digest = createHash('sha256').update(token).digest();
+
+    if (!token || !timingSafeEqual(digest, expectedDigest)) {
+      res.status(401).json({ error: 'unauthorized' });
+      return;
+    }
+
+    next();
+  };
+}
@@ -1,3 +1,4 @@
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { isInitializeRequest, LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
 import cors from 'cors';
@@ -9,11 +10,20 @@ import https from 'https';
 import { Config } from '../config.js';
 import { setLogLevel } from '../logging/log.js';
 import { Server } from '../server.js';
-import { createSession, getSession, Session } from '../sessions.js';
+import {
+  createSession,
+  getSession,
+  getSessionUserKey,
+  restoreSession,
+  Session,
+} from '../sessions.js';
+import { getUserIdentity } from '../utils/getUserIdentity.js';
+import { setupAdminRoutes } from './admin.js';
+import { setupHealthRoutes } from './health.js';
+import { setupMetricsRoute } from './metrics.js';
 import { handlePingRequest, validateProtocolVersion } from './middleware.js';
 import { getTableauAuthInfo } from './oauth/getTableauAuthInfo.js';
 import { OAuthProvider } from './oauth/provider.js';
-import { TableauAuthInfo } from './oauth/schemas.js';
 import { AuthenticatedRequest } from './oauth/types.js';
 import { wrapTransportForDatabricks } from './transportWrapper.js';
 
@@ -54,6 +64,10 @@ export async function startExpressServer({
     app.set('trust proxy', config.trustProxyConfig);
   }
 
+  setupHealthRoutes(app, config);
+  setupAdminRoutes(app, config);
+  setupMetricsRoute(app, config);
+
   const middleware: Array<RequestHandler> = [handlePingRequest];
   if (config.oauth.enabled) {
     const oauthProvider = new OAuthProvider();
@@ -123,19 +137,24 @@ export async function startExpressServer({
           server.close();
         });
 
-        await connect(server, transport, logLevel, getTableauAuthInfo(req.auth));
+        await connect(server, transport, logLevel, req.auth);
       } else {
         const sessionId = req.headers[SESSION_ID_HEADER] as string | undefined;
 
-        let session: Session | undefined;
-        if (sessionId && (session = getSession(sessionId))) {
-          transport = session.transport;
+        let sessionTransport: StreamableHTTPServerTransport | undefined;
+        if (sessionId && (sessionTransport = await getSessionTransport(req, sessionId))) {
+          transport = sessionTransport;
         } else if (!sessionId && isInitializeRequest(req.body)) {
-          const clientInfo = req.body.params.clientInfo;
-          transport = createSession({ clientInfo });
+          const { clientInfo, protocolVersion, capabilities } = req.body.params;
+          transport = await createSession({
+            clientInfo,
+            protocolVersion,
+            capabilities,
+            userKey: getRequestUserKey(req),
+          });
 
           const server = new Server({ clientInfo });
-          await connect(server, transport, logLevel, getTableauAuthInfo(req.auth));
+          await connect(server, transport, logLevel, req.auth);
         } else {
           res.status(400).json({
             jsonrpc: '2.0',
@@ -201,15 +220,58 @@ export async function startExpressServer({
       }
     }
   }
+
+  async function handleSessionRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const sessionId = req.headers[SESSION_ID_HEADER] as string | undefined;
+
+    let transport: StreamableHTTPServerTransport | undefined;
+    if (!sessionId || !(transport = await getSessionTransport(req, sessionId))) {
+      res.status(400).send('Invalid or missing session ID');
+      return;
+    }
+
+    await transport.handleRequest(req, res);
+  }
+
+  // Gets the transport of a session of the user making the request,
+  // restoring it from the session store when the session was created by another instance or before a restart.
+  async function getSessionTransport(
+    req: AuthenticatedRequest,
+    sessionId: string,
+  ): Promise<StreamableHTTPServerTransport | undefined> {
+    const userKey = getRequestUserKey(req);
+
+    let session: Session | undefined;
+    if ((session = await getSession(sessionId))) {
+      return session.userKey === userKey ? session.transport : undefined;
+    }
+
+    // Restored sessions are checked before a server is connected to them, so other users can't resume them.
+    session = await restoreSession({
+      sessionId,
+      userKey,
+      connect: async (transport, clientInfo) => {
+        await connect(new Server({ clientInfo }), transport, logLevel, req.auth);
+      },
+    });
+
+    return session?.transport;
+  }
+
+  function getRequestUserKey(req: AuthenticatedRequest): string {
+    return getSessionUserKey(getUserIdentity(config, getTableauAuthInfo(req.auth)));
+  }
 }
 
 async function connect(
   server: Server,
   transport: StreamableHTTPServerTransport,
   logLevel: LoggingLevel,
-  authInfo: TableauAuthInfo | undefined,
+  authInfo: AuthInfo | undefined,
 ): Promise<void> {
-  await server.registerTools(authInfo);
+  await server.registerTools(getTableauAuthInfo(authInfo), authInfo?.clientId);
+  server.registerResources();
+  server.registerPrompts();
   server.registerRequestHandlers();
 
   await server.connect(transport);
@@ -228,15 +290,3 @@ async function methodNotAllowed(_req: Request, res: Response): Promise<void> {
     }),
   );
 }
-
-async function handleSessionRequest(req: express.Request, res: express.Response): Promise<void> {
-  const sessionId = req.headers[SESSION_ID_HEADER] as string | undefined;
-
-  let session: Session | undefined;
-  if (!sessionId || !(session = getSession(sessionId))) {
-    res.status(400).send('Invalid or missing session ID');
-    return;
-  }
-
-  await session.transport.handleRequest(req, res);
-}
@@ -0,0 +1,122 @@
+import express, { Request, Response } from 'express';
+
+import { Config } from '../config.js';
+import { getAuthConfig } from '../restApiInstance.js';
+import { RestApi } from '../sdks/tableau/restApi.js';
+import { getExceptionMessage } from '../utils/getExceptionMessage.js';
+
+type DependencyCheck =
+  | { status: 'ok'; durationMs: number; productVersion?: string }
+  | { status: 'error'; durationMs: number; error: string }
+  | { status: 'skipped'; reason: string };
+
+type Readiness = {
+  status: 'ready' | 'not-ready';
+  // ISO 8601
+  checkedAt: string;
+  checks: {
+    tableau: DependencyCheck;
+    signIn: DependencyCheck;
+    vizqlDataService: DependencyCheck;
+  };
+};
+
+let readiness: { result: Promise<Readiness>; expiresAt: number } | undefined;
+
+/**
+ * Sets up the health check endpoints for load balancers and platform restarts.
+ *
+ * GET /healthz is the liveness check, which succeeds as long as the server can handle requests.
+ * GET /readyz is the readiness check, which succeeds when Tableau and VizQL Data Service can be reached
+ * and, unless the credentials come from OAuth, the configured credentials can sign in.
+ * Its result is cached for READINESS_CHECK_CACHE_TTL_MS so frequent probes don't sign in every time.
+ */
+export function setupHealthRoutes(app: express.Application, config: Config): void {
+  app.get('/healthz', (_req: Request, res: Response) => {
+    res.status(200).json({ status: 'ok' });
+  });
+
+  app.get('/readyz', async (_req: Request, res: Response) => {
+    const result = await getReadiness(config);
+    res.status(result.status === 'ready' ? 200 : 503).json(result);
+  });
+}
+
+// Concurrent probes share the check that is in progress.
+function getReadiness(config: Config): Promise<Readiness> {
+  if (!readiness || readiness.expiresAt <= Date.now()) {
+    readiness = {
+      result: checkReadiness(config),
+      expiresAt: Date.now() + config.readinessCheckCacheTtlMs,
+    };
+  }
+
+  return readiness.result;
+}
+
+async function checkReadiness(config: Config): Promise<Readiness> {
+  const checks = await checkDependencies(config);
+  return {
+    status: Object.values(checks).some(({ status }) => status === 'error') ? 'not-ready' : 'ready',
+    checkedAt: new Date().toISOString(),
+    checks,
+  };
+}
+
+async function checkDependencies(config: Config): Promise<Readiness['checks']> {
+  if (!config.server) {
+    const skipped = {
+      status: 'skipped',
+      reason: 'The server comes from the OAuth sign-in',
+    } as const;
+    return { tableau: skipped, signIn: skipped, vizqlDataService: skipped };
+  }
+
+  const restApi = new RestApi(config.server, { maxRequestTimeoutMs: config.maxRequestTimeoutMs });
+  const tableau = await check(async () => {
+    const { productVersion } = await restApi.serverMethods.getServerInfo();
+    return { productVersion: productVersion.value };
+  });
+
+  const authConfig = getAuthConfig(config, new Set(['tableau:viz_data_service:read']), undefined);
+  if (!authConfig) {
+    // VizQL Data Service requires a signed in user, which only OAuth sign-ins provide.
+    const skipped = { status: 'skipped', reason: 'Credentials come from OAuth' } as const;
+    return { tableau, signIn: skipped, vizqlDataService: skipped };
+  }
+
+  const signIn = await check(() => restApi.signIn(authConfig));
+  if (signIn.status !== 'ok') {
+    return {
+      tableau,
+      signIn,
+      vizqlDataService: { status: 'skipped', reason: 'The sign-in failed' },
+    };
+  }
+
+  try {
+    const vizqlDataService = await check(async () => {
+      await restApi.vizqlDataServiceMethods.simpleRequest();
+    });
+    return { tableau, signIn, vizqlDataService };
+  } finally {
+    await restApi.signOut().catch(() => undefined);
+  }
+}
+
+// Runs a check of a dependency, adding what the check returns, e.g. the product version, to its result.
+async function check(
+  fn: () => Promise<{ productVersion: string } | void>,
+): Promise<DependencyCheck> {
+  const startTime = Date.now();
+  try {
+    const detail = await fn();
+    return { status: 'ok', durationMs: Date.now() - startTime, ...detail };
+  } catch (error) {
+    return {
+      status: 'error',
+      durationMs: Date.now() - startTime,
+      error: getExceptionMessage(error),
+    };
+  }
+}
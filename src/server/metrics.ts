@@ -0,0 +1,36 @@
+import express, { Request, Response } from 'express';
+import { Gauge } from 'prom-client';
+
+import { Config } from '../config.js';
+import { metricsRegistry } from '../metrics.js';
+import { getActiveSessionCount } from '../sessions.js';
+import { requireBearerToken } from './admin.js';
+
+new Gauge({
+  name: 'tableau_mcp_active_sessions',
+  help: 'MCP sessions whose transport lives in this instance of the server',
+  registers: [metricsRegistry],
+  collect() {
+    this.set(getActiveSessionCount());
+  },
+});
+
+/**
+ * Sets up the /metrics endpoint, which serves the metrics in the Prometheus text format.
+ * It is only available when METRICS_API_KEY is set, and requires it as a bearer token,
+ * so scrapers don't need the admin API key.
+ */
+export function setupMetricsRoute(app: express.Application, config: Config): void {
+  if (!config.metricsApiKey) {
+    return;
+  }
+
+  app.get(
+    '/metrics',
+    requireBearerToken(config.metricsApiKey),
+    async (_req: Request, res: Response) => {
+      res.setHeader('Content-Type', metricsRegistry.contentType);
+      res.status(200).send(await metricsRegistry.metrics());
+    },
+  );
+}
@@ -131,6 +131,7 @@ async function verifyAccessToken(
         tableauExpiresAt,
         tableauUserId,
         tableauServer,
+        tableauSiteId,
         sub,
       } = mcpAccessToken.data;
 
@@ -142,6 +143,7 @@ async function verifyAccessToken(
         username: sub,
         userId: tableauUserId,
         server: tableauServer,
+        ...(tableauSiteId ? { siteId: tableauSiteId } : {}),
         accessToken: tableauAccessToken,
         refreshToken: tableauRefreshToken,
       };
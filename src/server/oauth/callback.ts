@@ -149,6 +149,7 @@ export function callback(
         codeChallenge: pendingAuth.codeChallenge,
         user: sessionResult.value.user,
         server,
+        siteId: sessionResult.value.site.id,
         tableauClientId: pendingAuth.tableauClientId,
         tokens: {
           accessToken,
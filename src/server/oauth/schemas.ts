@@ -89,6 +89,8 @@ export const mcpAccessTokenUserOnlySchema = z.object({
   sub: requiredString('sub'),
   clientId: requiredString('clientId'),
   tableauServer: requiredString('tableauServer'),
+  // Optional because access tokens issued for client credentials, or before the site was added, have no site
+  tableauSiteId: z.string().optional(),
   // Optional because there may not be a user associated with the access token, e.g. for client credentials grant type
   tableauUserId: z.string().optional(),
 });
@@ -109,6 +111,7 @@ export const tableauAuthInfoSchema = z
     username: z.string(),
     userId: z.string(),
     server: z.string(),
+    siteId: z.string(),
     accessToken: z.string(),
     refreshToken: z.string(),
   })
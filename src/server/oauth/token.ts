@@ -5,6 +5,7 @@ import { Err, Ok, Result } from 'ts-results-es';
 import { fromError } from 'zod-validation-error';
 
 import { getConfig } from '../../config.js';
+import { oauthTokensIssued } from '../../metrics.js';
 import { getTokenResult } from '../../sdks/tableau-oauth/methods.js';
 import { TableauAccessToken } from '../../sdks/tableau-oauth/types.js';
 import { setLongTimeout } from '../../utils/setLongTimeout.js';
@@ -86,6 +87,7 @@ export function token(
           refreshTokens.set(refreshTokenId, {
             user: authCode.user,
             server: authCode.server,
+            siteId: authCode.siteId,
             clientId: authCode.clientId,
             tokens: authCode.tokens,
             expiresAt: Math.floor((Date.now() + config.oauth.refreshTokenTimeoutMs) / 1000),
@@ -99,6 +101,7 @@ export function token(
 
           authorizationCodes.delete(code);
 
+          oauthTokensIssued.inc({ grant_type: result.data.grantType });
           res.json({
             access_token: accessToken,
             token_type: 'Bearer',
@@ -119,6 +122,7 @@ export function token(
             publicKey,
           );
 
+          oauthTokensIssued.inc({ grant_type: result.data.grantType });
           res.json({
             access_token: accessToken,
             token_type: 'Bearer',
@@ -157,6 +161,7 @@ export function token(
                 user: tokenData.user,
                 clientId: tokenData.clientId,
                 server: tokenData.server,
+                siteId: tokenData.siteId,
                 tokens: tokenData.tokens,
               },
               publicKey,
@@ -173,6 +178,7 @@ export function token(
                 user: tokenData.user,
                 clientId: tokenData.clientId,
                 server: tokenData.server,
+                siteId: tokenData.siteId,
                 tokens: {
                   accessToken: newTableauAccessToken,
                   refreshToken: newTableauRefreshToken,
@@ -190,12 +196,14 @@ export function token(
           refreshTokens.set(refreshTokenId, {
             user: tokenData.user,
             server: tokenData.server,
+            siteId: tokenData.siteId,
             clientId: tokenData.clientId,
             tokens: tokenData.tokens,
             expiresAt: Math.floor((Date.now() + config.oauth.refreshTokenTimeoutMs) / 1000),
             tableauClientId: tokenData.tableauClientId,
           });
 
+          oauthTokensIssued.inc({ grant_type: result.data.grantType });
           res.json({
             access_token: accessToken,
             token_type: 'Bearer',
@@ -230,6 +238,7 @@ async function createAccessToken(tokenData: UserAndTokens, publicKey: KeyObject)
     sub: tokenData.user.name,
     clientId: tokenData.clientId,
     tableauServer: tokenData.server,
+    tableauSiteId: tokenData.siteId,
     tableauUserId: tokenData.user.id,
     iat: Math.floor(Date.now() / 1000),
     exp: Math.floor((Date.now() + config.oauth.accessTokenTimeoutMs) / 1000),
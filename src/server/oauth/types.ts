@@ -32,6 +32,7 @@ export type UserAndTokens = {
   user: User;
   clientId: string;
   server: string;
+  siteId: string;
   tokens: Tokens;
 };
 
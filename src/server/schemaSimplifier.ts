@@ -251,7 +251,19 @@ export function simplifyToolInputSchema(inputSchema: JsonSchema | undefined): Js
 }
 
 /**
- * Transform a tools/list response to use simplified schemas.
+ * Simplify the outputSchema for a tool definition.
+ * Output schemas are optional, so an absent schema stays absent.
+ */
+export function simplifyToolOutputSchema(outputSchema: JsonSchema | undefined): JsonSchema | undefined {
+    if (!outputSchema) {
+        return undefined;
+    }
+
+    return simplifySchemaForDatabricks(outputSchema, 4, 0);
+}
+
+/**
+ * Transform a tools/list response to use simplified input and output schemas.
  */
 export function simplifyToolsListResponse(response: unknown): unknown {
     if (!response || typeof response !== 'object') {
@@ -265,14 +277,16 @@ export function simplifyToolsListResponse(response: unknown): unknown {
         const result = resp.result as Record<string, unknown>;
 
         if (Array.isArray(result.tools)) {
-            // Clone and simplify each tool's inputSchema
+            // Clone and simplify each tool's inputSchema and outputSchema
             const simplifiedTools = result.tools.map((tool: unknown) => {
                 if (!tool || typeof tool !== 'object') return tool;
 
                 const t = tool as Record<string, unknown>;
+                const outputSchema = simplifyToolOutputSchema(t.outputSchema as JsonSchema | undefined);
                 return {
                     ...t,
                     inputSchema: simplifyToolInputSchema(t.inputSchema as JsonSchema | undefined),
+                    ...(outputSchema && { outputSchema }),
                 };
             });
 
@@ -0,0 +1,98 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+
+import { isExpired, SessionStore, StoredSession } from './types.js';
+
+type SessionFile = { [sessionId: string]: StoredSession };
+
+/**
+ * Keeps sessions in a JSON file, so they survive restarts of the process.
+ *
+ * The file is read for every operation and replaced atomically when it changes.
+ * Operations are serialized within the process, but not across processes,
+ * so instances sharing the file may overwrite each other's changes.
+ */
+export class FileSessionStore implements SessionStore {
+  private readonly _path: string;
+  private readonly _idleTimeoutMs: number;
+  private _queue: Promise<unknown> = Promise.resolve();
+
+  constructor({ path, idleTimeoutMs }: { path: string; idleTimeoutMs: number }) {
+    this._path = path;
+    this._idleTimeoutMs = idleTimeoutMs;
+  }
+
+  get(sessionId: string): Promise<StoredSession | undefined> {
+    return this._enqueue(async () => {
+      const sessions = await this._read();
+      return sessions[sessionId];
+    });
+  }
+
+  set(session: StoredSession): Promise<void> {
+    return this._update((sessions) => {
+      sessions[session.sessionId] = session;
+    });
+  }
+
+  delete(sessionId: string): Promise<void> {
+    return this._update((sessions) => {
+      delete sessions[sessionId];
+    });
+  }
+
+  getUserSessions(userKey: string): Promise<Array<StoredSession>> {
+    return this._enqueue(async () => {
+      const sessions = await this._read();
+      return Object.values(sessions).filter((session) => session.userKey === userKey);
+    });
+  }
+
+  async close(): Promise<void> {
+    await this._queue;
+  }
+
+  private _enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this._queue.then(operation);
+    this._queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private _update(update: (sessions: SessionFile) => void): Promise<void> {
+    return this._enqueue(async () => {
+      const sessions = await this._read();
+      update(sessions);
+      await this._write(sessions);
+    });
+  }
+
+  // Reads the unexpired sessions from the file.
+  private async _read(): Promise<SessionFile> {
+    let contents: string;
+    try {
+      contents = await readFile(this._path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+
+      throw error;
+    }
+
+    const sessions: SessionFile = {};
+    for (const session of Object.values(JSON.parse(contents) as SessionFile)) {
+      if (!isExpired(session, this._idleTimeoutMs)) {
+        sessions[session.sessionId] = session;
+      }
+    }
+
+    return sessions;
+  }
+
+  private async _write(sessions: SessionFile): Promise<void> {
+    const tempPath = `${this._path}.${process.pid}.tmp`;
+    await mkdir(dirname(this._path), { recursive: true });
+    await writeFile(tempPath, JSON.stringify(sessions), { encoding: 'utf8', mode: 0o600 });
+    await rename(tempPath, this._path);
+  }
+}
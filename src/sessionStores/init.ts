@@ -0,0 +1,43 @@
+import { getConfig } from '../config.js';
+import { FileSessionStore } from './file.js';
+import { MemorySessionStore } from './memory.js';
+import { RedisSessionStore } from './redis.js';
+import { SessionStore } from './types.js';
+
+const REDIS_KEY_PREFIX = 'tableau-mcp:';
+
+let sessionStore: SessionStore | undefined;
+
+/**
+ * Gets the session store configured by SESSION_STORE, creating it on first use.
+ */
+export function getSessionStore(): SessionStore {
+  if (!sessionStore) {
+    const config = getConfig();
+    const idleTimeoutMs = config.sessionIdleTimeoutMs;
+
+    switch (config.sessionStore) {
+      case 'memory':
+        sessionStore = new MemorySessionStore({ idleTimeoutMs });
+        break;
+      case 'file':
+        sessionStore = new FileSessionStore({ path: config.sessionStorePath, idleTimeoutMs });
+        break;
+      case 'redis':
+        sessionStore = new RedisSessionStore({
+          url: config.sessionStoreUrl,
+          keyPrefix: REDIS_KEY_PREFIX,
+          idleTimeoutMs,
+          timeoutMs: config.sessionStoreTimeoutMs,
+        });
+        break;
+    }
+  }
+
+  return sessionStore;
+}
+
+export async function closeSessionStore(): Promise<void> {
+  await sessionStore?.close();
+  sessionStore = undefined;
+}
@@ -0,0 +1,49 @@
+import { isExpired, SessionStore, StoredSession } from './types.js';
+
+/**
+ * Keeps sessions in the memory of the process, so they are lost on restart
+ * and can't be resumed by other instances.
+ */
+export class MemorySessionStore implements SessionStore {
+  private readonly _sessions = new Map<string, StoredSession>();
+  private readonly _idleTimeoutMs: number;
+
+  constructor({ idleTimeoutMs }: { idleTimeoutMs: number }) {
+    this._idleTimeoutMs = idleTimeoutMs;
+  }
+
+  async get(sessionId: string): Promise<StoredSession | undefined> {
+    const session = this._sessions.get(sessionId);
+    if (session && isExpired(session, this._idleTimeoutMs)) {
+      this._sessions.delete(sessionId);
+      return;
+    }
+
+    return session;
+  }
+
+  async set(session: StoredSession): Promise<void> {
+    this._sessions.set(session.sessionId, session);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this._sessions.delete(sessionId);
+  }
+
+  async getUserSessions(userKey: string): Promise<Array<StoredSession>> {
+    const sessions: Array<StoredSession> = [];
+    for (const session of [...this._sessions.values()]) {
+      if (isExpired(session, this._idleTimeoutMs)) {
+        this._sessions.delete(session.sessionId);
+      } else if (session.userKey === userKey) {
+        sessions.push(session);
+      }
+    }
+
+    return sessions;
+  }
+
+  async close(): Promise<void> {
+    this._sessions.clear();
+  }
+}
@@ -0,0 +1,99 @@
+import { RedisClient } from '../utils/redisClient.js';
+import { SessionStore, StoredSession } from './types.js';
+
+/**
+ * Keeps sessions in a server that speaks the Redis protocol, so every instance of the MCP server can resume them.
+ *
+ * Each session is a key that expires after the idle timeout, which is reset whenever the session is set.
+ * The IDs of the sessions of each user are kept in a set, from which expired sessions are removed when it is read.
+ */
+export class RedisSessionStore implements SessionStore {
+  private readonly _client: RedisClient;
+  private readonly _keyPrefix: string;
+  private readonly _idleTimeoutMs: number;
+
+  constructor({
+    url,
+    keyPrefix,
+    idleTimeoutMs,
+    timeoutMs,
+  }: {
+    url: string;
+    keyPrefix: string;
+    idleTimeoutMs: number;
+    timeoutMs: number;
+  }) {
+    this._client = new RedisClient(url, { timeoutMs });
+    this._keyPrefix = keyPrefix;
+    this._idleTimeoutMs = idleTimeoutMs;
+  }
+
+  async get(sessionId: string): Promise<StoredSession | undefined> {
+    const value = await this._client.command('GET', this._getSessionKey(sessionId));
+    return typeof value === 'string' ? JSON.parse(value) : undefined;
+  }
+
+  async set(session: StoredSession): Promise<void> {
+    const userKey = this._getUserKey(session.userKey);
+    await Promise.all([
+      this._client.command(
+        'SET',
+        this._getSessionKey(session.sessionId),
+        JSON.stringify(session),
+        'PX',
+        this._idleTimeoutMs,
+      ),
+      this._client.command('SADD', userKey, session.sessionId),
+      this._client.command('PEXPIRE', userKey, this._idleTimeoutMs),
+    ]);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    const session = await this.get(sessionId);
+    await Promise.all([
+      this._client.command('DEL', this._getSessionKey(sessionId)),
+      session && this._client.command('SREM', this._getUserKey(session.userKey), sessionId),
+    ]);
+  }
+
+  async getUserSessions(userKey: string): Promise<Array<StoredSession>> {
+    const sessionIds = await this._client.command('SMEMBERS', this._getUserKey(userKey));
+    if (!Array.isArray(sessionIds) || sessionIds.length === 0) {
+      return [];
+    }
+
+    const values = await this._client.command(
+      'MGET',
+      ...sessionIds.map((sessionId) => this._getSessionKey(String(sessionId))),
+    );
+
+    const sessions: Array<StoredSession> = [];
+    const expiredSessionIds: Array<string> = [];
+    sessionIds.forEach((sessionId, i) => {
+      const value = Array.isArray(values) ? values[i] : null;
+      if (typeof value === 'string') {
+        sessions.push(JSON.parse(value));
+      } else {
+        expiredSessionIds.push(String(sessionId));
+      }
+    });
+
+    if (expiredSessionIds.length > 0) {
+      await this._client.command('SREM', this._getUserKey(userKey), ...expiredSessionIds);
+    }
+
+    return sessions;
+  }
+
+  close(): Promise<void> {
+    return this._client.close();
+  }
+
+  private _getSessionKey(sessionId: string): string {
+    return `${this._keyPrefix}session:${sessionId}`;
+  }
+
+  private _getUserKey(userKey: string): string {
+    return `${this._keyPrefix}user:${userKey}`;
+  }
+}
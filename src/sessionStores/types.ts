@@ -0,0 +1,54 @@
+import { ClientCapabilities } from '@modelcontextprotocol/sdk/types.js';
+
+import { ClientInfo } from '../server.js';
+
+export const sessionStoreTypes = ['memory', 'file', 'redis'] as const;
+export type SessionStoreType = (typeof sessionStoreTypes)[number];
+
+export function isSessionStoreType(type: unknown): type is SessionStoreType {
+  return !!sessionStoreTypes.find((t) => t === type);
+}
+
+/**
+ * What is kept of an MCP session outside of the process that created it,
+ * so another instance, or the same one after a restart, can resume it.
+ */
+export type StoredSession = {
+  sessionId: string;
+
+  // The client info, protocol version and capabilities provided in the initialize request
+  clientInfo: ClientInfo;
+  protocolVersion: string;
+  capabilities: ClientCapabilities;
+
+  // A hash of the identity of the user who created the session, see getUserIdentity
+  userKey: string;
+
+  // Epoch milliseconds
+  createdAt: number;
+  lastActiveAt: number;
+};
+
+/**
+ * Persists MCP sessions of the HTTP transport.
+ *
+ * Sessions expire once they have been idle for longer than the idle timeout the store was created with,
+ * after which they are no longer returned.
+ */
+export interface SessionStore {
+  get(sessionId: string): Promise<StoredSession | undefined>;
+
+  // Creates the session, or replaces it, which also marks it as active
+  set(session: StoredSession): Promise<void>;
+
+  delete(sessionId: string): Promise<void>;
+
+  // Gets the unexpired sessions of a user
+  getUserSessions(userKey: string): Promise<Array<StoredSession>>;
+
+  close(): Promise<void>;
+}
+
+export function isExpired(session: StoredSession, idleTimeoutMs: number): boolean {
+  return Date.now() - session.lastActiveAt > idleTimeoutMs;
+}
@@ -1,43 +1,298 @@
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
-import { randomUUID } from 'crypto';
+import { ClientCapabilities, JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { createHash, randomUUID } from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+import { Socket } from 'net';
 
+import { getConfig } from './config.js';
+import { createEventStore } from './eventStores/init.js';
+import { SessionEventStore } from './eventStores/types.js';
 import { ClientInfo } from './server.js';
 import { wrapTransportForDatabricks } from './server/transportWrapper.js';
+import { getSessionStore } from './sessionStores/init.js';
+import { StoredSession } from './sessionStores/types.js';
 
 export type Session = {
   transport: StreamableHTTPServerTransport;
   clientInfo: ClientInfo;
+  userKey: string;
 };
 
-const sessions: { [sessionId: string]: Session } = {};
+// The sessions whose transport lives in this process, which is only a subset of the sessions in the store
+// when there are multiple instances or the process has restarted.
+const sessions = new Map<string, Session & { lastActiveAt: number }>();
 
-export const createSession = ({
+// The sessions being restored, so concurrent requests for the same session wait for one restore.
+const restoringSessions = new Map<string, Promise<Session | undefined>>();
+
+let idleSessionSweep: NodeJS.Timeout | undefined;
+
+export const getSessionUserKey = (userIdentity: string): string => {
+  return createHash('sha256').update(userIdentity).digest('hex');
+};
+
+/**
+ * Creates the transport of a new session. The session is stored once the transport has handled the initialize request.
+ *
+ * When the user already has as many sessions as MAX_SESSIONS_PER_USER allows, their least recently active sessions are ended.
+ */
+export const createSession = async ({
   clientInfo,
+  protocolVersion,
+  capabilities,
+  userKey,
 }: {
   clientInfo: ClientInfo;
-}): StreamableHTTPServerTransport => {
+  protocolVersion: string;
+  capabilities: ClientCapabilities;
+  userKey: string;
+}): Promise<StreamableHTTPServerTransport> => {
+  await endExcessUserSessions(userKey);
+
+  const newSessionId = randomUUID();
+  const eventStore = createEventStore(newSessionId);
   const rawTransport = new StreamableHTTPServerTransport({
-    sessionIdGenerator: () => randomUUID(),
-    onsessioninitialized: (sessionId) => {
-      sessions[sessionId] = { transport, clientInfo };
+    sessionIdGenerator: () => newSessionId,
+    eventStore,
+    onsessioninitialized: async (sessionId) => {
+      const now = Date.now();
+      sessions.set(sessionId, { transport, clientInfo, userKey, lastActiveAt: now });
+      await getSessionStore().set({
+        sessionId,
+        clientInfo,
+        protocolVersion,
+        capabilities,
+        userKey,
+        createdAt: now,
+        lastActiveAt: now,
+      });
     },
+    onsessionclosed: deleteSession,
   });
 
   const transport = wrapTransportForDatabricks(rawTransport);
+  handleTransportClose(transport, eventStore);
+  startIdleSessionSweep();
+
+  return transport;
+};
+
+/**
+ * Gets a session that lives in this process, marking it as active.
+ * Sessions that have expired or were ended by another instance are closed.
+ */
+export const getSession = async (sessionId: string): Promise<Session | undefined> => {
+  const session = sessions.get(sessionId);
+  if (!session) {
+    return;
+  }
+
+  const storedSession = await getSessionStore().get(sessionId);
+  if (!storedSession) {
+    sessions.delete(sessionId);
+    await session.transport.close();
+    return;
+  }
+
+  session.lastActiveAt = Date.now();
+  await touchStoredSession(storedSession);
+  return session;
+};
+
+// The number of sessions whose transport lives in this process.
+export const getActiveSessionCount = (): number => sessions.size;
+
+/**
+ * Recreates the transport of a stored session that does not live in this process,
+ * because it was created by another instance or before a restart.
+ *
+ * The SDK has no way to resume a session, so once a server is connected to the transport,
+ * the initialization of the session is replayed with the stored client info, protocol version and capabilities.
+ * Concurrent requests for the same session, such as the client's SSE stream and a POST after a restart,
+ * share the first request's restore.
+ *
+ * @param sessionId - The ID of the session
+ * @param userKey - The key of the user resuming the session, who must be the user who created it
+ * @param connect - Connects a server to the transport, as for a new session
+ */
+export const restoreSession = async ({
+  sessionId,
+  userKey,
+  connect,
+}: {
+  sessionId: string;
+  userKey: string;
+  connect: (transport: StreamableHTTPServerTransport, clientInfo: ClientInfo) => Promise<void>;
+}): Promise<Session | undefined> => {
+  let restoring: Promise<Session | undefined> | undefined;
+  while ((restoring = restoringSessions.get(sessionId))) {
+    await restoring.catch(() => undefined);
+  }
+
+  const session = sessions.get(sessionId);
+  if (session) {
+    return session.userKey === userKey ? session : undefined;
+  }
+
+  const restore = restoreStoredSession({ sessionId, userKey, connect }).finally(() =>
+    restoringSessions.delete(sessionId),
+  );
+  restoringSessions.set(sessionId, restore);
+  return await restore;
+};
+
+const restoreStoredSession = async ({
+  sessionId,
+  userKey,
+  connect,
+}: {
+  sessionId: string;
+  userKey: string;
+  connect: (transport: StreamableHTTPServerTransport, clientInfo: ClientInfo) => Promise<void>;
+}): Promise<Session | undefined> => {
+  const storedSession = await getSessionStore().get(sessionId);
+  if (!storedSession || storedSession.userKey !== userKey) {
+    return;
+  }
+
+  const { clientInfo, protocolVersion, capabilities } = storedSession;
+  const eventStore = createEventStore(sessionId);
+  const transport = wrapTransportForDatabricks(
+    new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => sessionId,
+      eventStore,
+      onsessionclosed: deleteSession,
+    }),
+  );
 
-  transport.onclose = () => {
-    if (transport.sessionId) {
-      deleteSession(transport.sessionId);
+  // The close handler is installed before the server is connected, which chains its own close handler onto it.
+  handleTransportClose(transport, eventStore);
+
+  try {
+    await connect(transport, clientInfo);
+    await postMessage(transport, {
+      jsonrpc: '2.0',
+      id: 0,
+      method: 'initialize',
+      params: { protocolVersion, capabilities, clientInfo },
+    });
+    await postMessage(
+      transport,
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      sessionId,
+    );
+  } catch (error) {
+    await transport.close();
+    throw error;
+  }
+
+  const session = { transport, clientInfo, userKey };
+  sessions.set(sessionId, { ...session, lastActiveAt: Date.now() });
+  startIdleSessionSweep();
+
+  await touchStoredSession(storedSession);
+  return session;
+};
+
+// Handles a message as if a client had posted it to the transport, discarding the response.
+const postMessage = async (
+  transport: StreamableHTTPServerTransport,
+  message: JSONRPCMessage,
+  sessionId?: string,
+): Promise<void> => {
+  const headers: Record<string, string> = {
+    host: 'localhost',
+    'content-type': 'application/json',
+    accept: 'application/json, text/event-stream',
+    ...(sessionId && { 'mcp-session-id': sessionId }),
+  };
+
+  const req = new IncomingMessage(new Socket());
+  req.method = 'POST';
+  req.url = '/';
+  req.headers = headers;
+  req.rawHeaders = Object.entries(headers).flat();
+  req.push(null);
+
+  const res = new ServerResponse(req);
+  await transport.handleRequest(req, res, message);
+  if (res.statusCode >= 400) {
+    throw new Error(`Replaying ${'method' in message ? message.method : 'a message'} failed`);
+  }
+};
+
+// Removes the session from the store when the client ends it with a DELETE request.
+const deleteSession = async (sessionId: string): Promise<void> => {
+  sessions.delete(sessionId);
+  await getSessionStore().delete(sessionId);
+};
+
+// Forgets the transport and its events once it is closed.
+// The stored session is kept, since it may still be active on another instance.
+const handleTransportClose = (
+  transport: StreamableHTTPServerTransport,
+  eventStore: SessionEventStore | undefined,
+): void => {
+  transport.onclose = async () => {
+    const { sessionId } = transport;
+    if (sessionId && sessions.get(sessionId)?.transport === transport) {
+      sessions.delete(sessionId);
     }
+
+    await eventStore?.clear();
   };
+};
 
-  return transport;
+// Updating the store for every request of a busy session would be wasteful,
+// so its last activity is only updated once a tenth of the idle timeout has passed.
+const touchStoredSession = async (storedSession: StoredSession): Promise<void> => {
+  const now = Date.now();
+  if (now - storedSession.lastActiveAt < getConfig().sessionIdleTimeoutMs / 10) {
+    return;
+  }
+
+  await getSessionStore().set({ ...storedSession, lastActiveAt: now });
 };
 
-export const getSession = (sessionId: string): Session | undefined => {
-  return sessions[sessionId];
+const endExcessUserSessions = async (userKey: string): Promise<void> => {
+  const sessionStore = getSessionStore();
+  const { maxSessionsPerUser } = getConfig();
+
+  const userSessions = await sessionStore.getUserSessions(userKey);
+  const excessCount = userSessions.length - maxSessionsPerUser + 1;
+  if (excessCount <= 0) {
+    return;
+  }
+
+  userSessions.sort((a, b) => a.lastActiveAt - b.lastActiveAt);
+  for (const { sessionId } of userSessions.slice(0, excessCount)) {
+    const session = sessions.get(sessionId);
+    sessions.delete(sessionId);
+    await sessionStore.delete(sessionId);
+    await session?.transport.close();
+  }
 };
 
-const deleteSession = (sessionId: string): void => {
-  delete sessions[sessionId];
+// Closes the transports of sessions that have been idle in this process for longer than the idle timeout.
+// Their stored sessions are left to expire in the store.
+const startIdleSessionSweep = (): void => {
+  if (idleSessionSweep) {
+    return;
+  }
+
+  const { sessionIdleTimeoutMs } = getConfig();
+  idleSessionSweep = setInterval(
+    async () => {
+      const now = Date.now();
+      for (const [sessionId, session] of [...sessions.entries()]) {
+        if (now - session.lastActiveAt > sessionIdleTimeoutMs) {
+          sessions.delete(sessionId);
+          await session.transport.close();
+        }
+      }
+    },
+    Math.min(sessionIdleTimeoutMs, 60 * 1000),
+  );
+
+  idleSessionSweep.unref();
 };
@@ -0,0 +1,36 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { z } from 'zod';
+
+// The alias of the site from the site registry that the current tool call was made for
+const currentSite = new AsyncLocalStorage<string>();
+
+/**
+ * Runs a function for a site from the site registry, so that the config returned by getConfig() within it,
+ * and by extension the REST API sessions, bounded context and result limits, are those of the site.
+ *
+ * @param site - The alias of the site, or undefined to use the site configured by SERVER and SITE_NAME
+ */
+export function runWithSite<T>(site: string | undefined, fn: () => T): T {
+  return site ? currentSite.run(site, fn) : fn();
+}
+
+export function getCurrentSite(): string | undefined {
+  return currentSite.getStore();
+}
+
+/**
+ * Gets the schema of the optional "site" argument that is added to every tool when the site registry is configured.
+ *
+ * @param siteAliases - The aliases of the sites in the registry
+ */
+export function getSiteParamSchema(
+  siteAliases: Array<string>,
+): z.ZodOptional<z.ZodEnum<[string, ...Array<string>]>> {
+  const [firstAlias, ...otherAliases] = siteAliases;
+  return z
+    .enum([firstAlias, ...otherAliases])
+    .optional()
+    .describe(
+      'The alias of the Tableau site to run the tool against. When omitted, the default site of the server is used.',
+    );
+}
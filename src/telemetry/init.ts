@@ -5,8 +5,9 @@
 import { resolve } from 'path';
 
 import { getConfig } from '../config.js';
-import { NoOpTelemetryProvider } from './noop.js';
-import { TelemetryProvider } from './types.js';
+import { NoOpTelemetryProvider, noopSpan } from './noop.js';
+import { OpenTelemetryProvider } from './otel.js';
+import { TelemetryAttributes, TelemetryProvider, TelemetrySpan } from './types.js';
 
 /**
  * Get all instance methods from a class prototype
@@ -58,6 +59,43 @@ export function getTelemetryProvider(): TelemetryProvider {
   return global.__telemetryProvider;
 }
 
+/**
+ * Initialize the telemetry provider, unless the preload script already did.
+ */
+export function ensureTelemetryInitialized(): void {
+  if (!global.__telemetryProvider) {
+    initializeTelemetry();
+  }
+}
+
+/**
+ * Start a span with the current telemetry provider.
+ * Providers that don't support spans return a span that does nothing.
+ *
+ * @param name - The span name
+ * @param attributes - The attributes of the span
+ */
+export function startSpan(name: string, attributes: TelemetryAttributes): TelemetrySpan {
+  return getTelemetryProvider().startSpan?.(name, attributes) ?? noopSpan;
+}
+
+/**
+ * Run a function within a span of the current telemetry provider,
+ * or just run it when the provider doesn't support spans.
+ *
+ * @param name - The span name
+ * @param attributes - The attributes of the span
+ * @param fn - The function to run
+ */
+export async function withSpan<T>(
+  name: string,
+  attributes: TelemetryAttributes,
+  fn: (span: TelemetrySpan) => Promise<T>,
+): Promise<T> {
+  const provider = getTelemetryProvider();
+  return provider.withSpan ? await provider.withSpan(name, attributes, fn) : await fn(noopSpan);
+}
+
 /**
  * Initialize the telemetry provider based on configuration.
  *
@@ -86,6 +124,10 @@ export function initializeTelemetry(): TelemetryProvider {
         provider = loadCustomProvider(config.telemetry.providerConfig);
         break;
 
+      case 'otel':
+        provider = new OpenTelemetryProvider(config.telemetry.providerConfig);
+        break;
+
       case 'noop':
         provider = new NoOpTelemetryProvider();
         break;
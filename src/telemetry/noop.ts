@@ -6,7 +6,7 @@
  * when telemetry is not needed.
  */
 
-import { TelemetryAttributes, TelemetryProvider } from './types.js';
+import { TelemetryAttributes, TelemetryProvider, TelemetrySpan } from './types.js';
 
 export class NoOpTelemetryProvider implements TelemetryProvider {
   initialize(): void {
@@ -17,3 +17,9 @@ export class NoOpTelemetryProvider implements TelemetryProvider {
     // No-op
   }
 }
+
+// Stands in for the spans of providers that don't support them.
+export const noopSpan: TelemetrySpan = {
+  setAttributes: () => {},
+  end: () => {},
+};
@@ -0,0 +1,158 @@
+/**
+ * OpenTelemetry telemetry provider - exports traces and metrics over OTLP/HTTP.
+ *
+ * Spans started within a span are its children, since the tracer provider registers
+ * an AsyncLocalStorage context manager.
+ */
+
+import { Counter, Histogram, Meter, Span, SpanStatusCode, Tracer } from '@opentelemetry/api';
+import { OTLPMetricExporter } from '@opentelemetry/exporter-metrics-otlp-http';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import { MeterProvider, PeriodicExportingMetricReader } from '@opentelemetry/sdk-metrics';
+import { BatchSpanProcessor, NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { ATTR_SERVICE_NAME } from '@opentelemetry/semantic-conventions';
+
+import {
+  OtelProviderConfig,
+  TelemetryAttributes,
+  TelemetryProvider,
+  TelemetrySpan,
+} from './types.js';
+
+const instrumentationScope = 'tableau-mcp';
+
+export class OpenTelemetryProvider implements TelemetryProvider {
+  private readonly _config: OtelProviderConfig;
+  private _tracerProvider?: NodeTracerProvider;
+  private _meterProvider?: MeterProvider;
+  private _tracer?: Tracer;
+  private _meter?: Meter;
+  private readonly _counters = new Map<string, Counter>();
+  private readonly _histograms = new Map<string, Histogram>();
+
+  constructor(config: OtelProviderConfig) {
+    this._config = config;
+  }
+
+  initialize(): void {
+    const { endpoint, headers, serviceName, metricExportIntervalMs } = this._config;
+    const baseUrl = endpoint?.replace(/\/$/, '');
+    const resource = resourceFromAttributes({
+      [ATTR_SERVICE_NAME]: serviceName ?? 'tableau-mcp-server',
+    });
+
+    this._tracerProvider = new NodeTracerProvider({
+      resource,
+      spanProcessors: [
+        new BatchSpanProcessor(
+          new OTLPTraceExporter({
+            ...(baseUrl && { url: `${baseUrl}/v1/traces` }),
+            headers,
+          }),
+        ),
+      ],
+    });
+    this._tracerProvider.register();
+
+    this._meterProvider = new MeterProvider({
+      resource,
+      readers: [
+        new PeriodicExportingMetricReader({
+          exporter: new OTLPMetricExporter({
+            ...(baseUrl && { url: `${baseUrl}/v1/metrics` }),
+            headers,
+          }),
+          ...(metricExportIntervalMs && { exportIntervalMillis: metricExportIntervalMs }),
+        }),
+      ],
+    });
+
+    this._tracer = this._tracerProvider.getTracer(instrumentationScope);
+    this._meter = this._meterProvider.getMeter(instrumentationScope);
+  }
+
+  recordMetric(name: string, value: number, attributes: TelemetryAttributes): void {
+    if (!this._meter) {
+      return;
+    }
+
+    let counter = this._counters.get(name);
+    if (!counter) {
+      counter = this._meter.createCounter(name);
+      this._counters.set(name, counter);
+    }
+
+    counter.add(value, attributes);
+  }
+
+  recordHistogram(name: string, value: number, attributes: TelemetryAttributes): void {
+    if (!this._meter) {
+      return;
+    }
+
+    let histogram = this._histograms.get(name);
+    if (!histogram) {
+      histogram = this._meter.createHistogram(name);
+      this._histograms.set(name, histogram);
+    }
+
+    histogram.record(value, attributes);
+  }
+
+  startSpan(name: string, attributes: TelemetryAttributes): TelemetrySpan {
+    return toTelemetrySpan(this._getTracer().startSpan(name, { attributes }));
+  }
+
+  async withSpan<T>(
+    name: string,
+    attributes: TelemetryAttributes,
+    fn: (span: TelemetrySpan) => Promise<T>,
+  ): Promise<T> {
+    return await this._getTracer().startActiveSpan(name, { attributes }, async (span) => {
+      const telemetrySpan = toTelemetrySpan(span);
+      try {
+        const result = await fn(telemetrySpan);
+        telemetrySpan.end();
+        return result;
+      } catch (error) {
+        telemetrySpan.end(error);
+        throw error;
+      }
+    });
+  }
+
+  // What can't be exported, e.g. because the collector is down, is dropped rather than delaying the exit.
+  async shutdown(): Promise<void> {
+    await Promise.allSettled([this._tracerProvider?.shutdown(), this._meterProvider?.shutdown()]);
+  }
+
+  private _getTracer(): Tracer {
+    if (!this._tracer) {
+      throw new Error('The OpenTelemetry provider is not initialized');
+    }
+
+    return this._tracer;
+  }
+}
+
+// Spans can be ended early, e.g. as failed, by the function they were started for.
+function toTelemetrySpan(span: Span): TelemetrySpan {
+  let ended = false;
+  return {
+    setAttributes: (attributes) => span.setAttributes(attributes),
+    end: (error) => {
+      if (ended) {
+        return;
+      }
+
+      ended = true;
+      if (error !== undefined) {
+        span.recordException(error instanceof Error ? error : String(error));
+        span.setStatus({ code: SpanStatusCode.ERROR });
+      }
+
+      span.end();
+    },
+  };
+}
@@ -5,6 +5,7 @@
  *   node -r ./build/telemetry/tracing.js build/index.js
  *
  * Environment variables:
+ * - TELEMETRY_PROVIDER=otel - Use the built-in OpenTelemetry provider
  * - TELEMETRY_PROVIDER=custom - Use custom telemetry provider (default: noop)
  */
 
@@ -24,6 +24,57 @@ export interface TelemetryProvider {
    * ```
    */
   recordMetric(name: string, value: number, attributes: TelemetryAttributes): void;
+
+  /**
+   * Record a value of a histogram, e.g. the duration of a tool call.
+   * Optional, so custom providers that predate histograms keep working.
+   *
+   * @param name - The histogram name (e.g., 'mcp.tool.duration')
+   * @param value - The value to record
+   * @param attributes - Dimensions/tags for the value
+   */
+  recordHistogram?(name: string, value: number, attributes: TelemetryAttributes): void;
+
+  /**
+   * Start a span as a child of the active span. The caller ends it.
+   * Optional, for providers that only collect metrics.
+   *
+   * @param name - The span name (e.g., 'tableau.rest.request')
+   * @param attributes - The attributes of the span
+   */
+  startSpan?(name: string, attributes: TelemetryAttributes): TelemetrySpan;
+
+  /**
+   * Run a function within a span, which is active while the function runs,
+   * so the spans started by the function are its children.
+   * The span ends when the function settles, unless the function ended it first.
+   * Optional, for providers that only collect metrics.
+   *
+   * @param name - The span name (e.g., 'mcp.tool.call')
+   * @param attributes - The attributes of the span
+   * @param fn - The function to run
+   */
+  withSpan?<T>(
+    name: string,
+    attributes: TelemetryAttributes,
+    fn: (span: TelemetrySpan) => Promise<T>,
+  ): Promise<T>;
+
+  /**
+   * Export what has not been exported yet, before the process exits.
+   * Optional, for providers that don't buffer.
+   */
+  shutdown?(): Promise<void>;
+}
+
+/**
+ * A span started by a telemetry provider.
+ */
+export interface TelemetrySpan {
+  setAttributes(attributes: TelemetryAttributes): void;
+
+  // Ends the span, as failed when an error is given.
+  end(error?: unknown): void;
 }
 
 /**
@@ -39,7 +90,7 @@ export type TelemetryAttributes = z.infer<typeof telemetryAttributesSchema>;
 /**
  * Valid telemetry provider names
  */
-export const telemetryProviderSchema = z.enum(['noop', 'custom']);
+export const telemetryProviderSchema = z.enum(['noop', 'custom', 'otel']);
 export type TelemetryProviderType = z.infer<typeof telemetryProviderSchema>;
 
 /**
@@ -77,12 +128,49 @@ export const customTelemetryConfigSchema = z.object({
   providerConfig: providerConfigSchema,
 });
 
+/**
+ * Schema for the config of the built-in OpenTelemetry provider, which exports over OTLP/HTTP.
+ * The exporters fall back to the standard OTEL_EXPORTER_OTLP_* environment variables
+ * for whatever is not set here.
+ */
+export const otelProviderConfigSchema = z
+  .object({
+    // The base URL of the collector, e.g. http://localhost:4318, to which /v1/traces and /v1/metrics are appended
+    endpoint: z.string().url().optional(),
+    // Headers sent with every export, e.g. an API key of the observability backend
+    headers: z.record(z.string()).optional(),
+    serviceName: z.string().optional(),
+    metricExportIntervalMs: z.number().int().positive().optional(),
+  })
+  .strict();
+
+export type OtelProviderConfig = z.infer<typeof otelProviderConfigSchema>;
+
+/**
+ * Schema for OpenTelemetry config
+ *
+ * @example
+ * ```json
+ * {
+ *   "provider": "otel",
+ *   "providerConfig": {
+ *     "endpoint": "http://otel-collector:4318"
+ *   }
+ * }
+ * ```
+ */
+export const otelTelemetryConfigSchema = z.object({
+  provider: z.literal('otel'),
+  providerConfig: otelProviderConfigSchema,
+});
+
 /**
  * Combined telemetry config schema (discriminated union)
  */
 export const telemetryConfigSchema = z.discriminatedUnion('provider', [
   noopTelemetryConfigSchema,
   customTelemetryConfigSchema,
+  otelTelemetryConfigSchema,
 ]);
 
 export type TelemetryConfig = z.infer<typeof telemetryConfigSchema>;
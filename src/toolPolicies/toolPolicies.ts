@@ -0,0 +1,203 @@
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { RequestId } from '@modelcontextprotocol/sdk/types.js';
+import { randomUUID } from 'crypto';
+
+import { getConfig } from '../config.js';
+import { log } from '../logging/log.js';
+import { useRestApi } from '../restApiInstance.js';
+import { Server } from '../server.js';
+import { getTableauAuthInfo } from '../server/oauth/getTableauAuthInfo.js';
+import { TableauAuthInfo } from '../server/oauth/schemas.js';
+import { isToolGroupName, toolGroups, ToolName } from '../tools/toolName.js';
+import { ExpiringMap } from '../utils/expiringMap.js';
+import { getExceptionMessage } from '../utils/getExceptionMessage.js';
+import { getUserIdentity, getUsername } from '../utils/getUserIdentity.js';
+import { paginate } from '../utils/paginate.js';
+import { ToolPolicyDecision, ToolPolicyRule, ToolPrincipal } from './types.js';
+
+// Group memberships rarely change, and are needed for every session and tool call when rules refer to groups.
+const userGroupsTtlMs = 5 * 60 * 1000;
+
+let userGroups: ExpiringMap<string, Array<string>> | undefined;
+
+/**
+ * Decides whether the tool policies allow a user to see and call a tool.
+ *
+ * The first rule that applies to the tool and the user decides. Tools that no rule applies to are allowed.
+ * When the user's groups are unknown, rules that allow members of some groups are skipped
+ * and rules that deny them apply, so a failed group lookup never grants access.
+ *
+ * @param rules - The rules configured by TOOL_POLICIES
+ * @param principal - The user the tool is called by
+ * @param toolName - The name of the tool
+ */
+export function getToolPolicyDecision(
+  rules: Array<ToolPolicyRule>,
+  principal: ToolPrincipal,
+  toolName: ToolName,
+): ToolPolicyDecision {
+  const user = principal.username ?? 'this user';
+
+  for (const rule of rules) {
+    if (
+      !isRuleForTool(rule, toolName) ||
+      (rule.users && !includesName(rule.users, principal.username)) ||
+      (rule.clients && !(principal.clientId && rule.clients.includes(principal.clientId)))
+    ) {
+      continue;
+    }
+
+    if (rule.groups) {
+      if (!principal.groups) {
+        if (rule.effect === 'allow') {
+          continue;
+        }
+
+        return {
+          allowed: false,
+          reason: `The tool ${toolName} is not allowed for some Tableau groups, and the groups of ${user} could not be retrieved`,
+        };
+      }
+
+      if (!rule.groups.some((group) => includesName(principal.groups ?? [], group))) {
+        continue;
+      }
+    }
+
+    return rule.effect === 'allow'
+      ? { allowed: true }
+      : {
+          allowed: false,
+          reason: rule.reason ?? `The tool ${toolName} is not allowed for ${user}`,
+        };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Gets the user the tool policies are evaluated for.
+ * Their Tableau groups are only retrieved when a rule refers to groups.
+ *
+ * @param server - The MCP server
+ * @param authInfo - The Tableau authentication info provided when OAuth is enabled
+ * @param clientId - The ID of the OAuth client the user connected with
+ * @param requestId - The ID of the request the policies are evaluated for, if any
+ */
+export async function getToolPrincipal({
+  server,
+  authInfo,
+  clientId,
+  requestId = randomUUID(),
+}: {
+  server: Server;
+  authInfo: TableauAuthInfo | undefined;
+  clientId: string | undefined;
+  requestId?: RequestId;
+}): Promise<ToolPrincipal> {
+  const config = getConfig();
+  const needsGroups = !!config.toolPolicies?.some((rule) => rule.groups);
+
+  return {
+    username: getUsername(config, authInfo),
+    clientId,
+    groups: needsGroups ? await getUserGroups({ server, authInfo, requestId }) : undefined,
+  };
+}
+
+/**
+ * Checks the tool policies before a tool is called.
+ * The tools a user is not allowed to call are already hidden, but the user's groups may have changed since.
+ */
+export async function checkToolPolicies({
+  server,
+  requestId,
+  authInfo,
+  toolName,
+}: {
+  server: Server;
+  requestId: RequestId;
+  authInfo: AuthInfo | undefined;
+  toolName: ToolName;
+}): Promise<ToolPolicyDecision> {
+  const { toolPolicies } = getConfig();
+  if (!toolPolicies) {
+    return { allowed: true };
+  }
+
+  const principal = await getToolPrincipal({
+    server,
+    authInfo: getTableauAuthInfo(authInfo),
+    clientId: authInfo?.clientId,
+    requestId,
+  });
+
+  return getToolPolicyDecision(toolPolicies, principal, toolName);
+}
+
+function isRuleForTool(rule: ToolPolicyRule, toolName: ToolName): boolean {
+  return rule.tools.some(
+    (name) =>
+      name === '*' ||
+      name === toolName ||
+      (isToolGroupName(name) && (toolGroups[name] as ReadonlyArray<ToolName>).includes(toolName)),
+  );
+}
+
+// Tableau usernames and group names are not case-sensitive.
+function includesName(names: Array<string>, name: string | undefined): boolean {
+  return !!name && names.some((n) => n.toLowerCase() === name.toLowerCase());
+}
+
+async function getUserGroups({
+  server,
+  authInfo,
+  requestId,
+}: {
+  server: Server;
+  authInfo: TableauAuthInfo | undefined;
+  requestId: RequestId;
+}): Promise<Array<string> | undefined> {
+  const config = getConfig();
+  const userIdentity = getUserIdentity(config, authInfo);
+
+  userGroups ??= new ExpiringMap({ defaultExpirationTimeMs: userGroupsTtlMs });
+  const cachedGroups = userGroups.get(userIdentity);
+  if (cachedGroups) {
+    return cachedGroups;
+  }
+
+  try {
+    const groups = await useRestApi({
+      config,
+      requestId,
+      server,
+      jwtScopes: ['tableau:users:read'],
+      signal: AbortSignal.timeout(config.maxRequestTimeoutMs),
+      authInfo,
+      callback: (restApi) =>
+        paginate({
+          pageConfig: { pageSize: 1000 },
+          getDataFn: async (pageConfig) => {
+            const { pagination, groups } = await restApi.usersMethods.getGroupsForUser({
+              siteId: restApi.siteId,
+              userId: restApi.userId,
+              ...pageConfig,
+            });
+
+            return { pagination, data: groups };
+          },
+        }),
+    });
+
+    const groupNames = groups.map((group) => group.name);
+    userGroups.set(userIdentity, groupNames);
+    return groupNames;
+  } catch (error) {
+    log.warning(
+      server,
+      `Could not retrieve the Tableau groups of the user for the tool policies: ${getExceptionMessage(error)}`,
+      { requestId },
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { z } from 'zod';
+
+import { isToolGroupName, isToolName } from '../tools/toolName.js';
+
+const nameListSchema = z.array(z.string().nonempty()).nonempty();
+
+/**
+ * A rule of the tool policies configured by TOOL_POLICIES.
+ *
+ * A rule applies to a tool call when it lists the tool, or one of its groups, and the user matches
+ * every condition the rule has: one of its usernames, one of its Tableau groups and one of its OAuth client IDs.
+ * A rule without conditions applies to everyone.
+ */
+export const toolPolicyRuleSchema = z
+  .object({
+    effect: z.enum(['allow', 'deny']),
+    tools: z
+      .array(
+        z.string().refine((name) => name === '*' || isToolName(name) || isToolGroupName(name), {
+          message: 'Expected "*", a tool name or a tool group name',
+        }),
+      )
+      .nonempty(),
+    users: nameListSchema.optional(),
+    groups: nameListSchema.optional(),
+    clients: nameListSchema.optional(),
+    // The reason returned to the client when the rule denies a tool call.
+    reason: z.string().nonempty().optional(),
+  })
+  .strict();
+
+export type ToolPolicyRule = z.infer<typeof toolPolicyRuleSchema>;
+
+export const toolPoliciesSchema = z.array(toolPolicyRuleSchema);
+
+/**
+ * The user the tool policies are evaluated for.
+ */
+export type ToolPrincipal = {
+  username: string | undefined;
+  clientId: string | undefined;
+  // The names of the user's Tableau groups, or undefined when they are not needed or could not be retrieved.
+  groups: Array<string> | undefined;
+};
+
+export type ToolPolicyDecision = { allowed: true } | { allowed: false; reason: string };
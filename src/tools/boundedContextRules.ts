@@ -0,0 +1,67 @@
+import { BoundedContext } from '../config.js';
+
+/**
+ * The properties of a datasource, workbook or view that the rules of the bounded context are evaluated against.
+ */
+export type ScopedContent = {
+  projectId: string | undefined;
+  ownerId: string | undefined;
+  tags: Array<string>;
+  // Only set for datasources, since the other content can't be certified.
+  isCertified?: boolean;
+};
+
+/**
+ * Whether the bounded context has rules that depend on the properties of the content,
+ * rather than only on the explicit datasource and workbook IDs.
+ */
+export function hasContentRules({
+  projectIds,
+  tags,
+  certifiedDatasourcesOnly,
+  ownerIds,
+  excludedOwnerIds,
+}: BoundedContext): boolean {
+  return !!(projectIds || tags || certifiedDatasourcesOnly || ownerIds || excludedOwnerIds);
+}
+
+/**
+ * Gets why the rules of the bounded context exclude some content, e.g. "it is not certified",
+ * or undefined when they allow it.
+ *
+ * The project IDs are expected to already include the child projects when INCLUDE_CHILD_PROJECTS is set.
+ */
+export function getContentExclusionReason(
+  boundedContext: BoundedContext,
+  content: ScopedContent,
+): string | undefined {
+  const { projectIds, tags, certifiedDatasourcesOnly, ownerIds, excludedOwnerIds } = boundedContext;
+
+  if (projectIds && !projectIds.has(content.projectId ?? '')) {
+    return 'it does not belong to an allowed project';
+  }
+
+  // Tags are compared in lowercase, like Tableau does.
+  if (tags && !content.tags.some((tag) => tags.has(tag.toLowerCase()))) {
+    return 'it does not have an allowed tag';
+  }
+
+  if (certifiedDatasourcesOnly && content.isCertified === false) {
+    return 'it is not certified';
+  }
+
+  if (ownerIds && !ownerIds.has(content.ownerId ?? '')) {
+    return 'it is not owned by an allowed owner';
+  }
+
+  if (excludedOwnerIds?.has(content.ownerId ?? '')) {
+    return 'it is owned by an excluded owner';
+  }
+}
+
+/**
+ * Gets the labels of the tags of a datasource, workbook or view, as returned by the REST API.
+ */
+export function getTagLabels(tags: { tag?: Array<{ label: string }> } | undefined): Array<string> {
+  return tags?.tag?.map(({ label }) => label) ?? [];
+}
@@ -10,12 +10,14 @@ import {
 } from '../../sdks/tableau/types/contentExploration.js';
 import { Server } from '../../server.js';
 import { getTableauAuthInfo } from '../../server/oauth/getTableauAuthInfo.js';
+import { resourceAccessChecker } from '../resourceAccessChecker.js';
 import { Tool } from '../tool.js';
 import {
   buildFilterString,
   buildOrderByString,
   constrainSearchContent,
   ReducedSearchContentResponse,
+  reducedSearchContentResponseSchema,
   reduceSearchContentResponse,
 } from './searchContentUtils.js';
 
@@ -56,6 +58,7 @@ This tool searches across all supported content types for objects relevant to th
 **Important Notes:**
 - If \`orderBy\` is omitted, the search will sort items by their "relevance score" in descending order, which is Tableau's internal algorithm for providing the most relevant results`,
     paramsSchema,
+    resultSchema: z.array(reducedSearchContentResponseSchema),
     annotations: {
       title: 'Search Content',
       readOnlyHint: true,
@@ -71,6 +74,7 @@ This tool searches across all supported content types for objects relevant to th
       return await searchContentTool.logAndExecute<Array<ReducedSearchContentResponse>>({
         requestId,
         authInfo,
+        signal,
         args: {},
         callback: async () => {
           return new Ok(
@@ -95,8 +99,16 @@ This tool searches across all supported content types for objects relevant to th
             }),
           );
         },
-        constrainSuccessResult: (items) =>
-          constrainSearchContent({ items, boundedContext: config.boundedContext }),
+        constrainSuccessResult: async (items) =>
+          constrainSearchContent({
+            items,
+            boundedContext: await resourceAccessChecker.getBoundedContext({
+              config,
+              requestId,
+              server,
+              signal,
+            }),
+          }),
       });
     },
   });
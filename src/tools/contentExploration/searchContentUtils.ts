@@ -1,13 +1,58 @@
+import { z } from 'zod';
+
 import { BoundedContext } from '../../config.js';
 import {
   OrderBy,
   SearchContentFilter,
   SearchContentResponse,
 } from '../../sdks/tableau/types/contentExploration.js';
+import { getContentExclusionReason, hasContentRules } from '../boundedContextRules.js';
 import { ConstrainedResult } from '../tool.js';
 
+const searchItemContentKeys = [
+  'caption',
+  'comments',
+  'connectedWorkbooksCount',
+  'connectionType',
+  'containerName',
+  'datasourceIsPublished',
+  'datasourceLuid',
+  'downstreamWorkbookCount',
+  'extractCreationPending',
+  'extractRefreshedAt',
+  'extractUpdatedAt',
+  'favoritesTotal',
+  'hasActiveDataQualityWarning',
+  'hasExtracts',
+  'hasSevereDataQualityWarning',
+  'hitsSmallSpanTotal',
+  'hitsTotal',
+  'isCertified',
+  'isConnectable',
+  'locationName',
+  'luid',
+  'modifiedTime',
+  'ownerId',
+  'ownerName',
+  'parentWorkbookName',
+  'projectId',
+  'projectName',
+  'sheetType',
+  'tags',
+  'title',
+  'totalViewCount',
+  'viewCountLastMonth',
+  'type',
+  'workbookDescription',
+] as const;
+type SearchItemContent = (typeof searchItemContentKeys)[number];
+
 export type ReducedSearchContentResponse = Partial<Record<SearchItemContent, unknown>>;
 
+export const reducedSearchContentResponseSchema = z.object(
+  Object.fromEntries(searchItemContentKeys.map((key) => [key, z.unknown().optional()])),
+);
+
 export function buildOrderByString(orderBy: OrderBy): string {
   const methodsUsed = new Set<string>();
   return orderBy
@@ -114,42 +159,6 @@ export function reduceSearchContentResponse(
   return searchResults;
 }
 
-type SearchItemContent =
-  | 'caption'
-  | 'comments'
-  | 'connectedWorkbooksCount'
-  | 'connectionType'
-  | 'containerName'
-  | 'datasourceIsPublished'
-  | 'datasourceLuid'
-  | 'downstreamWorkbookCount'
-  | 'extractCreationPending'
-  | 'extractRefreshedAt'
-  | 'extractUpdatedAt'
-  | 'favoritesTotal'
-  | 'hasActiveDataQualityWarning'
-  | 'hasExtracts'
-  | 'hasSevereDataQualityWarning'
-  | 'hitsSmallSpanTotal'
-  | 'hitsTotal'
-  | 'isCertified'
-  | 'isConnectable'
-  | 'locationName'
-  | 'luid'
-  | 'modifiedTime'
-  | 'ownerId'
-  | 'ownerName'
-  | 'parentWorkbookName'
-  | 'projectId'
-  | 'projectName'
-  | 'sheetType'
-  | 'tags'
-  | 'title'
-  | 'totalViewCount'
-  | 'viewCountLastMonth'
-  | 'type'
-  | 'workbookDescription';
-
 function getReducedSearchItemContent(
   content: Record<any, any>,
 ): Partial<Record<SearchItemContent, unknown>> {
@@ -269,19 +278,24 @@ export function constrainSearchContent({
     };
   }
 
-  const { projectIds, datasourceIds, workbookIds } = boundedContext;
+  const { datasourceIds, workbookIds } = boundedContext;
 
-  if (projectIds) {
-    items = items.filter((item) => {
-      if (typeof item.projectId === 'number' && projectIds.has(item.projectId.toString())) {
-        // ⚠️ The Search API returns the project "id" (e.g. 861566)
-        // but the Project REST APIs return the project "LUID" and there is no good way to look up one from the other.
-        // Admins who want to use a project filter here will need to provide both the id and LUID in their bounded context.
-        return true;
-      }
-
-      return false;
-    });
+  if (hasContentRules(boundedContext)) {
+    items = items.filter(
+      (item) =>
+        // ⚠️ The Search API returns the project and owner "id" (e.g. 861566)
+        // but the REST APIs return their "LUID" and there is no good way to look up one from the other.
+        // Admins who want to use a project or owner filter here will need to provide both the id and LUID in their bounded context.
+        // Child projects are only found by their LUID, so they need to be listed by their id as well.
+        !getContentExclusionReason(boundedContext, {
+          projectId: typeof item.projectId === 'number' ? item.projectId.toString() : undefined,
+          ownerId: typeof item.ownerId === 'number' ? item.ownerId.toString() : undefined,
+          tags: Array.isArray(item.tags)
+            ? item.tags.filter((tag): tag is string => typeof tag === 'string')
+            : [],
+          ...(item.type === 'datasource' && { isCertified: item.isCertified === true }),
+        }),
+    );
   }
 
   if (datasourceIds) {
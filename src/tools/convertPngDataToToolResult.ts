@@ -1,7 +1,15 @@
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+// The image itself is returned as image content, so the structured content only describes it.
+export const viewImageResultSchema = z.object({
+  mimeType: z.literal('image/png'),
+  sizeInBytes: z.number().int(),
+});
 
 export function convertPngDataToToolResult(pngData: string): CallToolResult {
-  const base64Data = Buffer.from(pngData).toString('base64');
+  const buffer = Buffer.from(pngData);
+  const base64Data = buffer.toString('base64');
 
   return {
     isError: false,
@@ -12,5 +20,11 @@ export function convertPngDataToToolResult(pngData: string): CallToolResult {
         mimeType: 'image/png',
       },
     ],
+    structuredContent: {
+      result: {
+        mimeType: 'image/png',
+        sizeInBytes: buffer.length,
+      },
+    },
   };
 }
@@ -1,10 +1,11 @@
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { Err, Ok } from 'ts-results-es';
+import { Err, Ok, Result } from 'ts-results-es';
 import { z } from 'zod';
 
 import { getConfig } from '../../config.js';
 import { useRestApi } from '../../restApiInstance.js';
 import { GraphQLResponse } from '../../sdks/tableau/apis/metadataApi.js';
+import { RestApi } from '../../sdks/tableau/restApi.js';
 import { Server } from '../../server.js';
 import { getTableauAuthInfo } from '../../server/oauth/getTableauAuthInfo.js';
 import { getVizqlDataServiceDisabledError } from '../getVizqlDataServiceDisabledError.js';
@@ -14,6 +15,7 @@ import { validateDatasourceLuid } from '../validateDatasourceLuid.js';
 import {
   combineFields,
   FieldsResult,
+  fieldsResultSchema,
   simplifyReadMetadataResult,
 } from './datasourceMetadataUtils.js';
 
@@ -86,16 +88,16 @@ const paramsSchema = {
 
 export type GetDatasourceMetadataError =
   | {
-    type: 'feature-disabled';
-  }
+      type: 'feature-disabled';
+    }
   | {
-    type: 'datasource-not-allowed';
-    message: string;
-  }
+      type: 'datasource-not-allowed';
+      message: string;
+    }
   | {
-    type: 'tableau-error';
-    error: unknown;
-  };
+      type: 'tableau-error';
+      error: unknown;
+    };
 
 export const getGetDatasourceMetadataTool = (server: Server): Tool<typeof paramsSchema> => {
   const getDatasourceMetadataTool = new Tool({
@@ -108,6 +110,7 @@ export const getGetDatasourceMetadataTool = (server: Server): Tool<typeof params
     This tool should be used for getting the metadata to ground the use of a tool that queries Tableau published data sources.
     `,
     paramsSchema,
+    resultSchema: fieldsResultSchema,
     annotations: {
       title: 'Get Datasource Metadata',
       readOnlyHint: true,
@@ -119,7 +122,6 @@ export const getGetDatasourceMetadataTool = (server: Server): Tool<typeof params
       { requestId, authInfo, signal },
     ): Promise<CallToolResult> => {
       const config = getConfig();
-      const query = getGraphqlQuery(datasourceLuid);
 
       return await getDatasourceMetadataTool.logAndExecute<
         FieldsResult,
@@ -127,6 +129,7 @@ export const getGetDatasourceMetadataTool = (server: Server): Tool<typeof params
       >({
         requestId,
         authInfo,
+        signal,
         args: { datasourceLuid },
         callback: async () => {
           const isDatasourceAllowedResult = await resourceAccessChecker.isDatasourceAllowed({
@@ -148,36 +151,12 @@ export const getGetDatasourceMetadataTool = (server: Server): Tool<typeof params
             jwtScopes: ['tableau:content:read', 'tableau:viz_data_service:read'],
             signal,
             authInfo: getTableauAuthInfo(authInfo),
-            callback: async (restApi) => {
-              // Fetching metadata from VizQL Data Service API.
-              const readMetadataResult = await restApi.vizqlDataServiceMethods.readMetadata({
-                datasource: {
-                  datasourceLuid,
-                },
-              });
-
-              if (readMetadataResult.isErr()) {
-                return Err({ type: 'tableau-error', error: readMetadataResult.error });
-              }
-
-              if (config.disableMetadataApiRequests) {
-                // Exit early since requests to the Tableau Metadata API are disabled.
-                return Ok(simplifyReadMetadataResult(readMetadataResult.value));
-              }
-
-              let listFieldsResult: GraphQLResponse;
-
-              try {
-                // Fetching metadata from Tableau Metadata API.
-                // Using try-catch here since requests could fail if the service is not enabled.
-                listFieldsResult = await restApi.metadataMethods.graphql(query);
-              } catch {
-                return Ok(simplifyReadMetadataResult(readMetadataResult.value));
-              }
-
-              // Combine the results from the VizQL Data Service API and the Tableau Metadata API.
-              return Ok(combineFields(readMetadataResult.value, listFieldsResult));
-            },
+            callback: async (restApi) =>
+              await getDatasourceFields({
+                restApi,
+                datasourceLuid,
+                disableMetadataApiRequests: config.disableMetadataApiRequests,
+              }),
           });
         },
         constrainSuccessResult: (fields) => {
@@ -202,3 +181,46 @@ export const getGetDatasourceMetadataTool = (server: Server): Tool<typeof params
 
   return getDatasourceMetadataTool;
 };
+
+/**
+ * Gets the fields and parameters of a datasource from VizQL Data Service,
+ * enriched with the field info from the Metadata API unless requests to it are disabled.
+ */
+export async function getDatasourceFields({
+  restApi,
+  datasourceLuid,
+  disableMetadataApiRequests,
+}: {
+  restApi: RestApi;
+  datasourceLuid: string;
+  disableMetadataApiRequests: boolean;
+}): Promise<Result<FieldsResult, GetDatasourceMetadataError>> {
+  // Fetching metadata from VizQL Data Service API.
+  const readMetadataResult = await restApi.vizqlDataServiceMethods.readMetadata({
+    datasource: {
+      datasourceLuid,
+    },
+  });
+
+  if (readMetadataResult.isErr()) {
+    return Err({ type: 'tableau-error', error: readMetadataResult.error });
+  }
+
+  if (disableMetadataApiRequests) {
+    // Exit early since requests to the Tableau Metadata API are disabled.
+    return Ok(simplifyReadMetadataResult(readMetadataResult.value));
+  }
+
+  let listFieldsResult: GraphQLResponse;
+
+  try {
+    // Fetching metadata from Tableau Metadata API.
+    // Using try-catch here since requests could fail if the service is not enabled.
+    listFieldsResult = await restApi.metadataMethods.graphql(getGraphqlQuery(datasourceLuid));
+  } catch {
+    return Ok(simplifyReadMetadataResult(readMetadataResult.value));
+  }
+
+  // Combine the results from the VizQL Data Service API and the Tableau Metadata API.
+  return Ok(combineFields(readMetadataResult.value, listFieldsResult));
+}
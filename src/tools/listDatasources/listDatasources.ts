@@ -4,11 +4,17 @@ import { z } from 'zod';
 
 import { BoundedContext, getConfig } from '../../config.js';
 import { useRestApi } from '../../restApiInstance.js';
-import { DataSource } from '../../sdks/tableau/types/dataSource.js';
+import { DataSource, dataSourceSchema } from '../../sdks/tableau/types/dataSource.js';
 import { Server } from '../../server.js';
 import { getTableauAuthInfo } from '../../server/oauth/getTableauAuthInfo.js';
 import { paginate } from '../../utils/paginate.js';
+import {
+  getContentExclusionReason,
+  getTagLabels,
+  hasContentRules,
+} from '../boundedContextRules.js';
 import { genericFilterDescription } from '../genericFilterDescription.js';
+import { resourceAccessChecker } from '../resourceAccessChecker.js';
 import { ConstrainedResult, Tool } from '../tool.js';
 import { parseAndValidateDatasourcesFilterString } from './datasourcesFilterUtils.js';
 
@@ -73,6 +79,7 @@ export const getListDatasourcesTool = (server: Server): Tool<typeof paramsSchema
       filter: "name:eq:Project Views,projectName:eq:Finance,createdAt:gt:2023-01-01T00:00:00Z"
   `,
     paramsSchema,
+    resultSchema: z.array(dataSourceSchema),
     annotations: {
       title: 'List Datasources',
       readOnlyHint: true,
@@ -80,15 +87,17 @@ export const getListDatasourcesTool = (server: Server): Tool<typeof paramsSchema
     },
     callback: async (
       { filter, pageSize, limit },
-      { requestId, authInfo, signal },
+      { requestId, authInfo, signal, _meta, sendNotification },
     ): Promise<CallToolResult> => {
       const config = getConfig();
       const validatedFilter = filter ? parseAndValidateDatasourcesFilterString(filter) : undefined;
       return await listDatasourcesTool.logAndExecute({
         requestId,
         authInfo,
+        signal,
+        requestExtra: { _meta, sendNotification },
         args: { filter, pageSize, limit },
-        callback: async () => {
+        callback: async (reportProgress) => {
           const datasources = await useRestApi({
             config,
             requestId,
@@ -96,6 +105,7 @@ export const getListDatasourcesTool = (server: Server): Tool<typeof paramsSchema
             jwtScopes: ['tableau:content:read'],
             signal,
             authInfo: getTableauAuthInfo(authInfo),
+            reportProgress,
             callback: async (restApi) => {
               const maxResultLimit = config.getMaxResultLimit(listDatasourcesTool.name);
               const datasources = await paginate({
@@ -105,6 +115,7 @@ export const getListDatasourcesTool = (server: Server): Tool<typeof paramsSchema
                     ? Math.min(maxResultLimit, limit ?? Number.MAX_SAFE_INTEGER)
                     : limit,
                 },
+                reportProgress,
                 getDataFn: async (pageConfig) => {
                   const { pagination, datasources: data } =
                     await restApi.datasourcesMethods.listDatasources({
@@ -124,8 +135,16 @@ export const getListDatasourcesTool = (server: Server): Tool<typeof paramsSchema
 
           return new Ok(datasources);
         },
-        constrainSuccessResult: (datasources) =>
-          constrainDatasources({ datasources, boundedContext: config.boundedContext }),
+        constrainSuccessResult: async (datasources) =>
+          constrainDatasources({
+            datasources,
+            boundedContext: await resourceAccessChecker.getBoundedContext({
+              config,
+              requestId,
+              server,
+              signal,
+            }),
+          }),
       });
     },
   });
@@ -148,9 +167,17 @@ export function constrainDatasources({
     };
   }
 
-  const { projectIds, datasourceIds } = boundedContext;
-  if (projectIds) {
-    datasources = datasources.filter((datasource) => projectIds.has(datasource.project.id));
+  const { datasourceIds } = boundedContext;
+  if (hasContentRules(boundedContext)) {
+    datasources = datasources.filter(
+      (datasource) =>
+        !getContentExclusionReason(boundedContext, {
+          projectId: datasource.project.id,
+          ownerId: datasource.owner?.id,
+          tags: getTagLabels(datasource.tags),
+          isCertified: datasource.isCertified ?? false,
+        }),
+    );
   }
 
   if (datasourceIds) {
@@ -7,6 +7,7 @@ import { PulseDisabledError } from '../../../sdks/tableau/methods/pulseMethods.j
 import {
   pulseInsightBriefRequestSchema,
   PulseInsightBriefResponse,
+  pulseInsightBriefResponseSchema,
 } from '../../../sdks/tableau/types/pulse.js';
 import { Server } from '../../../server.js';
 import { getTableauAuthInfo } from '../../../server/oauth/getTableauAuthInfo.js';
@@ -187,6 +188,7 @@ An insight brief is an AI-generated response to questions about Pulse metrics. I
 - **Multi-metric analysis** - Ask questions across multiple metrics at once
 `,
     paramsSchema,
+    resultSchema: pulseInsightBriefResponseSchema,
     annotations: {
       title: 'Generate Pulse Insight Brief',
       readOnlyHint: true,
@@ -194,7 +196,7 @@ An insight brief is an AI-generated response to questions about Pulse metrics. I
     },
     callback: async (
       { briefRequest },
-      { requestId, authInfo, signal },
+      { requestId, authInfo, signal, _meta, sendNotification },
     ): Promise<CallToolResult> => {
       const config = getConfig();
       return await generatePulseInsightBriefTool.logAndExecute<
@@ -203,8 +205,10 @@ An insight brief is an AI-generated response to questions about Pulse metrics. I
       >({
         requestId,
         authInfo,
+        signal,
+        requestExtra: { _meta, sendNotification },
         args: { briefRequest },
-        callback: async () => {
+        callback: async (reportProgress) => {
           // Filter out metrics that are not in the allowed datasource set
           const { datasourceIds } = config.boundedContext;
           if (datasourceIds) {
@@ -236,8 +240,11 @@ An insight brief is an AI-generated response to questions about Pulse metrics. I
             jwtScopes: ['tableau:insight_brief:create'],
             signal,
             authInfo: getTableauAuthInfo(authInfo),
-            callback: async (restApi) =>
-              await restApi.pulseMethods.generatePulseInsightBrief(briefRequest),
+            reportProgress,
+            callback: async (restApi) => {
+              await reportProgress('Generating the Pulse insight brief');
+              return await restApi.pulseMethods.generatePulseInsightBrief(briefRequest);
+            },
           });
 
           if (result.isErr()) {
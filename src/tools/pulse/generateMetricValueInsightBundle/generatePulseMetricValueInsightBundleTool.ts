@@ -8,6 +8,7 @@ import { PulseDisabledError } from '../../../sdks/tableau/methods/pulseMethods.j
 import {
   pulseBundleRequestSchema,
   PulseBundleResponse,
+  pulseBundleResponseSchema,
   pulseInsightBundleTypeEnum,
 } from '../../../sdks/tableau/types/pulse.js';
 import { Server } from '../../../server.js';
@@ -145,6 +146,7 @@ Generate an insight bundle for the current aggregated value for Pulse Metric usi
     bundleRequest: (See default example above)
 `,
     paramsSchema,
+    resultSchema: pulseBundleResponseSchema,
     annotations: {
       title: 'Generate Pulse Metric Value Insight Bundle',
       readOnlyHint: true,
@@ -152,7 +154,7 @@ Generate an insight bundle for the current aggregated value for Pulse Metric usi
     },
     callback: async (
       { bundleRequest, bundleType },
-      { requestId, authInfo, signal },
+      { requestId, authInfo, signal, _meta, sendNotification },
     ): Promise<CallToolResult> => {
       const config = getConfig();
       return await generatePulseMetricValueInsightBundleTool.logAndExecute<
@@ -161,8 +163,10 @@ Generate an insight bundle for the current aggregated value for Pulse Metric usi
       >({
         requestId,
         authInfo,
+        signal,
+        requestExtra: { _meta, sendNotification },
         args: { bundleRequest, bundleType },
-        callback: async () => {
+        callback: async (reportProgress) => {
           const { datasourceIds } = config.boundedContext;
           if (datasourceIds) {
             const datasourceLuid =
@@ -187,11 +191,14 @@ Generate an insight bundle for the current aggregated value for Pulse Metric usi
             jwtScopes: ['tableau:insights:read'],
             signal,
             authInfo: getTableauAuthInfo(authInfo),
-            callback: async (restApi) =>
-              await restApi.pulseMethods.generatePulseMetricValueInsightBundle(
+            reportProgress,
+            callback: async (restApi) => {
+              await reportProgress('Generating the Pulse insight bundle');
+              return await restApi.pulseMethods.generatePulseMetricValueInsightBundle(
                 bundleRequest,
                 bundleType ?? 'ban',
-              ),
+              );
+            },
           });
 
           if (result.isErr()) {
@@ -6,6 +6,7 @@ import { getConfig } from '../../../config.js';
 import { useRestApi } from '../../../restApiInstance.js';
 import {
   PulseMetricDefinition,
+  pulseMetricDefinitionSchema,
   pulseMetricDefinitionViewEnum,
 } from '../../../sdks/tableau/types/pulse.js';
 import { Server } from '../../../server.js';
@@ -52,6 +53,7 @@ Retrieves a list of all published Pulse Metric Definitions using the Tableau RES
     In the response you will only get up to 5 metrics, so if you want to see more you need to retrieve all the Pulse Metrics from another tool.
 `,
     paramsSchema,
+    resultSchema: z.array(pulseMetricDefinitionSchema),
     annotations: {
       title: 'List All Pulse Metric Definitions',
       readOnlyHint: true,
@@ -59,14 +61,16 @@ Retrieves a list of all published Pulse Metric Definitions using the Tableau RES
     },
     callback: async (
       { view, limit, pageSize },
-      { requestId, authInfo, signal },
+      { requestId, authInfo, signal, _meta, sendNotification },
     ): Promise<CallToolResult> => {
       const config = getConfig();
       return await listAllPulseMetricDefinitionsTool.logAndExecute({
         requestId,
         authInfo,
+        signal,
+        requestExtra: { _meta, sendNotification },
         args: { view, limit, pageSize },
-        callback: async () => {
+        callback: async (reportProgress) => {
           return await useRestApi({
             config,
             requestId,
@@ -74,6 +78,7 @@ Retrieves a list of all published Pulse Metric Definitions using the Tableau RES
             jwtScopes: ['tableau:insight_definitions_metrics:read'],
             signal,
             authInfo: getTableauAuthInfo(authInfo),
+            reportProgress,
             callback: async (restApi) => {
               const maxResultLimit = config.getMaxResultLimit(
                 listAllPulseMetricDefinitionsTool.name,
@@ -85,6 +90,7 @@ Retrieves a list of all published Pulse Metric Definitions using the Tableau RES
                     : limit,
                   pageSize,
                 },
+                reportProgress,
                 getDataFn: async (pageToken, pageSize) => {
                   const apiResult = await restApi.pulseMethods.listAllPulseMetricDefinitions(
                     view,
@@ -3,7 +3,10 @@ import { z } from 'zod';
 
 import { getConfig } from '../../../config.js';
 import { useRestApi } from '../../../restApiInstance.js';
-import { pulseMetricDefinitionViewEnum } from '../../../sdks/tableau/types/pulse.js';
+import {
+  pulseMetricDefinitionSchema,
+  pulseMetricDefinitionViewEnum,
+} from '../../../sdks/tableau/types/pulse.js';
 import { Server } from '../../../server.js';
 import { getTableauAuthInfo } from '../../../server/oauth/getTableauAuthInfo.js';
 import { Tool } from '../../tool.js';
@@ -52,6 +55,7 @@ Retrieves a list of specific Pulse Metric Definitions using the Tableau REST API
     In the response you will only get up to 5 metrics, so if you want to see more you need to retrieve all the Pulse Metrics from another tool.
 `,
     paramsSchema,
+    resultSchema: z.array(pulseMetricDefinitionSchema),
     annotations: {
       title: 'List Pulse Metric Definitions from Metric Definition IDs',
       readOnlyHint: true,
@@ -65,6 +69,7 @@ Retrieves a list of specific Pulse Metric Definitions using the Tableau REST API
       return await listPulseMetricDefinitionsFromDefinitionIdsTool.logAndExecute({
         requestId,
         authInfo,
+        signal,
         args: { metricDefinitionIds, view },
         callback: async () => {
           return await useRestApi({
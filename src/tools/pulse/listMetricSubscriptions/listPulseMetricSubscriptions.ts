@@ -1,8 +1,12 @@
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
 
 import { BoundedContext, getConfig } from '../../../config.js';
 import { useRestApi } from '../../../restApiInstance.js';
-import { PulseMetricSubscription } from '../../../sdks/tableau/types/pulse.js';
+import {
+  PulseMetricSubscription,
+  pulseMetricSubscriptionSchema,
+} from '../../../sdks/tableau/types/pulse.js';
 import { Server } from '../../../server.js';
 import { getTableauAuthInfo } from '../../../server/oauth/getTableauAuthInfo.js';
 import { getExceptionMessage } from '../../../utils/getExceptionMessage.js';
@@ -29,6 +33,7 @@ Retrieves a list of published Pulse Metric Subscriptions for the current user us
   2. Retrieve Pulse Metric Definitions from the metric definition id returned in the Pulse Metrics.
 `,
     paramsSchema,
+    resultSchema: z.array(pulseMetricSubscriptionSchema),
     annotations: {
       title: 'List Pulse Metric Subscriptions for Current User',
       readOnlyHint: true,
@@ -39,6 +44,7 @@ Retrieves a list of published Pulse Metric Subscriptions for the current user us
       return await listPulseMetricSubscriptionsTool.logAndExecute({
         requestId,
         authInfo,
+        signal,
         args: {},
         callback: async () => {
           return await useRestApi({
@@ -4,7 +4,7 @@ import { z } from 'zod';
 import { getConfig } from '../../../config.js';
 import { useRestApi } from '../../../restApiInstance.js';
 import { PulseDisabledError } from '../../../sdks/tableau/methods/pulseMethods.js';
-import { PulseMetric } from '../../../sdks/tableau/types/pulse.js';
+import { PulseMetric, pulseMetricSchema } from '../../../sdks/tableau/types/pulse.js';
 import { Server } from '../../../server.js';
 import { getTableauAuthInfo } from '../../../server/oauth/getTableauAuthInfo.js';
 import { Tool } from '../../tool.js';
@@ -31,6 +31,7 @@ Retrieves a list of published Pulse Metrics from a Pulse Metric Definition using
 - List all Pulse Metrics for this Pulse Metric Definition
 `,
     paramsSchema,
+    resultSchema: z.array(pulseMetricSchema),
     annotations: {
       title: 'List Pulse Metrics from Metric Definition ID',
       readOnlyHint: true,
@@ -47,6 +48,7 @@ Retrieves a list of published Pulse Metrics from a Pulse Metric Definition using
       >({
         requestId,
         authInfo,
+        signal,
         args: { pulseMetricDefinitionID },
         callback: async () => {
           return await useRestApi({
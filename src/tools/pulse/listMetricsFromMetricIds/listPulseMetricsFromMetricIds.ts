@@ -3,6 +3,7 @@ import { z } from 'zod';
 
 import { getConfig } from '../../../config.js';
 import { useRestApi } from '../../../restApiInstance.js';
+import { pulseMetricSchema } from '../../../sdks/tableau/types/pulse.js';
 import { Server } from '../../../server.js';
 import { getTableauAuthInfo } from '../../../server/oauth/getTableauAuthInfo.js';
 import { Tool } from '../../tool.js';
@@ -33,6 +34,7 @@ Retrieves a list of published Pulse Metrics from a list of metric IDs using the
 - If you need a valid datasource id, you may need to retrieve the Pulse Metric Definition for the Pulse Metric which should have a valid datasource information.
 `,
     paramsSchema,
+    resultSchema: z.array(pulseMetricSchema),
     annotations: {
       title: 'List Pulse Metrics from Metric IDs',
       readOnlyHint: true,
@@ -43,6 +45,7 @@ Retrieves a list of published Pulse Metrics from a list of metric IDs using the
       return await listPulseMetricsFromMetricIdsTool.logAndExecute({
         requestId,
         authInfo,
+        signal,
         args: { metricIds },
         callback: async () => {
           return await useRestApi({
@@ -0,0 +1,111 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { Err, Ok } from 'ts-results-es';
+import { z } from 'zod';
+
+import { getConfig } from '../../config.js';
+import { Server } from '../../server.js';
+import { getTableauAuthInfo } from '../../server/oauth/getTableauAuthInfo.js';
+import { getUserIdentity } from '../../utils/getUserIdentity.js';
+import { resourceAccessChecker } from '../resourceAccessChecker.js';
+import { Tool } from '../tool.js';
+import {
+  getQueryCursor,
+  getQueryOutputPage,
+  QueryCursor,
+  QueryOutputPage,
+  queryOutputPageSchema,
+} from './queryCursors.js';
+import { getQueryOutputTabularResult, getQueryOutputToolResult } from './queryOutputFormatter.js';
+
+const paramsSchema = {
+  cursor: z.string().nonempty(),
+};
+
+export type FetchQueryPageError =
+  | {
+      type: 'cursor-not-found';
+      message: string;
+    }
+  | {
+      type: 'datasource-not-allowed';
+      message: string;
+    };
+
+export const getFetchQueryPageTool = (server: Server): Tool<typeof paramsSchema> => {
+  const fetchQueryPageTool = new Tool({
+    server,
+    name: 'fetch-query-page',
+    description: `
+Retrieves the next page of rows of a query-datasource result, without running the query again.
+Pass the \`nextCursor\` returned by query-datasource when it was called with a \`pageSize\`, or by a previous call to this tool.
+The page has the same format and columns as the first one, and includes a new \`nextCursor\` until the last page is reached.
+Cursors expire after a while, after which the query must be run again.`,
+    paramsSchema,
+    resultSchema: queryOutputPageSchema,
+    annotations: {
+      title: 'Fetch Query Page',
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
+    callback: async ({ cursor }, { requestId, authInfo, signal }): Promise<CallToolResult> => {
+      const config = getConfig();
+      let queryCursor: QueryCursor | undefined;
+
+      return await fetchQueryPageTool.logAndExecute<QueryOutputPage, FetchQueryPageError>({
+        requestId,
+        authInfo,
+        signal,
+        args: { cursor },
+        callback: async () => {
+          queryCursor = getQueryCursor(
+            cursor,
+            getUserIdentity(config, getTableauAuthInfo(authInfo)),
+          );
+          if (!queryCursor) {
+            return new Err({
+              type: 'cursor-not-found',
+              message: `The cursor "${cursor}" does not exist or has expired. Run the query again with query-datasource.`,
+            });
+          }
+
+          // Access to the datasource may have been revoked since the query was run.
+          const isDatasourceAllowedResult = await resourceAccessChecker.isDatasourceAllowed({
+            datasourceLuid: queryCursor.datasourceLuid,
+            restApiArgs: { config, requestId, server, signal },
+          });
+
+          if (!isDatasourceAllowedResult.allowed) {
+            return new Err({
+              type: 'datasource-not-allowed',
+              message: isDatasourceAllowedResult.message,
+            });
+          }
+
+          return new Ok(getQueryOutputPage(queryCursor));
+        },
+        constrainSuccessResult: (queryOutputPage) => {
+          return {
+            type: 'success',
+            result: queryOutputPage,
+          };
+        },
+        tabularResult: getQueryOutputTabularResult(() => queryCursor?.columns),
+        getSuccessResult: (queryOutputPage: QueryOutputPage): CallToolResult =>
+          getQueryOutputToolResult(
+            queryOutputPage,
+            queryCursor?.format ?? 'OBJECTS',
+            queryCursor?.columns,
+          ),
+        getErrorText: (error: FetchQueryPageError) => {
+          switch (error.type) {
+            case 'cursor-not-found':
+            case 'datasource-not-allowed':
+              return error.message;
+          }
+        },
+      });
+    },
+  });
+
+  return fetchQueryPageTool;
+};
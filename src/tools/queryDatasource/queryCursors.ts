@@ -0,0 +1,117 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+
+import { getConfig } from '../../config.js';
+import { QueryOutput, queryOutputSchema } from '../../sdks/tableau/apis/vizqlDataServiceApi.js';
+import { ExpiringMap } from '../../utils/expiringMap.js';
+import { QueryColumn, QueryOutputFormat } from './queryOutputFormatter.js';
+
+export const queryOutputPageSchema = queryOutputSchema.extend({
+  nextCursor: z
+    .string()
+    .optional()
+    .describe('The cursor to pass to the fetch-query-page tool to get the next page of rows'),
+  cachedAt: z
+    .string()
+    .optional()
+    .describe(
+      'Set when the result was served from the query result cache, to the time the query was run',
+    ),
+});
+
+export type QueryOutputPage = z.infer<typeof queryOutputPageSchema>;
+
+/**
+ * The position of a page in the full result of a query, which is kept on the server
+ * so the following pages can be returned without running the query again.
+ */
+export type QueryCursor = {
+  // The user who ran the query, see getUserIdentity
+  userIdentity: string;
+
+  // The datasource that was queried
+  datasourceLuid: string;
+
+  // The format and columns the query was returned with, which every page keeps
+  format: QueryOutputFormat;
+  columns: Array<QueryColumn> | undefined;
+
+  // The full result of the query
+  queryOutput: QueryOutput;
+
+  // The number of rows in each page
+  pageSize: number;
+
+  // The index of the first row of the page
+  start: number;
+};
+
+let queryCursors: ExpiringMap<string, QueryCursor> | undefined;
+
+function getQueryCursors(): ExpiringMap<string, QueryCursor> {
+  if (!queryCursors) {
+    queryCursors = new ExpiringMap<string, QueryCursor>({
+      defaultExpirationTimeMs: getConfig().queryCursorTimeoutMs,
+    });
+  }
+
+  return queryCursors;
+}
+
+/**
+ * Gets the page of a query result the cursor points to.
+ * If rows remain after the page, a cursor to the next page is saved and returned with it.
+ */
+export function getQueryOutputPage(cursor: QueryCursor): QueryOutputPage {
+  const { queryOutput, pageSize, start } = cursor;
+  const data = queryOutput.data ?? [];
+  const end = start + pageSize;
+  const page: QueryOutputPage = { ...queryOutput, data: data.slice(start, end) };
+
+  if (end < data.length) {
+    const nextCursor = randomUUID();
+    saveQueryCursor(nextCursor, { ...cursor, start: end });
+    page.nextCursor = nextCursor;
+  }
+
+  return page;
+}
+
+// Every cursor keeps a full query result, so the oldest cursors of the user, and then of every user,
+// are evicted once QUERY_CURSOR_MAX_ENTRIES_PER_USER or QUERY_CURSOR_MAX_ENTRIES is reached.
+function saveQueryCursor(cursorId: string, cursor: QueryCursor): void {
+  const cursors = getQueryCursors();
+  const { queryCursorMaxEntries, queryCursorMaxEntriesPerUser } = getConfig();
+
+  // Entries are kept in insertion order, so the first ones are the oldest.
+  const userCursorIds = [...cursors.entries()]
+    .filter(([, { userIdentity }]) => userIdentity === cursor.userIdentity)
+    .map(([userCursorId]) => userCursorId);
+  const excessCount = userCursorIds.length - queryCursorMaxEntriesPerUser + 1;
+  for (const userCursorId of userCursorIds.slice(0, Math.max(excessCount, 0))) {
+    cursors.delete(userCursorId);
+  }
+
+  while (cursors.size >= queryCursorMaxEntries) {
+    const oldestCursorId = cursors.keys().next().value;
+    if (oldestCursorId === undefined) {
+      break;
+    }
+
+    cursors.delete(oldestCursorId);
+  }
+
+  cursors.set(cursorId, cursor);
+}
+
+/**
+ * Gets a saved cursor. Cursors of queries run by other users are never returned.
+ */
+export function getQueryCursor(cursorId: string, userIdentity: string): QueryCursor | undefined {
+  const cursor = getQueryCursors().get(cursorId);
+  if (!cursor || cursor.userIdentity !== userIdentity) {
+    return;
+  }
+
+  return cursor;
+}
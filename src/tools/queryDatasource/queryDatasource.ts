@@ -1,29 +1,49 @@
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { ZodiosError } from '@zodios/core';
-import { Err } from 'ts-results-es';
+import { Err, Ok, Result } from 'ts-results-es';
 import { z } from 'zod';
 
-import { getConfig } from '../../config.js';
+import { applyColumnPoliciesToQueryOutput } from '../../columnPolicies/columnPolicies.js';
+import { Config, getConfig } from '../../config.js';
+import { recordCacheLookup } from '../../metrics.js';
 import { useRestApi } from '../../restApiInstance.js';
 import {
   Datasource,
   QueryOutput,
+  QueryRequest,
   querySchema,
   TableauError,
 } from '../../sdks/tableau/apis/vizqlDataServiceApi.js';
+import { RestApi } from '../../sdks/tableau/restApi.js';
 import { Server } from '../../server.js';
 import { getTableauAuthInfo } from '../../server/oauth/getTableauAuthInfo.js';
 import { TableauAuthInfo } from '../../server/oauth/schemas.js';
+import { getTelemetryProvider } from '../../telemetry/init.js';
+import { getUserIdentity } from '../../utils/getUserIdentity.js';
 import { getResultForTableauVersion } from '../../utils/isTableauVersionAtLeast.js';
+import { ProgressReporter } from '../../utils/progressReporter.js';
 import { Provider } from '../../utils/provider.js';
 import { getVizqlDataServiceDisabledError } from '../getVizqlDataServiceDisabledError.js';
 import { resourceAccessChecker } from '../resourceAccessChecker.js';
 import { Tool } from '../tool.js';
 import { getDatasourceCredentials } from './datasourceCredentials.js';
+import { getQueryOutputPage, QueryOutputPage, queryOutputPageSchema } from './queryCursors.js';
 import { handleQueryDatasourceError } from './queryDatasourceErrorHandler.js';
 import { validateQuery } from './queryDatasourceValidator.js';
 import { queryDatasourceToolDescription20253 } from './queryDescription.2025.3.js';
 import { queryDatasourceToolDescription } from './queryDescription.js';
+import {
+  getQueryColumns,
+  getQueryOutputTabularResult,
+  getQueryOutputToolResult,
+  QueryColumn,
+  queryOutputFormatSchema,
+} from './queryOutputFormatter.js';
+import {
+  cacheQueryOutput,
+  getCachedQueryOutput,
+  getQueryResultCacheKey,
+} from './queryResultCache.js';
 import { validateFilterValues } from './validators/validateFilterValues.js';
 import { validateQueryAgainstDatasourceMetadata } from './validators/validateQueryAgainstDatasourceMetadata.js';
 
@@ -31,6 +51,8 @@ const paramsSchema = {
   datasourceLuid: z.string().nonempty(),
   query: querySchema,
   limit: z.number().int().min(1).optional(),
+  format: queryOutputFormatSchema.optional(),
+  pageSize: z.number().int().min(1).optional(),
 };
 
 export type QueryDatasourceError =
@@ -54,15 +76,13 @@ export const getQueryDatasourceTool = (
   server: Server,
   authInfo?: TableauAuthInfo,
 ): Tool<typeof paramsSchema> => {
-  const config = getConfig();
-
   const queryDatasourceTool = new Tool({
     server,
     name: 'query-datasource',
     description: new Provider(
       async () =>
         await getResultForTableauVersion({
-          server: config.server || authInfo?.server,
+          server: getConfig().server || authInfo?.server,
           mappings: {
             '2025.3.0': queryDatasourceToolDescription20253,
             default: queryDatasourceToolDescription,
@@ -70,6 +90,7 @@ export const getQueryDatasourceTool = (
         }),
     ),
     paramsSchema,
+    resultSchema: queryOutputPageSchema,
     annotations: {
       title: 'Query Datasource',
       readOnlyHint: true,
@@ -77,14 +98,19 @@ export const getQueryDatasourceTool = (
     },
     argsValidator: validateQuery,
     callback: async (
-      { datasourceLuid, query, limit },
-      { requestId, authInfo, signal },
+      { datasourceLuid, query, limit, format = 'OBJECTS', pageSize },
+      { requestId, authInfo, signal, _meta, sendNotification },
     ): Promise<CallToolResult> => {
-      return await queryDatasourceTool.logAndExecute<QueryOutput, QueryDatasourceError>({
+      const config = getConfig();
+      let columns: Array<QueryColumn> | undefined;
+
+      return await queryDatasourceTool.logAndExecute<QueryOutputPage, QueryDatasourceError>({
         requestId,
         authInfo,
-        args: { datasourceLuid, query },
-        callback: async () => {
+        signal,
+        requestExtra: { _meta, sendNotification },
+        args: { datasourceLuid, query, format, pageSize },
+        callback: async (reportProgress) => {
           const isDatasourceAllowedResult = await resourceAccessChecker.isDatasourceAllowed({
             datasourceLuid,
             restApiArgs: { config, requestId, server, signal },
@@ -99,12 +125,21 @@ export const getQueryDatasourceTool = (
 
           const datasource: Datasource = { datasourceLuid };
           const maxResultLimit = config.getMaxResultLimit(queryDatasourceTool.name);
-          const rowLimit = maxResultLimit
-            ? Math.min(maxResultLimit, limit ?? Number.MAX_SAFE_INTEGER)
-            : limit;
+
+          // When paging, the result limit still applies to the full result that stays on the server.
+          const rowLimit = pageSize
+            ? Math.min(
+                config.maxQueryCursorRows,
+                maxResultLimit ?? Number.MAX_SAFE_INTEGER,
+                limit ?? Number.MAX_SAFE_INTEGER,
+              )
+            : maxResultLimit
+              ? Math.min(maxResultLimit, limit ?? Number.MAX_SAFE_INTEGER)
+              : limit;
 
           const options = {
-            returnFormat: 'OBJECTS',
+            // CSV and Markdown tables are built from rows of values rather than objects that repeat every key.
+            returnFormat: format === 'OBJECTS' ? 'OBJECTS' : 'ARRAYS',
             debug: true,
             disaggregate: false,
             rowLimit,
@@ -121,6 +156,15 @@ export const getQueryDatasourceTool = (
             options,
           };
 
+          const cacheTtlMs = config.getQueryResultCacheTtlMs(datasourceLuid);
+          const cacheKey =
+            cacheTtlMs > 0
+              ? getQueryResultCacheKey(
+                  getUserIdentity(config, getTableauAuthInfo(authInfo)),
+                  queryRequest,
+                )
+              : undefined;
+
           return await useRestApi({
             config,
             requestId,
@@ -128,61 +172,79 @@ export const getQueryDatasourceTool = (
             jwtScopes: ['tableau:viz_data_service:read'],
             signal,
             authInfo: getTableauAuthInfo(authInfo),
+            reportProgress,
             callback: async (restApi) => {
-              if (!config.disableQueryDatasourceValidationRequests) {
-                // Validate query against metadata
-                const metadataValidationResult = await validateQueryAgainstDatasourceMetadata(
-                  query,
-                  restApi.vizqlDataServiceMethods,
-                  datasource,
-                );
+              let queryOutput: QueryOutput;
+              const cachedQueryOutput = cacheKey ? getCachedQueryOutput(cacheKey) : undefined;
+              if (cachedQueryOutput) {
+                // The validation requests are skipped too since the query already passed them.
+                queryOutput = {
+                  ...cachedQueryOutput.queryOutput,
+                  cachedAt: cachedQueryOutput.cachedAt.toISOString(),
+                };
+              } else {
+                const result = await executeQuery({
+                  server,
+                  restApi,
+                  config,
+                  queryRequest,
+                  reportProgress,
+                });
+                if (result.isErr()) {
+                  return result;
+                }
 
-                if (metadataValidationResult.isErr()) {
-                  const errors = metadataValidationResult.error;
-                  const errorMessage = errors.map((error) => error.message).join('\n\n');
-                  return new Err({
-                    type: 'query-validation',
-                    message: errorMessage,
-                  });
+                queryOutput = result.value;
+                if (cacheKey) {
+                  cacheQueryOutput(cacheKey, { datasourceLuid, queryOutput }, cacheTtlMs);
                 }
+              }
 
-                // Validate filters values for SET and MATCH filters
-                const filterValidationResult = await validateFilterValues(
-                  server,
-                  query,
-                  restApi.vizqlDataServiceMethods,
-                  datasource,
-                );
+              // The cache keeps the values as returned, so they are masked with the current column policies.
+              queryOutput = applyColumnPoliciesToQueryOutput(
+                resourceAccessChecker.getColumnPolicyRules(datasourceLuid),
+                query,
+                queryOutput,
+                config.columnPolicyHashSecret,
+              );
 
-                if (filterValidationResult.isErr()) {
-                  const errors = filterValidationResult.error;
-                  const errorMessage = errors.map((error) => error.message).join(', ');
-                  return new Err({
-                    type: 'query-validation',
-                    message: errorMessage,
-                  });
-                }
+              if (cacheKey) {
+                getTelemetryProvider().recordMetric(
+                  cachedQueryOutput ? 'mcp.query_cache.hits' : 'mcp.query_cache.misses',
+                  1,
+                  { datasource_luid: datasourceLuid },
+                );
+                recordCacheLookup('query_result', !!cachedQueryOutput);
               }
 
-              const result = await restApi.vizqlDataServiceMethods.queryDatasource(queryRequest);
-              if (result.isErr()) {
-                return new Err(
-                  result.error instanceof ZodiosError
-                    ? result.error
-                    : result.error === 'feature-disabled'
-                      ? { type: 'feature-disabled' }
-                      : {
-                          type: 'tableau-error',
-                          error: result.error,
-                        },
+              if (format !== 'OBJECTS') {
+                const readMetadataResult = await restApi.vizqlDataServiceMethods.readMetadata({
+                  datasource: { datasourceLuid },
+                });
+
+                // Columns whose data type cannot be determined are annotated as UNKNOWN rather than failing the query.
+                columns = getQueryColumns(
+                  query,
+                  readMetadataResult.isOk() ? readMetadataResult.value : undefined,
                 );
+                queryOutput = { ...queryOutput, columns };
               }
 
-              if (rowLimit && result.value.data && result.value.data.length > rowLimit) {
-                result.value.data.length = rowLimit;
+              if (pageSize) {
+                return new Ok(
+                  getQueryOutputPage({
+                    userIdentity: getUserIdentity(config, getTableauAuthInfo(authInfo)),
+                    datasourceLuid,
+                    format,
+                    columns,
+                    queryOutput,
+                    pageSize,
+                    start: 0,
+                  }),
+                );
               }
 
-              return result;
+              return new Ok(queryOutput);
             },
           });
         },
@@ -192,6 +254,9 @@ export const getQueryDatasourceTool = (
             result: queryOutput,
           };
         },
+        tabularResult: getQueryOutputTabularResult(() => columns),
+        getSuccessResult: (queryOutputPage: QueryOutputPage): CallToolResult =>
+          getQueryOutputToolResult(queryOutputPage, format, columns),
         getErrorText: (error: QueryDatasourceError) => {
           switch (error.type) {
             case 'feature-disabled':
@@ -217,3 +282,78 @@ export const getQueryDatasourceTool = (
 
   return queryDatasourceTool;
 };
+
+async function executeQuery({
+  server,
+  restApi,
+  config,
+  queryRequest,
+  reportProgress,
+}: {
+  server: Server;
+  restApi: RestApi;
+  config: Config;
+  queryRequest: QueryRequest;
+  reportProgress: ProgressReporter;
+}): Promise<Result<QueryOutput, QueryDatasourceError | ZodiosError>> {
+  const { datasource, query, options } = queryRequest;
+
+  if (!config.disableQueryDatasourceValidationRequests) {
+    // Validate query against metadata
+    await reportProgress('Validating the query against the datasource metadata');
+    const metadataValidationResult = await validateQueryAgainstDatasourceMetadata(
+      query,
+      restApi.vizqlDataServiceMethods,
+      datasource,
+    );
+
+    if (metadataValidationResult.isErr()) {
+      const errors = metadataValidationResult.error;
+      const errorMessage = errors.map((error) => error.message).join('\n\n');
+      return new Err({
+        type: 'query-validation',
+        message: errorMessage,
+      });
+    }
+
+    // Validate filters values for SET and MATCH filters
+    await reportProgress('Validating filter values');
+    const filterValidationResult = await validateFilterValues(
+      server,
+      query,
+      restApi.vizqlDataServiceMethods,
+      datasource,
+    );
+
+    if (filterValidationResult.isErr()) {
+      const errors = filterValidationResult.error;
+      const errorMessage = errors.map((error) => error.message).join(', ');
+      return new Err({
+        type: 'query-validation',
+        message: errorMessage,
+      });
+    }
+  }
+
+  await reportProgress('Running the query');
+  const result = await restApi.vizqlDataServiceMethods.queryDatasource(queryRequest);
+  if (result.isErr()) {
+    return new Err(
+      result.error instanceof ZodiosError
+        ? result.error
+        : result.error === 'feature-disabled'
+          ? { type: 'feature-disabled' }
+          : {
+              type: 'tableau-error',
+              error: result.error,
+            },
+    );
+  }
+
+  const rowLimit = options?.rowLimit;
+  if (rowLimit && result.value.data && result.value.data.length > rowLimit) {
+    result.value.data.length = rowLimit;
+  }
+
+  return result;
+}
@@ -1,5 +1,7 @@
 import { Query, querySchema } from '../../sdks/tableau/apis/vizqlDataServiceApi.js';
+import { resourceAccessChecker } from '../resourceAccessChecker.js';
 import { validateDatasourceLuid } from '../validateDatasourceLuid.js';
+import { validateColumnPolicies } from './validators/validateColumnPolicies.js';
 import { validateFields } from './validators/validateFields.js';
 import { validateFilters } from './validators/validateFilters.js';
 
@@ -20,4 +22,6 @@ export function validateQuery({
   if (!result.success) {
     throw new Error('The query does not match the expected schema.');
   }
+
+  validateColumnPolicies(query, resourceAccessChecker.getColumnPolicyRules(datasourceLuid));
 }
@@ -26,6 +26,8 @@ Before using this tool, you should:
 - **Use TOP filters for rankings** - When users ask for "top N" results, use TOP filter type to limit results at the database level
 - **Apply restrictive filters** - Use SET, QUANTITATIVE, or DATE filters to reduce data volume before processing
 - **Avoid row-level queries when possible** - Only retrieve individual records when specifically requested and the business need is clear
+- **Choose a compact \`format\` for wide or long results** - \`OBJECTS\` (the default) repeats every column name in every row. \`ARRAYS\` returns the columns with their data types once, followed by rows of values. \`CSV\` and \`MARKDOWN\` return the same columns and rows as a CSV document or a Markdown table, with the data type of each column in the header row. Prefer \`CSV\` for large results and \`MARKDOWN\` when the result will be shown to the user as a table
+- **Page through long results** - Set \`pageSize\` to get the rows one page at a time. The response includes a \`nextCursor\` while rows remain; pass it to the \`fetch-query-page\` tool to get the next page without running the query again. \`limit\` still caps the total number of rows
 
 ### Field Usage Guidelines
 - **Prefer existing fields** - Use fields already modeled in the data source rather than creating custom calculations
@@ -0,0 +1,176 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import {
+  DataType,
+  MetadataResponse,
+  Query,
+  QueryOutput,
+} from '../../sdks/tableau/apis/vizqlDataServiceApi.js';
+import { escapeCsvValue } from '../../utils/csv.js';
+import { TabularResult } from '../responseBudget/responseBudget.js';
+import { getTableFromRows } from '../responseBudget/resultSummary.js';
+import { QueryOutputPage } from './queryCursors.js';
+
+export const queryOutputFormatSchema = z.enum(['OBJECTS', 'ARRAYS', 'CSV', 'MARKDOWN']);
+export type QueryOutputFormat = z.infer<typeof queryOutputFormatSchema>;
+
+export type QueryColumn = {
+  name: string;
+  dataType: DataType;
+};
+
+/**
+ * Gets the columns of the result of a query, in the order VDS returns them when the return format is ARRAYS.
+ * The data type of each column is taken from the datasource metadata, adjusted for the function applied to the field.
+ */
+export function getQueryColumns(
+  query: Query,
+  datasourceMetadata: MetadataResponse | undefined,
+): Array<QueryColumn> {
+  return query.fields.map((field) => {
+    const fieldFunction = 'function' in field ? field.function : undefined;
+    const name =
+      field.fieldAlias ??
+      (fieldFunction ? `${fieldFunction}(${field.fieldCaption})` : field.fieldCaption);
+
+    if ('calculation' in field) {
+      return { name, dataType: 'UNKNOWN' };
+    }
+
+    const fieldDataType =
+      datasourceMetadata?.data?.find((f) => f.fieldCaption === field.fieldCaption)?.dataType ??
+      'UNKNOWN';
+
+    switch (fieldFunction) {
+      case 'COUNT':
+      case 'COUNTD':
+      case 'YEAR':
+      case 'QUARTER':
+      case 'MONTH':
+      case 'WEEK':
+      case 'DAY':
+        return { name, dataType: 'INTEGER' };
+      case 'AVG':
+      case 'STDEV':
+      case 'VAR':
+        return { name, dataType: 'REAL' };
+      case 'COLLECT':
+        return { name, dataType: 'SPATIAL' };
+      default:
+        return { name, dataType: fieldDataType };
+    }
+  });
+}
+
+/**
+ * Formats the output of a query that was run with the ARRAYS return format as CSV,
+ * with the data type of each column annotated in the header row.
+ */
+export function formatQueryOutputAsCsv(
+  queryOutput: QueryOutput,
+  columns: Array<QueryColumn>,
+): string {
+  const header = columns.map((column) => escapeCsvValue(getAnnotatedColumnName(column)));
+  const rows = getRows(queryOutput).map((row) => row.map((value) => escapeCsvValue(toText(value))));
+  return [header, ...rows].map((row) => row.join(',')).join('\n');
+}
+
+/**
+ * Formats the output of a query that was run with the ARRAYS return format as a Markdown table,
+ * with the data type of each column annotated in the header row.
+ */
+export function formatQueryOutputAsMarkdown(
+  queryOutput: QueryOutput,
+  columns: Array<QueryColumn>,
+): string {
+  const header = columns.map((column) => escapeMarkdownValue(getAnnotatedColumnName(column)));
+  const separator = columns.map(() => '---');
+  const rows = getRows(queryOutput).map((row) =>
+    row.map((value) => escapeMarkdownValue(toText(value))),
+  );
+  return [header, separator, ...rows].map((row) => `| ${row.join(' | ')} |`).join('\n');
+}
+
+/**
+ * Transforms the output of a query, or a page of it, into a tool result in the requested format.
+ * The columns are required for the CSV and Markdown formats; without them the output is returned as JSON.
+ */
+export function getQueryOutputToolResult(
+  queryOutputPage: QueryOutputPage,
+  format: QueryOutputFormat,
+  columns: Array<QueryColumn> | undefined,
+): CallToolResult {
+  const { nextCursor, cachedAt } = queryOutputPage;
+  let text: string;
+  if (format === 'CSV' && columns) {
+    text = formatQueryOutputAsCsv(queryOutputPage, columns);
+  } else if (format === 'MARKDOWN' && columns) {
+    text = formatQueryOutputAsMarkdown(queryOutputPage, columns);
+  } else {
+    text = JSON.stringify(queryOutputPage);
+  }
+
+  return {
+    isError: false,
+    content: [
+      { type: 'text', text },
+      ...(cachedAt && (format === 'CSV' || format === 'MARKDOWN')
+        ? [
+            {
+              type: 'text' as const,
+              text: `This result was served from the query result cache. The query was run at ${cachedAt}.`,
+            },
+          ]
+        : []),
+      ...(nextCursor
+        ? [
+            {
+              type: 'text' as const,
+              text: `More rows are available. To get the next page, call the fetch-query-page tool with the cursor "${nextCursor}".`,
+            },
+          ]
+        : []),
+    ],
+    structuredContent: { result: queryOutputPage },
+  };
+}
+
+/**
+ * Describes the rows of the output of a query so it can be truncated to the tool's response budget.
+ */
+export function getQueryOutputTabularResult(
+  getColumns: () => Array<QueryColumn> | undefined,
+): TabularResult<QueryOutputPage> {
+  return {
+    getTable: (queryOutputPage) =>
+      getTableFromRows(
+        queryOutputPage.data ?? [],
+        getColumns()?.map((column) => column.name),
+      ),
+    sliceRows: (queryOutputPage, start, end) => ({
+      ...queryOutputPage,
+      data: queryOutputPage.data?.slice(start, end),
+    }),
+  };
+}
+
+function getAnnotatedColumnName({ name, dataType }: QueryColumn): string {
+  return `${name} (${dataType})`;
+}
+
+function getRows(queryOutput: QueryOutput): Array<Array<unknown>> {
+  return (queryOutput.data ?? []).map((row) => (Array.isArray(row) ? row : [row]));
+}
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function escapeMarkdownValue(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
@@ -0,0 +1,114 @@
+import { createHash } from 'crypto';
+
+import { getConfig } from '../../config.js';
+import { Query, QueryOutput, QueryRequest } from '../../sdks/tableau/apis/vizqlDataServiceApi.js';
+import { ExpiringMap } from '../../utils/expiringMap.js';
+
+type CachedQueryOutput = {
+  datasourceLuid: string;
+  queryOutput: QueryOutput;
+  cachedAt: Date;
+};
+
+let queryResultCache: ExpiringMap<string, CachedQueryOutput> | undefined;
+
+function getQueryResultCache(): ExpiringMap<string, CachedQueryOutput> {
+  if (!queryResultCache) {
+    // Every entry is set with the TTL of its datasource, so the default is never used.
+    queryResultCache = new ExpiringMap<string, CachedQueryOutput>({
+      defaultExpirationTimeMs: 1,
+    });
+  }
+
+  return queryResultCache;
+}
+
+/**
+ * Gets the key of a query in the result cache.
+ *
+ * Fields and filters are sorted so queries that only differ in their order share a key.
+ * The order of the fields is kept for the ARRAYS return format since it determines the order of the values in each row.
+ * The key is a hash, so the datasource credentials it is derived from are not kept in memory.
+ *
+ * @param userIdentity - Identifies the user running the query, see getUserIdentity
+ * @param queryRequest - The request sent to VizQL Data Service, including the datasource credentials
+ */
+export function getQueryResultCacheKey(userIdentity: string, queryRequest: QueryRequest): string {
+  const { datasource, query, options } = queryRequest;
+  const normalizedQuery: Query = {
+    ...query,
+    fields: options?.returnFormat === 'ARRAYS' ? query.fields : sortByJson(query.fields),
+    filters: query.filters && sortByJson(query.filters),
+    parameters: query.parameters && sortByJson(query.parameters),
+  };
+
+  const key = toCanonicalJson([userIdentity, datasource, normalizedQuery, options]);
+
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function getCachedQueryOutput(key: string): CachedQueryOutput | undefined {
+  return getQueryResultCache().get(key);
+}
+
+export function cacheQueryOutput(
+  key: string,
+  { datasourceLuid, queryOutput }: Omit<CachedQueryOutput, 'cachedAt'>,
+  ttlMs: number,
+): void {
+  const cache = getQueryResultCache();
+  const { queryResultCacheMaxEntries } = getConfig();
+
+  // Entries are kept in insertion order, so the first one is the oldest.
+  while (cache.size >= queryResultCacheMaxEntries && !cache.has(key)) {
+    const oldestKey = cache.keys().next().value;
+    if (oldestKey === undefined) {
+      break;
+    }
+
+    cache.delete(oldestKey);
+  }
+
+  cache.set(key, { datasourceLuid, queryOutput, cachedAt: new Date() }, ttlMs);
+}
+
+/**
+ * Removes cached query results, either for every datasource or for a single one.
+ *
+ * @returns The number of results that were removed
+ */
+export function flushQueryResultCache(datasourceLuid?: string): number {
+  const cache = getQueryResultCache();
+  if (!datasourceLuid) {
+    const { size } = cache;
+    cache.clear();
+    return size;
+  }
+
+  let count = 0;
+  for (const [key, entry] of [...cache.entries()]) {
+    if (entry.datasourceLuid === datasourceLuid) {
+      cache.delete(key);
+      count++;
+    }
+  }
+
+  return count;
+}
+
+function sortByJson<T>(values: Array<T>): Array<T> {
+  return [...values].sort((a, b) => {
+    const aJson = toCanonicalJson(a);
+    const bJson = toCanonicalJson(b);
+    return aJson < bJson ? -1 : aJson > bJson ? 1 : 0;
+  });
+}
+
+// Serializes a value with the keys of its objects sorted, so equal values always serialize the same way.
+function toCanonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : v,
+  );
+}
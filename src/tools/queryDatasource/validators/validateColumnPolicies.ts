@@ -0,0 +1,61 @@
+import {
+  getCalculationFieldCaptions,
+  getColumnPolicyRule,
+} from '../../../columnPolicies/columnPolicies.js';
+import { ColumnPolicyRule } from '../../../columnPolicies/types.js';
+import { FilterField, Query } from '../../../sdks/tableau/apis/vizqlDataServiceApi.js';
+
+/**
+ * Rejects queries that would reveal the values the column policies protect:
+ * denied fields, calculations on protected fields, and filters on protected fields.
+ * The values of the other protected fields are masked once the query has run.
+ *
+ * @param query - The query
+ * @param rules - The column policy rules that apply to the datasource
+ */
+export function validateColumnPolicies(query: Query, rules: Array<ColumnPolicyRule>): void {
+  if (rules.length === 0) {
+    return;
+  }
+
+  for (const field of query.fields) {
+    if (getColumnPolicyRule(rules, field.fieldCaption)?.action === 'deny') {
+      throw new Error(
+        `The query must not include the field ${field.fieldCaption}, which is denied by the column policies of the server.`,
+      );
+    }
+
+    if ('calculation' in field && field.calculation) {
+      const protectedCaption = getCalculationFieldCaptions(field.calculation).find((caption) =>
+        getColumnPolicyRule(rules, caption),
+      );
+
+      if (protectedCaption) {
+        throw new Error(
+          `The calculation of the field ${field.fieldCaption} must not refer to the field ${protectedCaption}, which is protected by the column policies of the server.`,
+        );
+      }
+    }
+  }
+
+  for (const filter of query.filters ?? []) {
+    // Top N filters reveal the values of the field they are measured by too.
+    const captions = [
+      filter.field,
+      ...('fieldToMeasure' in filter ? [filter.fieldToMeasure] : []),
+    ].flatMap(getFilterFieldCaptions);
+
+    const protectedCaption = captions.find((caption) => getColumnPolicyRule(rules, caption));
+    if (protectedCaption) {
+      throw new Error(
+        `The query must not filter on the field ${protectedCaption}, which is protected by the column policies of the server.`,
+      );
+    }
+  }
+}
+
+function getFilterFieldCaptions(field: FilterField): Array<string> {
+  return 'fieldCaption' in field
+    ? [field.fieldCaption]
+    : getCalculationFieldCaptions(field.calculation);
+}
@@ -1,3 +1,4 @@
+import { ZodiosError } from '@zodios/core';
 import levenshtein from 'fast-levenshtein';
 import { Err, Ok, Result } from 'ts-results-es';
 
@@ -8,6 +9,7 @@ import {
   Query,
   QueryRequest,
   SetFilter,
+  TableauError,
 } from '../../../sdks/tableau/apis/vizqlDataServiceApi.js';
 import VizqlDataServiceMethods from '../../../sdks/tableau/methods/vizqlDataServiceMethods.js';
 import { Server } from '../../../server.js';
@@ -86,39 +88,14 @@ async function validateSetFilter(
   const fieldCaption = filter.field.fieldCaption;
   const filterValues = filter.values.map((v) => String(v));
 
-  // Query to get distinct values from the field
-  const distinctValuesQuery: Query = {
-    fields: [
-      {
-        fieldCaption: fieldCaption,
-        fieldAlias: 'DistinctValues',
-      },
-    ],
-  };
-
-  const queryRequest: QueryRequest = {
-    datasource,
-    query: distinctValuesQuery,
-    options: {
-      returnFormat: 'OBJECTS',
-      debug: true,
-      disaggregate: false,
-    },
-  };
-
-  const result = await vizqlDataServiceMethods.queryDatasource(queryRequest);
+  const result = await queryDistinctFieldValues(vizqlDataServiceMethods, datasource, fieldCaption);
 
   if (result.isErr()) {
     // If we can't query the field, let the original query proceed
     return Ok.EMPTY;
   }
 
-  const data = result.value.data || [];
-  const existingValues = new Set(
-    (data as Record<string, unknown>[]).map((row) =>
-      String(row.DistinctValues || row[fieldCaption] || ''),
-    ),
-  );
+  const existingValues = new Set(result.value);
 
   // Check which filter values don't exist in the field
   const invalidValues = filterValues.filter((value) => !existingValues.has(value));
@@ -150,6 +127,43 @@ async function validateSetFilter(
   return Ok.EMPTY;
 }
 
+/**
+ * Queries the VDS for the distinct values of a field
+ */
+export async function queryDistinctFieldValues(
+  vizqlDataServiceMethods: VizqlDataServiceMethods,
+  datasource: Datasource,
+  fieldCaption: string,
+): Promise<Result<Array<string>, 'feature-disabled' | TableauError | ZodiosError>> {
+  // Query to get distinct values from the field
+  const distinctValuesQuery: Query = {
+    fields: [
+      {
+        fieldCaption: fieldCaption,
+        fieldAlias: 'DistinctValues',
+      },
+    ],
+  };
+
+  const queryRequest: QueryRequest = {
+    datasource,
+    query: distinctValuesQuery,
+    options: {
+      returnFormat: 'OBJECTS',
+      debug: true,
+      disaggregate: false,
+    },
+  };
+
+  const result = await vizqlDataServiceMethods.queryDatasource(queryRequest);
+
+  return result.map((output) =>
+    ((output.data || []) as Record<string, unknown>[]).map((row) =>
+      String(row.DistinctValues || row[fieldCaption] || ''),
+    ),
+  );
+}
+
 /**
  * Validates a MATCH filter by checking if the pattern matches any values in the target field
  */
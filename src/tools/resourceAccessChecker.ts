@@ -1,10 +1,17 @@
 import { RequestId } from '@modelcontextprotocol/sdk/types.js';
 
-import { BoundedContext, Config, getConfig } from '../config.js';
+import { getColumnPolicyRules } from '../columnPolicies/columnPolicies.js';
+import { ColumnPolicyRule } from '../columnPolicies/types.js';
+import { BoundedContext, Config, getConfig, TEN_MINUTES_IN_MS } from '../config.js';
+import { log } from '../logging/log.js';
 import { useRestApi } from '../restApiInstance.js';
+import { View } from '../sdks/tableau/types/view.js';
 import { Workbook } from '../sdks/tableau/types/workbook.js';
 import { Server } from '../server.js';
+import { ExpiringMap } from '../utils/expiringMap.js';
 import { getExceptionMessage } from '../utils/getExceptionMessage.js';
+import { paginate } from '../utils/paginate.js';
+import { getContentExclusionReason, getTagLabels, hasContentRules } from './boundedContextRules.js';
 
 type AllowedResult<T = unknown> =
   | { allowed: true; content?: T }
@@ -17,14 +24,18 @@ export type RestApiArgs = {
   signal: AbortSignal;
 };
 
+// Results are cached per site, since the same IDs could be allowed on one site and not another.
+function getCacheKey(config: Config, id: string): string {
+  return config.site ? `${config.site}/${id}` : id;
+}
+
 class ResourceAccessChecker {
-  private _allowedProjectIds: Set<string> | null | undefined;
-  private _allowedDatasourceIds: Set<string> | null | undefined;
-  private _allowedWorkbookIds: Set<string> | null | undefined;
+  private readonly _boundedContext: BoundedContext | undefined;
 
   private readonly _cachedDatasourceIds: Map<string, AllowedResult>;
   private readonly _cachedWorkbookIds: Map<string, AllowedResult<Workbook>>;
   private readonly _cachedViewIds: Map<string, AllowedResult>;
+  private readonly _cachedChildProjectIds: ExpiringMap<string, Map<string, Array<string>>>;
 
   static create(): ResourceAccessChecker {
     return new ResourceAccessChecker();
@@ -36,38 +47,61 @@ class ResourceAccessChecker {
 
   // Optional bounded context to use for testing.
   private constructor(boundedContext?: BoundedContext) {
-    // The methods assume these sets are non-empty.
-    this._allowedProjectIds = boundedContext?.projectIds;
-    this._allowedDatasourceIds = boundedContext?.datasourceIds;
-    this._allowedWorkbookIds = boundedContext?.workbookIds;
+    // The methods assume its sets are non-empty.
+    this._boundedContext = boundedContext;
 
     this._cachedDatasourceIds = new Map();
     this._cachedWorkbookIds = new Map();
     this._cachedViewIds = new Map();
+    this._cachedChildProjectIds = new ExpiringMap({ defaultExpirationTimeMs: TEN_MINUTES_IN_MS });
   }
 
-  private get allowedProjectIds(): Set<string> | null {
-    if (this._allowedProjectIds === undefined) {
-      this._allowedProjectIds = getConfig().boundedContext.projectIds;
-    }
+  // Forgets the checks made so far, e.g. once the bounded context has been reloaded.
+  clearCache(): void {
+    this._cachedDatasourceIds.clear();
+    this._cachedWorkbookIds.clear();
+    this._cachedViewIds.clear();
+    this._cachedChildProjectIds.clear();
+  }
 
-    return this._allowedProjectIds;
+  private get boundedContext(): BoundedContext {
+    // The bounded context is read for every check since it depends on the site the tool call was made for.
+    return this._boundedContext ?? getConfig().boundedContext;
   }
 
-  private get allowedDatasourceIds(): Set<string> | null {
-    if (this._allowedDatasourceIds === undefined) {
-      this._allowedDatasourceIds = getConfig().boundedContext.datasourceIds;
+  /**
+   * Gets the bounded context to constrain content with.
+   * When INCLUDE_CHILD_PROJECTS is set, its project IDs include the projects nested in the allowed projects.
+   */
+  async getBoundedContext(restApiArgs: RestApiArgs): Promise<BoundedContext> {
+    const { boundedContext } = this;
+    if (!boundedContext.projectIds || !boundedContext.includeChildProjects) {
+      return boundedContext;
     }
 
-    return this._allowedDatasourceIds;
-  }
+    let childProjectIds: Map<string, Array<string>>;
+    try {
+      childProjectIds = await this._getChildProjectIds(restApiArgs);
+    } catch (error) {
+      // Without the project hierarchy, only the allowed projects themselves are allowed.
+      log.warning(
+        restApiArgs.server,
+        `Could not retrieve the child projects of the allowed projects: ${getExceptionMessage(error)}`,
+        { requestId: restApiArgs.requestId },
+      );
+
+      return boundedContext;
+    }
 
-  private get allowedWorkbookIds(): Set<string> | null {
-    if (this._allowedWorkbookIds === undefined) {
-      this._allowedWorkbookIds = getConfig().boundedContext.workbookIds;
+    const projectIds = new Set(boundedContext.projectIds);
+    for (const projectId of projectIds) {
+      // Sets are iterated in insertion order, so the child projects added here are visited too.
+      for (const childProjectId of childProjectIds.get(projectId) ?? []) {
+        projectIds.add(childProjectId);
+      }
     }
 
-    return this._allowedWorkbookIds;
+    return { ...boundedContext, projectIds };
   }
 
   async isDatasourceAllowed({
@@ -82,9 +116,10 @@ class ResourceAccessChecker {
       restApiArgs,
     });
 
-    if (!this.allowedProjectIds) {
-      // If project filtering is enabled, we cannot cache the result since the datasource may be moved between projects.
-      this._cachedDatasourceIds.set(datasourceLuid, result);
+    if (!hasContentRules(this.boundedContext)) {
+      // If the content rules are enabled, we cannot cache the result since the datasource may be moved between projects,
+      // retagged, certified or given another owner.
+      this._cachedDatasourceIds.set(getCacheKey(restApiArgs.config, datasourceLuid), result);
     }
 
     return result;
@@ -102,9 +137,10 @@ class ResourceAccessChecker {
       restApiArgs,
     });
 
-    if (!this.allowedProjectIds) {
-      // If project filtering is enabled, we cannot cache the result since the workbook may be moved between projects.
-      this._cachedWorkbookIds.set(workbookId, result);
+    if (!hasContentRules(this.boundedContext)) {
+      // If the content rules are enabled, we cannot cache the result since the workbook may be moved between projects,
+      // retagged or given another owner.
+      this._cachedWorkbookIds.set(getCacheKey(restApiArgs.config, workbookId), result);
     }
 
     return result;
@@ -122,27 +158,38 @@ class ResourceAccessChecker {
       restApiArgs,
     });
 
-    if (!this.allowedProjectIds) {
-      // If project filtering is enabled, we cannot cache the result since the workbook containing the view may be moved between projects.
-      this._cachedViewIds.set(viewId, result);
+    if (!hasContentRules(this.boundedContext)) {
+      // If the content rules are enabled, we cannot cache the result since the view may be moved between projects,
+      // retagged or given another owner.
+      this._cachedViewIds.set(getCacheKey(restApiArgs.config, viewId), result);
     }
 
     return result;
   }
 
+  /**
+   * Gets the column policy rules for the fields of an allowed datasource,
+   * or for the data of an allowed view when no datasource is given.
+   */
+  getColumnPolicyRules(datasourceLuid?: string): Array<ColumnPolicyRule> {
+    return getColumnPolicyRules(getConfig().columnPolicies, datasourceLuid);
+  }
+
   private async _isDatasourceAllowed({
     datasourceLuid,
-    restApiArgs: { config, requestId, server, signal },
+    restApiArgs,
   }: {
     datasourceLuid: string;
     restApiArgs: RestApiArgs;
   }): Promise<AllowedResult> {
-    const cachedResult = this._cachedDatasourceIds.get(datasourceLuid);
+    const { config, requestId, server, signal } = restApiArgs;
+    const cachedResult = this._cachedDatasourceIds.get(getCacheKey(config, datasourceLuid));
     if (cachedResult) {
       return cachedResult;
     }
 
-    if (this.allowedDatasourceIds && !this.allowedDatasourceIds.has(datasourceLuid)) {
+    const { datasourceIds } = this.boundedContext;
+    if (datasourceIds && !datasourceIds.has(datasourceLuid)) {
       return {
         allowed: false,
         message: [
@@ -152,30 +199,35 @@ class ResourceAccessChecker {
       };
     }
 
-    if (this.allowedProjectIds) {
+    if (hasContentRules(this.boundedContext)) {
       try {
-        const datasourceProjectId = await useRestApi({
+        const datasource = await useRestApi({
           config,
           requestId,
           server,
           jwtScopes: ['tableau:content:read'],
           signal,
           callback: async (restApi) => {
-            const datasource = await restApi.datasourcesMethods.queryDatasource({
+            return await restApi.datasourcesMethods.queryDatasource({
               siteId: restApi.siteId,
               datasourceId: datasourceLuid,
             });
-
-            return datasource.project.id;
           },
         });
 
-        if (!this.allowedProjectIds.has(datasourceProjectId)) {
+        const reason = getContentExclusionReason(await this.getBoundedContext(restApiArgs), {
+          projectId: datasource.project.id,
+          ownerId: datasource.owner?.id,
+          tags: getTagLabels(datasource.tags),
+          isCertified: datasource.isCertified ?? false,
+        });
+
+        if (reason) {
           return {
             allowed: false,
             message: [
               'The set of allowed data sources that can be queried is limited by the server configuration.',
-              `The datasource with LUID ${datasourceLuid} cannot be queried because it does not belong to an allowed project.`,
+              `The datasource with LUID ${datasourceLuid} cannot be queried because ${reason}.`,
             ].join(' '),
           };
         }
@@ -184,7 +236,7 @@ class ResourceAccessChecker {
           allowed: false,
           message: [
             'The set of allowed data sources that can be queried is limited by the server configuration.',
-            `An error occurred while checking if the datasource with LUID ${datasourceLuid} is in an allowed project:`,
+            `An error occurred while checking if the datasource with LUID ${datasourceLuid} is allowed:`,
             getExceptionMessage(error),
           ].join(' '),
         };
@@ -196,17 +248,19 @@ class ResourceAccessChecker {
 
   private async _isWorkbookAllowed({
     workbookId,
-    restApiArgs: { config, requestId, server, signal },
+    restApiArgs,
   }: {
     workbookId: string;
     restApiArgs: RestApiArgs;
   }): Promise<AllowedResult<Workbook>> {
-    const cachedResult = this._cachedWorkbookIds.get(workbookId);
+    const { config, requestId, server, signal } = restApiArgs;
+    const cachedResult = this._cachedWorkbookIds.get(getCacheKey(config, workbookId));
     if (cachedResult) {
       return cachedResult;
     }
 
-    if (this.allowedWorkbookIds && !this.allowedWorkbookIds.has(workbookId)) {
+    const { workbookIds } = this.boundedContext;
+    if (workbookIds && !workbookIds.has(workbookId)) {
       return {
         allowed: false,
         message: [
@@ -217,7 +271,7 @@ class ResourceAccessChecker {
     }
 
     let workbook: Workbook | undefined;
-    if (this.allowedProjectIds) {
+    if (hasContentRules(this.boundedContext)) {
       try {
         workbook = await useRestApi({
           config,
@@ -235,12 +289,18 @@ class ResourceAccessChecker {
           },
         });
 
-        if (!this.allowedProjectIds.has(workbook.project?.id ?? '')) {
+        const reason = getContentExclusionReason(await this.getBoundedContext(restApiArgs), {
+          projectId: workbook.project?.id,
+          ownerId: workbook.owner?.id,
+          tags: getTagLabels(workbook.tags),
+        });
+
+        if (reason) {
           return {
             allowed: false,
             message: [
               'The set of allowed workbooks that can be queried is limited by the server configuration.',
-              `The workbook with LUID ${workbookId} cannot be queried because it does not belong to an allowed project.`,
+              `The workbook with LUID ${workbookId} cannot be queried because ${reason}.`,
             ].join(' '),
           };
         }
@@ -249,7 +309,7 @@ class ResourceAccessChecker {
           allowed: false,
           message: [
             'The set of allowed workbooks that can be queried is limited by the server configuration.',
-            `An error occurred while checking if the workbook with LUID ${workbookId} is in an allowed project:`,
+            `An error occurred while checking if the workbook with LUID ${workbookId} is allowed:`,
             getExceptionMessage(error),
           ].join(' '),
         };
@@ -261,101 +321,119 @@ class ResourceAccessChecker {
 
   private async _isViewAllowed({
     viewId,
-    restApiArgs: { config, requestId, server, signal },
+    restApiArgs,
   }: {
     viewId: string;
     restApiArgs: RestApiArgs;
   }): Promise<AllowedResult> {
-    const cachedResult = this._cachedViewIds.get(viewId);
+    const { config, requestId, server, signal } = restApiArgs;
+    const cachedResult = this._cachedViewIds.get(getCacheKey(config, viewId));
     if (cachedResult) {
       return cachedResult;
     }
 
-    let viewWorkbookId = '';
-    let viewProjectId = '';
+    const { workbookIds } = this.boundedContext;
+    if (!workbookIds && !hasContentRules(this.boundedContext)) {
+      return { allowed: true };
+    }
 
-    if (this.allowedWorkbookIds) {
-      try {
-        const view = await useRestApi({
-          config,
-          requestId,
-          server,
-          jwtScopes: ['tableau:content:read'],
-          signal,
-          callback: async (restApi) => {
-            return await restApi.viewsMethods.getView({
-              siteId: restApi.siteId,
-              viewId,
-            });
-          },
-        });
+    let view: View;
+    try {
+      view = await useRestApi({
+        config,
+        requestId,
+        server,
+        jwtScopes: ['tableau:content:read'],
+        signal,
+        callback: async (restApi) => {
+          return await restApi.viewsMethods.getView({
+            siteId: restApi.siteId,
+            viewId,
+          });
+        },
+      });
+    } catch (error) {
+      return {
+        allowed: false,
+        message: [
+          'The set of allowed views that can be queried is limited by the server configuration.',
+          `An error occurred while checking if the view with LUID ${viewId} is allowed:`,
+          getExceptionMessage(error),
+        ].join(' '),
+      };
+    }
 
-        viewWorkbookId = view.workbook?.id ?? '';
-        viewProjectId = view.project?.id ?? '';
+    if (workbookIds && !workbookIds.has(view.workbook?.id ?? '')) {
+      return {
+        allowed: false,
+        message: [
+          'The set of allowed workbooks that can be queried is limited by the server configuration.',
+          `The view with LUID ${viewId} cannot be queried because it does not belong to an allowed workbook.`,
+        ].join(' '),
+      };
+    }
 
-        if (!this.allowedWorkbookIds.has(viewWorkbookId)) {
-          return {
-            allowed: false,
-            message: [
-              'The set of allowed workbooks that can be queried is limited by the server configuration.',
-              `The view with LUID ${viewId} cannot be queried because it does not belong to an allowed workbook.`,
-            ].join(' '),
-          };
-        }
-      } catch (error) {
-        return {
-          allowed: false,
-          message: [
-            'The set of allowed workbooks that can be queried is limited by the server configuration.',
-            `An error occurred while checking if the workbook containing the view with LUID ${viewId} is in an allowed workbook:`,
-            getExceptionMessage(error),
-          ].join(' '),
-        };
-      }
+    const reason = getContentExclusionReason(await this.getBoundedContext(restApiArgs), {
+      projectId: view.project?.id,
+      ownerId: view.owner?.id,
+      tags: getTagLabels(view.tags),
+    });
+
+    if (reason) {
+      return {
+        allowed: false,
+        message: [
+          'The set of allowed views that can be queried is limited by the server configuration.',
+          `The view with LUID ${viewId} cannot be queried because ${reason}.`,
+        ].join(' '),
+      };
     }
 
-    if (this.allowedProjectIds) {
-      try {
-        viewProjectId =
-          viewProjectId ||
-          (await useRestApi({
-            config,
-            requestId,
-            server,
-            jwtScopes: ['tableau:content:read'],
-            signal,
-            callback: async (restApi) => {
-              const view = await restApi.viewsMethods.getView({
-                siteId: restApi.siteId,
-                viewId,
-              });
-
-              return view.project?.id ?? '';
-            },
-          }));
-
-        if (!this.allowedProjectIds.has(viewProjectId)) {
-          return {
-            allowed: false,
-            message: [
-              'The set of allowed views that can be queried is limited by the server configuration.',
-              `The view with LUID ${viewId} cannot be queried because it does not belong to an allowed project.`,
-            ].join(' '),
-          };
-        }
-      } catch (error) {
-        return {
-          allowed: false,
-          message: [
-            'The set of allowed views that can be queried is limited by the server configuration.',
-            `An error occurred while checking if the workbook containing the view with LUID ${viewId} is in an allowed project:`,
-            getExceptionMessage(error),
-          ].join(' '),
-        };
+    return { allowed: true };
+  }
+
+  // Gets the IDs of the child projects of each project of the site, which are cached since projects rarely move.
+  private async _getChildProjectIds({
+    config,
+    requestId,
+    server,
+    signal,
+  }: RestApiArgs): Promise<Map<string, Array<string>>> {
+    const cacheKey = config.site ?? '';
+    const cachedChildProjectIds = this._cachedChildProjectIds.get(cacheKey);
+    if (cachedChildProjectIds) {
+      return cachedChildProjectIds;
+    }
+
+    const projects = await useRestApi({
+      config,
+      requestId,
+      server,
+      jwtScopes: ['tableau:content:read'],
+      signal,
+      callback: (restApi) =>
+        paginate({
+          pageConfig: { pageSize: 1000 },
+          getDataFn: async (pageConfig) => {
+            const { pagination, projects: data } = await restApi.projectsMethods.queryProjects({
+              siteId: restApi.siteId,
+              ...pageConfig,
+            });
+
+            return { pagination, data };
+          },
+        }),
+    });
+
+    const childProjectIds = new Map<string, Array<string>>();
+    for (const { id, parentProjectId } of projects) {
+      if (parentProjectId) {
+        childProjectIds.set(parentProjectId, [...(childProjectIds.get(parentProjectId) ?? []), id]);
       }
     }
 
-    return { allowed: true };
+    this._cachedChildProjectIds.set(cacheKey, childProjectIds);
+    return childProjectIds;
   }
 }
 
@@ -0,0 +1,81 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { Err, Ok } from 'ts-results-es';
+import { z } from 'zod';
+
+import { getConfig } from '../../config.js';
+import { Server } from '../../server.js';
+import { getTableauAuthInfo } from '../../server/oauth/getTableauAuthInfo.js';
+import { getUserIdentity } from '../../utils/getUserIdentity.js';
+import { Tool } from '../tool.js';
+import { getResultContinuation } from './resultContinuationStore.js';
+
+const paramsSchema = {
+  handle: z.string().nonempty(),
+};
+
+export type GetResultContinuationError = {
+  type: 'continuation-not-found';
+  message: string;
+};
+
+export const getGetResultContinuationTool = (server: Server): Tool<typeof paramsSchema> => {
+  const getResultContinuationTool = new Tool({
+    server,
+    name: 'get-result-continuation',
+    description: `
+Retrieves the next part of a tool result that was truncated because it exceeded the tool's response budget.
+Pass the continuation handle returned with the truncated result. Each part fits the budget of the tool that produced
+the result and returns a new handle until the end of the result is reached. Handles expire after a while.`,
+    paramsSchema,
+    resultSchema: z
+      .unknown()
+      .describe('The next part of the result of the tool that was truncated'),
+    annotations: {
+      title: 'Get Result Continuation',
+      readOnlyHint: true,
+      openWorldHint: false,
+    },
+    callback: async ({ handle }, { requestId, authInfo, signal }): Promise<CallToolResult> => {
+      return await getResultContinuationTool.logAndExecute<
+        CallToolResult,
+        GetResultContinuationError
+      >({
+        requestId,
+        authInfo,
+        signal,
+        args: { handle },
+        callback: async () => {
+          const continuation = getResultContinuation(
+            handle,
+            getUserIdentity(getConfig(), getTableauAuthInfo(authInfo)),
+          );
+
+          if (!continuation) {
+            return new Err({
+              type: 'continuation-not-found',
+              message: `The continuation handle "${handle}" does not exist or has expired. Call the original tool again.`,
+            });
+          }
+
+          return new Ok(continuation.getPage(continuation.start));
+        },
+        constrainSuccessResult: (page) => {
+          return {
+            type: 'success',
+            result: page,
+          };
+        },
+        // The page has already been fitted to the budget of the tool that produced the result.
+        getSuccessResult: (page: CallToolResult) => page,
+        getErrorText: (error: GetResultContinuationError) => {
+          switch (error.type) {
+            case 'continuation-not-found':
+              return error.message;
+          }
+        },
+      });
+    },
+  });
+
+  return getResultContinuationTool;
+};
@@ -0,0 +1,297 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import { getConfig } from '../../config.js';
+import { formatCsv, parseCsv } from '../../utils/csv.js';
+import { ToolName } from '../toolName.js';
+import { createContinuationHandle, saveResultContinuation } from './resultContinuationStore.js';
+import {
+  getTableFromRows,
+  ResultSummary,
+  resultSummarySchema,
+  summarizeTable,
+  Table,
+} from './resultSummary.js';
+
+// A rough but deterministic estimate that is good enough to keep responses within a token budget.
+export const CHARACTERS_PER_TOKEN = 4;
+
+export const truncationSchema = z.object({
+  unit: z.enum(['rows', 'characters']),
+  start: z.number(),
+  end: z.number(),
+  total: z.number(),
+  summary: resultSummarySchema.optional(),
+  continuationHandle: z.string().optional(),
+});
+
+export type Truncation = z.infer<typeof truncationSchema>;
+
+/**
+ * Describes how a success result is made of rows, so it can be truncated to a response budget
+ * without breaking its format.
+ *
+ * @typeParam T - The type of the result the tool's implementation returns
+ */
+export type TabularResult<T> = {
+  // Gets the columns and rows of the result, which are summarized when the result is truncated
+  getTable: (result: T) => Table;
+
+  // Gets a copy of the result that only contains the rows from start (inclusive) to end (exclusive)
+  sliceRows: (result: T, start: number, end: number) => T;
+};
+
+/**
+ * Gets the tabular result description of a result that is an array, whose elements are its rows.
+ */
+export function getDefaultTabularResult<T>(result: T): TabularResult<T> | undefined {
+  if (!Array.isArray(result)) {
+    return;
+  }
+
+  return {
+    getTable: (result) => getTableFromRows(result as Array<unknown>),
+    sliceRows: (result, start, end) => (result as Array<unknown>).slice(start, end) as T,
+  };
+}
+
+/**
+ * Gets the tabular result description of CSV text whose first record is the header.
+ * The text is parsed once no matter how many slices are taken from it.
+ */
+export function getCsvTabularResult(): TabularResult<string> {
+  let parsed: { csv: string; records: Array<Array<string>> } | undefined;
+  const parse = (csv: string): Array<Array<string>> => {
+    if (parsed?.csv !== csv) {
+      parsed = { csv, records: parseCsv(csv) };
+    }
+
+    return parsed.records;
+  };
+
+  return {
+    getTable: (csv) => {
+      const [columns = [], ...rows] = parse(csv);
+      return { columns, rows };
+    },
+    sliceRows: (csv, start, end) => {
+      const [header = [], ...rows] = parse(csv);
+      return formatCsv([header, ...rows.slice(start, end)]);
+    },
+  };
+}
+
+type ApplyResponseBudgetParams<T> = {
+  // The tool that produced the result
+  toolName: ToolName;
+
+  // The user the result belongs to, see getUserIdentity
+  userIdentity: string;
+
+  // The success result of the tool's implementation
+  result: T;
+
+  // The result to be returned to the client if it fits in the budget
+  callToolResult: CallToolResult;
+
+  // Transforms a success result, or a slice of it, into a CallToolResult
+  getCallToolResult: (result: T) => CallToolResult;
+
+  // Describes the rows of the result, if it is tabular
+  tabularResult: TabularResult<T> | undefined;
+};
+
+/**
+ * Fits a successful tool result into the response budget configured for the tool.
+ *
+ * Tabular results keep their first rows, as many as fit, and are summarized in full.
+ * Other results keep their first characters.
+ * Either way, a continuation handle is returned that the get-result-continuation tool accepts to get the rest.
+ * Results that already carry truncation details, like the pages returned by get-result-continuation,
+ * are returned as is.
+ */
+export function applyResponseBudget<T>({
+  toolName,
+  userIdentity,
+  result,
+  callToolResult,
+  getCallToolResult,
+  tabularResult,
+}: ApplyResponseBudgetParams<T>): CallToolResult {
+  const config = getConfig();
+  const maxResponseSize = config.getMaxResponseSize(toolName);
+  if (!maxResponseSize || callToolResult.isError || callToolResult.structuredContent?.truncation) {
+    return callToolResult;
+  }
+
+  const maxCharacters =
+    config.responseSizeUnit === 'tokens' ? maxResponseSize * CHARACTERS_PER_TOKEN : maxResponseSize;
+
+  if (getTextLength(callToolResult) <= maxCharacters) {
+    return callToolResult;
+  }
+
+  const table = tabularResult?.getTable(result);
+  if (tabularResult && table && table.rows.length > 0) {
+    return getRowPage({
+      toolName,
+      userIdentity,
+      maxCharacters,
+      summary: summarizeTable(table),
+      getPage: (start, end) => getCallToolResult(tabularResult.sliceRows(result, start, end)),
+      start: 0,
+    });
+  }
+
+  return getCharacterPage({
+    toolName,
+    userIdentity,
+    maxCharacters,
+    text: getText(callToolResult),
+    start: 0,
+  });
+}
+
+type PageParams = {
+  toolName: ToolName;
+  userIdentity: string;
+  maxCharacters: number;
+  start: number;
+};
+
+function getRowPage({
+  toolName,
+  userIdentity,
+  maxCharacters,
+  summary,
+  getPage,
+  start,
+}: PageParams & {
+  summary: ResultSummary;
+  getPage: (start: number, end: number) => CallToolResult;
+}): CallToolResult {
+  const total = summary.rowCount;
+  const continuationHandle = createContinuationHandle();
+  const render = (end: number): CallToolResult =>
+    withTruncation(toolName, getPage(start, end), {
+      unit: 'rows',
+      start,
+      end,
+      total,
+      // The summary covers every row, so it is only returned with the first page.
+      summary: start === 0 ? summary : undefined,
+      continuationHandle: end < total ? continuationHandle : undefined,
+    });
+
+  // Find the most rows that fit. At least one row is returned so every page makes progress.
+  let low = start + 1;
+  let high = total;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (getTextLength(render(middle)) <= maxCharacters) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  const end = low;
+  if (end < total) {
+    saveResultContinuation(continuationHandle, {
+      toolName,
+      userIdentity,
+      start: end,
+      getPage: (start) =>
+        getRowPage({ toolName, userIdentity, maxCharacters, summary, getPage, start }),
+    });
+  }
+
+  return render(end);
+}
+
+function getCharacterPage({
+  toolName,
+  userIdentity,
+  maxCharacters,
+  text,
+  start,
+}: PageParams & { text: string }): CallToolResult {
+  const total = text.length;
+  const continuationHandle = createContinuationHandle();
+  const getTruncation = (end: number): Truncation => ({
+    unit: 'characters',
+    start,
+    end,
+    total,
+    continuationHandle: end < total ? continuationHandle : undefined,
+  });
+
+  // The note takes up part of the budget. Measuring it with the longest values it can have keeps the page within budget.
+  const noteLength = getTruncationNote(toolName, {
+    ...getTruncation(0),
+    end: total,
+    continuationHandle,
+  }).length;
+
+  const end = Math.min(total, start + Math.max(1, maxCharacters - noteLength));
+  if (end < total) {
+    saveResultContinuation(continuationHandle, {
+      toolName,
+      userIdentity,
+      start: end,
+      getPage: (start) => getCharacterPage({ toolName, userIdentity, maxCharacters, text, start }),
+    });
+  }
+
+  // The structured content of the full result cannot be split, so only the truncation details are returned.
+  const truncation = getTruncation(end);
+  return {
+    isError: false,
+    content: [
+      { type: 'text', text: text.slice(start, end) },
+      { type: 'text', text: getTruncationNote(toolName, truncation) },
+    ],
+    structuredContent: { truncation },
+  };
+}
+
+function withTruncation(
+  toolName: ToolName,
+  callToolResult: CallToolResult,
+  truncation: Truncation,
+): CallToolResult {
+  return {
+    ...callToolResult,
+    content: [
+      ...callToolResult.content,
+      { type: 'text', text: getTruncationNote(toolName, truncation) },
+    ],
+    structuredContent: { ...callToolResult.structuredContent, truncation },
+  };
+}
+
+function getTruncationNote(
+  toolName: ToolName,
+  { unit, start, end, total, summary, continuationHandle }: Truncation,
+): string {
+  return [
+    `The result of the ${toolName} tool was truncated to fit its response budget: ${unit} ${start + 1} to ${end} of ${total} are included.`,
+    ...(summary ? [`Summary of all ${total} rows: ${JSON.stringify(summary)}`] : []),
+    continuationHandle
+      ? `To get the next ${unit}, call the get-result-continuation tool with the handle "${continuationHandle}".`
+      : `These are the last ${unit} of the result.`,
+  ].join('\n');
+}
+
+function getText(callToolResult: CallToolResult): string {
+  return callToolResult.content
+    .flatMap((content) => (content.type === 'text' ? [content.text] : []))
+    .join('\n');
+}
+
+function getTextLength(callToolResult: CallToolResult): number {
+  return callToolResult.content.reduce(
+    (length, content) => length + (content.type === 'text' ? content.text.length : 0),
+    0,
+  );
+}
@@ -0,0 +1,76 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { randomUUID } from 'crypto';
+
+import { getConfig } from '../../config.js';
+import { ExpiringMap } from '../../utils/expiringMap.js';
+import { ToolName } from '../toolName.js';
+
+export type ResultContinuation = {
+  // The tool whose result was truncated
+  toolName: ToolName;
+
+  // The user the result belongs to, see getUserIdentity
+  userIdentity: string;
+
+  // The index of the first row or character that has not been returned yet
+  start: number;
+
+  // Gets the page of the result that begins at the given index, fitted to the tool's response budget
+  getPage: (start: number) => CallToolResult;
+};
+
+let resultContinuations: ExpiringMap<string, ResultContinuation> | undefined;
+
+function getResultContinuations(): ExpiringMap<string, ResultContinuation> {
+  if (!resultContinuations) {
+    resultContinuations = new ExpiringMap<string, ResultContinuation>({
+      defaultExpirationTimeMs: getConfig().resultContinuationTimeoutMs,
+    });
+  }
+
+  return resultContinuations;
+}
+
+/**
+ * Creates a new, unused continuation handle.
+ */
+export function createContinuationHandle(): string {
+  return randomUUID();
+}
+
+/**
+ * Saves the continuation of a truncated result, which keeps the whole result until it expires.
+ * The oldest continuations are evicted once RESULT_CONTINUATION_MAX_ENTRIES is reached.
+ */
+export function saveResultContinuation(handle: string, continuation: ResultContinuation): void {
+  const continuations = getResultContinuations();
+  const { resultContinuationMaxEntries } = getConfig();
+
+  // Entries are kept in insertion order, so the first one is the oldest.
+  while (continuations.size >= resultContinuationMaxEntries && !continuations.has(handle)) {
+    const oldestHandle = continuations.keys().next().value;
+    if (oldestHandle === undefined) {
+      break;
+    }
+
+    continuations.delete(oldestHandle);
+  }
+
+  continuations.set(handle, continuation);
+}
+
+/**
+ * Gets the continuation of a truncated result.
+ * Continuations of other users' results are never returned.
+ */
+export function getResultContinuation(
+  handle: string,
+  userIdentity: string,
+): ResultContinuation | undefined {
+  const continuation = getResultContinuations().get(handle);
+  if (!continuation || continuation.userIdentity !== userIdentity) {
+    return;
+  }
+
+  return continuation;
+}
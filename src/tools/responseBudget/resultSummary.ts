@@ -0,0 +1,117 @@
+import { z } from 'zod';
+
+export type Table = {
+  columns: Array<string>;
+  rows: Array<Array<unknown>>;
+};
+
+const columnSummarySchema = z.object({
+  name: z.string(),
+  nullCount: z.number(),
+  distinctCount: z.number(),
+  min: z.union([z.number(), z.string()]).optional(),
+  max: z.union([z.number(), z.string()]).optional(),
+});
+
+export const resultSummarySchema = z.object({
+  rowCount: z.number(),
+  columns: z.array(columnSummarySchema),
+});
+
+export type ColumnSummary = z.infer<typeof columnSummarySchema>;
+export type ResultSummary = z.infer<typeof resultSummarySchema>;
+
+/**
+ * Builds a table from rows that are either objects, arrays of values or single values.
+ * The columns of object rows are the union of their keys, in the order they are first seen.
+ *
+ * @param rows - The rows of the table
+ * @param columnNames - The names of the columns of array rows, if known
+ */
+export function getTableFromRows(rows: Array<unknown>, columnNames?: Array<string>): Table {
+  if (rows.every((row) => isRecord(row))) {
+    const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+    return {
+      columns,
+      rows: rows.map((row) => columns.map((column) => row[column])),
+    };
+  }
+
+  const arrayRows = rows.map((row) => (Array.isArray(row) ? row : [row]));
+  const columnCount = Math.max(0, ...arrayRows.map((row) => row.length));
+  return {
+    columns: Array.from({ length: columnCount }, (_, i) => columnNames?.[i] ?? `column${i + 1}`),
+    rows: arrayRows,
+  };
+}
+
+/**
+ * Summarizes a table with its row count and, for each column, the number of null and distinct values
+ * and the minimum and maximum value.
+ *
+ * Empty strings count as null since that is how CSV represents them.
+ * A column is compared numerically when all its values are numbers or numeric strings, otherwise as text.
+ */
+export function summarizeTable({ columns, rows }: Table): ResultSummary {
+  return {
+    rowCount: rows.length,
+    columns: columns.map((name, i) =>
+      summarizeColumn(
+        name,
+        rows.map((row) => row[i]),
+      ),
+    ),
+  };
+}
+
+function summarizeColumn(name: string, values: Array<unknown>): ColumnSummary {
+  const presentValues = values.filter(
+    (value) => value !== null && value !== undefined && value !== '',
+  );
+  const summary: ColumnSummary = {
+    name,
+    nullCount: values.length - presentValues.length,
+    distinctCount: new Set(presentValues.map(toText)).size,
+  };
+
+  if (presentValues.length === 0) {
+    return summary;
+  }
+
+  const numbers = presentValues.map(toNumber);
+  if (numbers.every((number): number is number => number !== null)) {
+    return {
+      ...summary,
+      min: numbers.reduce((min, number) => Math.min(min, number)),
+      max: numbers.reduce((max, number) => Math.max(max, number)),
+    };
+  }
+
+  const texts = presentValues.map(toText);
+  return {
+    ...summary,
+    min: texts.reduce((min, text) => (text < min ? text : min)),
+    max: texts.reduce((max, text) => (text > max ? text : max)),
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : null;
+  }
+
+  return null;
+}
+
+function toText(value: unknown): string {
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
@@ -3,15 +3,33 @@ import { ToolCallback } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { CallToolResult, RequestId, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 import { ZodiosError } from '@zodios/core';
 import { Result } from 'ts-results-es';
-import { z, ZodRawShape, ZodTypeAny } from 'zod';
+import { z, ZodOptional, ZodRawShape, ZodString, ZodTypeAny, ZodUnknown } from 'zod';
 import { fromError, isZodErrorLike } from 'zod-validation-error';
 
+import { recordToolCall } from '../auditLog/auditLog.js';
+import { getConfig } from '../config.js';
 import { getToolLogMessage, log } from '../logging/log.js';
+import { toolCalls, toolErrors } from '../metrics.js';
+import { acquireSiteSlot, takeRateLimits, Throttle } from '../rateLimits/rateLimits.js';
 import { Server } from '../server.js';
+import { getTableauAuthInfo } from '../server/oauth/getTableauAuthInfo.js';
 import { tableauAuthInfoSchema } from '../server/oauth/schemas.js';
-import { getTelemetryProvider } from '../telemetry/init.js';
+import { getTelemetryProvider, withSpan } from '../telemetry/init.js';
+import { checkToolPolicies } from '../toolPolicies/toolPolicies.js';
 import { getExceptionMessage } from '../utils/getExceptionMessage.js';
+import { getUserIdentity } from '../utils/getUserIdentity.js';
+import {
+  getProgressReporter,
+  ProgressReporter,
+  ProgressRequestExtra,
+} from '../utils/progressReporter.js';
 import { Provider, TypeOrProvider } from '../utils/provider.js';
+import {
+  applyResponseBudget,
+  getDefaultTabularResult,
+  TabularResult,
+  truncationSchema,
+} from './responseBudget/responseBudget.js';
 import { ToolName } from './toolName.js';
 
 type ArgsValidator<Args extends ZodRawShape | undefined = undefined> = Args extends ZodRawShape
@@ -32,6 +50,14 @@ export type ConstrainedResult<T> =
       message: string;
     };
 
+type OutputSchema = {
+  result: ZodOptional<ZodTypeAny>;
+  message: ZodOptional<ZodString>;
+  data: ZodOptional<ZodUnknown>;
+  warning: ZodOptional<ZodString>;
+  truncation: ZodOptional<typeof truncationSchema>;
+};
+
 /**
  * The parameters for creating a tool instance
  *
@@ -53,6 +79,9 @@ export type ToolParams<Args extends ZodRawShape | undefined = undefined> = {
   // The annotations of the tool
   annotations: TypeOrProvider<ToolAnnotations>;
 
+  // The schema of the result the tool's implementation returns on success
+  resultSchema: ZodTypeAny;
+
   // A function that validates the tool's arguments provided by the client
   argsValidator?: TypeOrProvider<ArgsValidator<Args>>;
 
@@ -74,13 +103,21 @@ type LogAndExecuteParams<T, E, Args extends ZodRawShape | undefined = undefined>
   // The Authentication info provided when OAuth is enabled
   authInfo: AuthInfo | undefined;
 
+  // The abort signal of the tool call, which stops it from waiting for a site concurrency slot once cancelled
+  signal: AbortSignal;
+
   // The arguments of the tool call
   args: Args extends ZodRawShape ? z.objectOutputType<Args, ZodTypeAny> : undefined;
 
+  // The progress token and notification sender of the tool call.
+  // When the client provided a progress token, the callback can report each stage of the tool with the progress reporter.
+  requestExtra?: ProgressRequestExtra;
+
   // A function that contains the business logic of the tool to be logged and executed
-  callback: () => Promise<Result<T, E | ZodiosError>>;
+  callback: (reportProgress: ProgressReporter) => Promise<Result<T, E | ZodiosError>>;
 
-  // A function that can transform a successful result of the callback into a CallToolResult
+  // A function that can transform a successful result of the callback into a CallToolResult.
+  // The structured content of the CallToolResult must match the tool's output schema.
   getSuccessResult?: (result: T) => CallToolResult;
 
   // A function that can transform an error result of the callback into a string.
@@ -89,6 +126,19 @@ type LogAndExecuteParams<T, E, Args extends ZodRawShape | undefined = undefined>
 
   // A function that constrains the success result of the tool
   constrainSuccessResult: (result: T) => ConstrainedResult<T> | Promise<ConstrainedResult<T>>;
+
+  // Describes the rows of the success result so it can be truncated to the tool's response budget.
+  // Results that are arrays are made of their elements unless specified otherwise.
+  tabularResult?: TabularResult<T>;
+};
+
+// The result of a tool call, and what the audit log and metrics record of it.
+type ToolCallOutcome = {
+  callToolResult: CallToolResult;
+  errorType?: string;
+  // e.g. "400803" when a VizQL Data Service query failed
+  vdsErrorCode?: string;
+  getRows?: () => number | undefined;
 };
 
 /**
@@ -102,6 +152,7 @@ export class Tool<Args extends ZodRawShape | undefined = undefined> {
   description: TypeOrProvider<string>;
   paramsSchema: TypeOrProvider<Args>;
   annotations: TypeOrProvider<ToolAnnotations>;
+  resultSchema: ZodTypeAny;
   argsValidator?: TypeOrProvider<ArgsValidator<Args>>;
   callback: TypeOrProvider<ToolCallback<Args>>;
 
@@ -111,6 +162,7 @@ export class Tool<Args extends ZodRawShape | undefined = undefined> {
     description,
     paramsSchema,
     annotations,
+    resultSchema,
     argsValidator,
     callback,
   }: ToolParams<Args>) {
@@ -119,10 +171,29 @@ export class Tool<Args extends ZodRawShape | undefined = undefined> {
     this.description = description;
     this.paramsSchema = paramsSchema;
     this.annotations = annotations;
+    this.resultSchema = resultSchema;
     this.argsValidator = argsValidator;
     this.callback = callback;
   }
 
+  /**
+   * The schema of the structured content of the tool's results.
+   *
+   * Structured content must be an object, so the result is wrapped in one.
+   * This also leaves room for the message returned when the result was constrained to nothing,
+   * and for the raw data returned when the API response failed schema validation.
+   * Results that exceed the tool's response budget also describe how they were truncated.
+   */
+  get outputSchema(): OutputSchema {
+    return {
+      result: this.resultSchema.optional(),
+      message: z.string().optional(),
+      data: z.unknown().optional(),
+      warning: z.string().optional(),
+      truncation: truncationSchema.optional(),
+    };
+  }
+
   logInvocation({
     requestId,
     args,
@@ -150,24 +221,99 @@ export class Tool<Args extends ZodRawShape | undefined = undefined> {
 
   // Overload for E != undefined (getSuccessResult omitted)
   async logAndExecute<T, E>(
-    params: Required<Omit<LogAndExecuteParams<T, E, Args>, 'getSuccessResult'>>,
+    params: Required<
+      Omit<LogAndExecuteParams<T, E, Args>, 'getSuccessResult' | 'tabularResult' | 'requestExtra'>
+    > &
+      Pick<LogAndExecuteParams<T, E, Args>, 'tabularResult' | 'requestExtra'>,
   ): Promise<CallToolResult>;
 
   // Overload for E != undefined (getErrorText required)
   async logAndExecute<T, E>(
-    params: Required<LogAndExecuteParams<T, E, Args>>,
+    params: Required<Omit<LogAndExecuteParams<T, E, Args>, 'tabularResult' | 'requestExtra'>> &
+      Pick<LogAndExecuteParams<T, E, Args>, 'tabularResult' | 'requestExtra'>,
   ): Promise<CallToolResult>;
 
   // Implementation
-  async logAndExecute<T, E>({
+  async logAndExecute<T, E>(params: LogAndExecuteParams<T, E, Args>): Promise<CallToolResult> {
+    const attributes = { tool_name: this.name, request_id: params.requestId.toString() };
+    return await withSpan('mcp.tool.call', attributes, async (span) => {
+      const startTime = Date.now();
+      const { callToolResult, errorType, vdsErrorCode, getRows } = await this._execute(params);
+      const durationMs = Date.now() - startTime;
+      const bytes = getResultBytes(callToolResult);
+
+      // The rows are counted at most once, and only when something records them.
+      let rows: number | undefined;
+      let rowsCounted = false;
+      const getReturnedRows = (): number | undefined => {
+        if (!rowsCounted) {
+          rows = callToolResult.isError ? undefined : getRows?.();
+          rowsCounted = true;
+        }
+
+        return rows;
+      };
+
+      // The tool call doesn't wait for its audit record to be written.
+      recordToolCall({
+        requestId: params.requestId,
+        authInfo: params.authInfo,
+        toolName: this.name,
+        args: params.args,
+        callToolResult,
+        errorType,
+        getRows: getReturnedRows,
+        bytes,
+        durationMs,
+      });
+
+      toolCalls.inc({ tool: this.name });
+      if (callToolResult.isError) {
+        toolErrors.inc({ tool: this.name, error_type: errorType ?? 'error' });
+      }
+
+      const telemetry = getTelemetryProvider();
+      if (telemetry.recordHistogram) {
+        const metricAttributes = {
+          tool_name: this.name,
+          ...(callToolResult.isError && { error_type: errorType ?? 'error' }),
+          ...(vdsErrorCode && { vds_error_code: vdsErrorCode }),
+        };
+
+        telemetry.recordHistogram('mcp.tool.duration', durationMs, metricAttributes);
+        telemetry.recordHistogram('mcp.tool.bytes', bytes, metricAttributes);
+        const rows = getReturnedRows();
+        if (rows !== undefined) {
+          telemetry.recordHistogram('mcp.tool.rows', rows, metricAttributes);
+        }
+      }
+
+      span.setAttributes({
+        bytes,
+        ...(callToolResult.isError && { error_type: errorType ?? 'error' }),
+        ...(vdsErrorCode && { vds_error_code: vdsErrorCode }),
+      });
+
+      if (callToolResult.isError) {
+        span.end(errorType ?? 'error');
+      }
+
+      return callToolResult;
+    });
+  }
+
+  private async _execute<T, E>({
     requestId,
     args,
     authInfo,
+    signal,
+    requestExtra,
     callback,
     getSuccessResult,
     getErrorText,
     constrainSuccessResult,
-  }: LogAndExecuteParams<T, E, Args>): Promise<CallToolResult> {
+    tabularResult,
+  }: LogAndExecuteParams<T, E, Args>): Promise<ToolCallOutcome> {
     const username = authInfo?.extra
       ? tableauAuthInfoSchema.safeParse(authInfo.extra).data?.username
       : undefined;
@@ -181,65 +327,218 @@ export class Tool<Args extends ZodRawShape | undefined = undefined> {
       request_id: requestId.toString(),
     });
 
+    const policyDecision = await checkToolPolicies({
+      server: this.server,
+      requestId,
+      authInfo,
+      toolName: this.name,
+    });
+
+    if (!policyDecision.allowed) {
+      return {
+        callToolResult: {
+          isError: true,
+          content: [{ type: 'text', text: policyDecision.reason }],
+        },
+        errorType: 'policy-denied',
+      };
+    }
+
     if (args) {
       try {
         (await Provider.from(this.argsValidator))?.(args);
       } catch (error) {
-        return getErrorResult(requestId, error);
+        return { callToolResult: getErrorResult(requestId, error), errorType: 'invalid-arguments' };
       }
     }
 
+    const config = getConfig();
+    const tableauAuthInfo = getTableauAuthInfo(authInfo);
+    const userIdentity = getUserIdentity(config, tableauAuthInfo);
+    const siteSlot = await acquireSiteSlot({ config, authInfo: tableauAuthInfo, signal });
+    if (!siteSlot) {
+      return {
+        callToolResult: {
+          isError: true,
+          content: [{ type: 'text', text: 'The tool call was cancelled.' }],
+        },
+        errorType: 'cancelled',
+      };
+    }
+
+    if ('throttle' in siteSlot) {
+      return {
+        callToolResult: getThrottledResult(siteSlot.throttle),
+        errorType: 'concurrency-limited',
+      };
+    }
+
+    // Only calls that will run take from the rate limits, so calls that waited too long for a slot don't.
+    const throttle = takeRateLimits({
+      config,
+      userKey: userIdentity,
+      toolName: this.name,
+    });
+
+    if (throttle) {
+      siteSlot.release();
+      return { callToolResult: getThrottledResult(throttle), errorType: 'rate-limited' };
+    }
+
     try {
-      const result = await callback();
+      const result = await callback(getProgressReporter(requestExtra));
 
       if (result.isOk()) {
         const constrainedResult = await constrainSuccessResult(result.value);
 
-        if (constrainedResult.type !== 'success') {
+        if (constrainedResult.type === 'error') {
           return {
-            isError: constrainedResult.type === 'error',
-            content: [{ type: 'text', text: constrainedResult.message }],
+            callToolResult: {
+              isError: true,
+              content: [{ type: 'text', text: constrainedResult.message }],
+            },
+            errorType: 'constrained',
           };
         }
 
-        if (getSuccessResult) {
-          return getSuccessResult(constrainedResult.result);
+        if (constrainedResult.type === 'empty') {
+          return {
+            callToolResult: {
+              isError: false,
+              content: [{ type: 'text', text: constrainedResult.message }],
+              structuredContent: { message: constrainedResult.message },
+            },
+            getRows: () => 0,
+          };
         }
 
+        const getCallToolResult =
+          getSuccessResult ??
+          ((result: T): CallToolResult => ({
+            isError: false,
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result),
+              },
+            ],
+            structuredContent: { result },
+          }));
+
+        const resultTabularResult =
+          tabularResult ?? getDefaultTabularResult(constrainedResult.result);
+        const callToolResult = applyResponseBudget({
+          toolName: this.name,
+          userIdentity,
+          result: constrainedResult.result,
+          callToolResult: getCallToolResult(constrainedResult.result),
+          getCallToolResult,
+          tabularResult: resultTabularResult,
+        });
+
         return {
-          isError: false,
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(constrainedResult.result),
-            },
-          ],
+          callToolResult,
+          getRows: () =>
+            getReturnedRowCount(callToolResult, constrainedResult.result, resultTabularResult),
         };
       }
 
       if (result.error instanceof ZodiosError) {
-        return getErrorResult(requestId, result.error);
+        return { callToolResult: getErrorResult(requestId, result.error), errorType: 'api-error' };
       }
 
+      const errorType = getErrorType(result.error);
+      const vdsErrorCode = getVdsErrorCode(result.error);
       if (getErrorText) {
         return {
-          isError: true,
-          content: [
-            {
-              type: 'text',
-              text: getErrorText(result.error),
-            },
-          ],
+          callToolResult: {
+            isError: true,
+            content: [
+              {
+                type: 'text',
+                text: getErrorText(result.error),
+              },
+            ],
+          },
+          errorType,
+          vdsErrorCode,
         };
       } else {
-        return getErrorResult(requestId, result.error);
+        return {
+          callToolResult: getErrorResult(requestId, result.error),
+          errorType,
+          vdsErrorCode,
+        };
       }
     } catch (error) {
-      return getErrorResult(requestId, error);
+      return { callToolResult: getErrorResult(requestId, error), errorType: 'exception' };
+    } finally {
+      siteSlot.release();
     }
   }
 }
 
+// The rows of a successful result that were returned, which are fewer than its rows when it was truncated.
+function getReturnedRowCount<T>(
+  callToolResult: CallToolResult,
+  result: T,
+  tabularResult: TabularResult<T> | undefined,
+): number | undefined {
+  const truncation = truncationSchema.safeParse(callToolResult.structuredContent?.truncation).data;
+  if (truncation?.unit === 'rows') {
+    return truncation.end - truncation.start;
+  }
+
+  return tabularResult?.getTable(result).rows.length;
+}
+
+// The type of the errors the tools return, e.g. "datasource-not-allowed".
+function getErrorType(error: unknown): string {
+  return error && typeof error === 'object' && 'type' in error && typeof error.type === 'string'
+    ? error.type
+    : 'error';
+}
+
+// The error code of the VizQL Data Service errors the tools return, e.g. { type: "tableau-error", error: { errorCode: "400803" } }.
+function getVdsErrorCode(error: unknown): string | undefined {
+  if (!error || typeof error !== 'object' || !('error' in error)) {
+    return undefined;
+  }
+
+  const { error: tableauError } = error;
+  return tableauError &&
+    typeof tableauError === 'object' &&
+    'errorCode' in tableauError &&
+    typeof tableauError.errorCode === 'string'
+    ? tableauError.errorCode
+    : undefined;
+}
+
+// The size of the content returned to the client. Images and audio are counted decoded.
+function getResultBytes({ content }: CallToolResult): number {
+  return content.reduce((bytes, item) => {
+    switch (item.type) {
+      case 'text':
+        return bytes + Buffer.byteLength(item.text, 'utf8');
+      case 'image':
+      case 'audio':
+        return bytes + Buffer.byteLength(item.data, 'base64');
+      default:
+        return bytes;
+    }
+  }, 0);
+}
+
+// Tells the client when to retry, also in the text for clients that ignore structured content.
+function getThrottledResult({ scope, message, retryAfterSeconds }: Throttle): CallToolResult {
+  const structuredContent = { error: 'throttled', scope, message, retryAfterSeconds };
+  return {
+    isError: true,
+    content: [{ type: 'text', text: JSON.stringify(structuredContent) }],
+    structuredContent,
+  };
+}
+
 function getErrorResult(requestId: RequestId, error: unknown): CallToolResult {
   if (error instanceof ZodiosError && isZodErrorLike(error.cause)) {
     // Schema validation errors on otherwise successful API calls will not return an "error" result to the MCP client.
@@ -249,17 +548,20 @@ function getErrorResult(requestId: RequestId, error: unknown): CallToolResult {
     // The only con is that the full response from the API might be larger than normal
     // since a successful schema validation "trims" the response down to the shape of the schema.
     const validationError = fromError(error.cause);
+    const structuredContent = {
+      data: error.data,
+      warning: validationError.toString(),
+    };
+
     return {
       isError: false,
       content: [
         {
           type: 'text',
-          text: JSON.stringify({
-            data: error.data,
-            warning: validationError.toString(),
-          }),
+          text: JSON.stringify(structuredContent),
         },
       ],
+      structuredContent,
     };
   }
 
@@ -3,6 +3,7 @@ export const toolNames = [
   'list-workbooks',
   'list-views',
   'query-datasource',
+  'fetch-query-page',
   'get-datasource-metadata',
   'get-workbook',
   'get-view-data',
@@ -15,6 +16,7 @@ export const toolNames = [
   'generate-pulse-metric-value-insight-bundle',
   'generate-pulse-insight-brief',
   'search-content',
+  'get-result-continuation',
 ] as const;
 export type ToolName = (typeof toolNames)[number];
 
@@ -28,9 +30,15 @@ export const toolGroupNames = [
 export type ToolGroupName = (typeof toolGroupNames)[number];
 
 export const toolGroups = {
-  datasource: ['list-datasources', 'get-datasource-metadata', 'query-datasource'],
+  datasource: [
+    'list-datasources',
+    'get-datasource-metadata',
+    'query-datasource',
+    'fetch-query-page',
+    'get-result-continuation',
+  ],
   workbook: ['list-workbooks', 'get-workbook'],
-  view: ['list-views', 'get-view-data', 'get-view-image'],
+  view: ['list-views', 'get-view-data', 'get-view-image', 'get-result-continuation'],
   pulse: [
     'list-all-pulse-metric-definitions',
     'list-pulse-metric-definitions-from-definition-ids',
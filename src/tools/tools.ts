@@ -8,7 +8,9 @@ import { getListPulseMetricDefinitionsFromDefinitionIdsTool } from './pulse/list
 import { getListPulseMetricsFromMetricDefinitionIdTool } from './pulse/listMetricsFromMetricDefinitionId/listPulseMetricsFromMetricDefinitionId.js';
 import { getListPulseMetricsFromMetricIdsTool } from './pulse/listMetricsFromMetricIds/listPulseMetricsFromMetricIds.js';
 import { getListPulseMetricSubscriptionsTool } from './pulse/listMetricSubscriptions/listPulseMetricSubscriptions.js';
+import { getFetchQueryPageTool } from './queryDatasource/fetchQueryPage.js';
 import { getQueryDatasourceTool } from './queryDatasource/queryDatasource.js';
+import { getGetResultContinuationTool } from './responseBudget/getResultContinuation.js';
 import { getGetViewDataTool } from './views/getViewData.js';
 import { getGetViewImageTool } from './views/getViewImage.js';
 import { getListViewsTool } from './views/listViews.js';
@@ -19,6 +21,7 @@ export const toolFactories = [
   getGetDatasourceMetadataTool,
   getListDatasourcesTool,
   getQueryDatasourceTool,
+  getFetchQueryPageTool,
   getListAllPulseMetricDefinitionsTool,
   getListPulseMetricDefinitionsFromDefinitionIdsTool,
   getListPulseMetricsFromMetricDefinitionIdTool,
@@ -32,4 +35,5 @@ export const toolFactories = [
   getListWorkbooksTool,
   getListViewsTool,
   getSearchContentTool,
+  getGetResultContinuationTool,
 ];
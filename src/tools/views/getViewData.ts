@@ -2,11 +2,13 @@ import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { Err, Ok } from 'ts-results-es';
 import { z } from 'zod';
 
+import { applyColumnPoliciesToCsv } from '../../columnPolicies/columnPolicies.js';
 import { getConfig } from '../../config.js';
 import { useRestApi } from '../../restApiInstance.js';
 import { Server } from '../../server.js';
 import { getTableauAuthInfo } from '../../server/oauth/getTableauAuthInfo.js';
 import { resourceAccessChecker } from '../resourceAccessChecker.js';
+import { getCsvTabularResult } from '../responseBudget/responseBudget.js';
 import { Tool } from '../tool.js';
 
 const paramsSchema = {
@@ -25,6 +27,7 @@ export const getGetViewDataTool = (server: Server): Tool<typeof paramsSchema> =>
     description:
       'Retrieves data in comma separated value (CSV) format for the specified view in a Tableau workbook.',
     paramsSchema,
+    resultSchema: z.string().describe('The data of the view in CSV format'),
     annotations: {
       title: 'Get View Data',
       readOnlyHint: true,
@@ -36,6 +39,7 @@ export const getGetViewDataTool = (server: Server): Tool<typeof paramsSchema> =>
       return await getViewDataTool.logAndExecute<string, GetViewDataError>({
         requestId,
         authInfo,
+        signal,
         args: { viewId },
         callback: async () => {
           const isViewAllowedResult = await resourceAccessChecker.isViewAllowed({
@@ -50,21 +54,27 @@ export const getGetViewDataTool = (server: Server): Tool<typeof paramsSchema> =>
             });
           }
 
+          const viewData = await useRestApi({
+            config,
+            requestId,
+            server,
+            jwtScopes: ['tableau:views:download'],
+            signal,
+            authInfo: getTableauAuthInfo(authInfo),
+            callback: async (restApi) => {
+              return await restApi.viewsMethods.queryViewData({
+                viewId,
+                siteId: restApi.siteId,
+              });
+            },
+          });
+
           return new Ok(
-            await useRestApi({
-              config,
-              requestId,
-              server,
-              jwtScopes: ['tableau:views:download'],
-              signal,
-              authInfo: getTableauAuthInfo(authInfo),
-              callback: async (restApi) => {
-                return await restApi.viewsMethods.queryViewData({
-                  viewId,
-                  siteId: restApi.siteId,
-                });
-              },
-            }),
+            applyColumnPoliciesToCsv(
+              resourceAccessChecker.getColumnPolicyRules(),
+              viewData,
+              config.columnPolicyHashSecret,
+            ),
           );
         },
         constrainSuccessResult: (viewData) => {
@@ -73,6 +83,7 @@ export const getGetViewDataTool = (server: Server): Tool<typeof paramsSchema> =>
             result: viewData,
           };
         },
+        tabularResult: getCsvTabularResult(),
         getErrorText: (error: GetViewDataError) => {
           switch (error.type) {
             case 'view-not-allowed':
@@ -6,7 +6,10 @@ import { getConfig } from '../../config.js';
 import { useRestApi } from '../../restApiInstance.js';
 import { Server } from '../../server.js';
 import { getTableauAuthInfo } from '../../server/oauth/getTableauAuthInfo.js';
-import { convertPngDataToToolResult } from '../convertPngDataToToolResult.js';
+import {
+  convertPngDataToToolResult,
+  viewImageResultSchema,
+} from '../convertPngDataToToolResult.js';
 import { resourceAccessChecker } from '../resourceAccessChecker.js';
 import { Tool } from '../tool.js';
 
@@ -28,6 +31,7 @@ export const getGetViewImageTool = (server: Server): Tool<typeof paramsSchema> =
     description:
       'Retrieves an image of the specified view in a Tableau workbook. The width and height in pixels can be provided. The default width and height are both 800 pixels.',
     paramsSchema,
+    resultSchema: viewImageResultSchema,
     annotations: {
       title: 'Get View Image',
       readOnlyHint: true,
@@ -42,6 +46,7 @@ export const getGetViewImageTool = (server: Server): Tool<typeof paramsSchema> =
       return await getViewImageTool.logAndExecute<string, GetViewImageError>({
         requestId,
         authInfo,
+        signal,
         args: { viewId },
         callback: async () => {
           const isViewAllowedResult = await resourceAccessChecker.isViewAllowed({
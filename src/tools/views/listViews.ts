@@ -4,11 +4,17 @@ import { z } from 'zod';
 
 import { BoundedContext, getConfig } from '../../config.js';
 import { useRestApi } from '../../restApiInstance.js';
-import { View } from '../../sdks/tableau/types/view.js';
+import { View, viewSchema } from '../../sdks/tableau/types/view.js';
 import { Server } from '../../server.js';
 import { getTableauAuthInfo } from '../../server/oauth/getTableauAuthInfo.js';
 import { paginate } from '../../utils/paginate.js';
+import {
+  getContentExclusionReason,
+  getTagLabels,
+  hasContentRules,
+} from '../boundedContextRules.js';
 import { genericFilterDescription } from '../genericFilterDescription.js';
+import { resourceAccessChecker } from '../resourceAccessChecker.js';
 import { ConstrainedResult, Tool } from '../tool.js';
 import { parseAndValidateViewsFilterString } from './viewsFilterUtils.js';
 
@@ -61,6 +67,7 @@ export const getListViewsTool = (server: Server): Tool<typeof paramsSchema> => {
   - List views with the name "Overview" in the "Finance" project and created after January 1, 2023:
       filter: "name:eq:Overview,projectName:eq:Finance,createdAt:gt:2023-01-01T00:00:00Z"`,
     paramsSchema,
+    resultSchema: z.array(viewSchema),
     annotations: {
       title: 'List Views',
       readOnlyHint: true,
@@ -68,7 +75,7 @@ export const getListViewsTool = (server: Server): Tool<typeof paramsSchema> => {
     },
     callback: async (
       { filter, pageSize, limit },
-      { requestId, authInfo, signal },
+      { requestId, authInfo, signal, _meta, sendNotification },
     ): Promise<CallToolResult> => {
       const config = getConfig();
       const validatedFilter = filter ? parseAndValidateViewsFilterString(filter) : undefined;
@@ -76,8 +83,10 @@ export const getListViewsTool = (server: Server): Tool<typeof paramsSchema> => {
       return await listViewsTool.logAndExecute({
         requestId,
         authInfo,
+        signal,
+        requestExtra: { _meta, sendNotification },
         args: {},
-        callback: async () => {
+        callback: async (reportProgress) => {
           return new Ok(
             await useRestApi({
               config,
@@ -86,6 +95,7 @@ export const getListViewsTool = (server: Server): Tool<typeof paramsSchema> => {
               jwtScopes: ['tableau:content:read'],
               signal,
               authInfo: getTableauAuthInfo(authInfo),
+              reportProgress,
               callback: async (restApi) => {
                 const maxResultLimit = config.getMaxResultLimit(listViewsTool.name);
                 const views = await paginate({
@@ -95,6 +105,7 @@ export const getListViewsTool = (server: Server): Tool<typeof paramsSchema> => {
                       ? Math.min(maxResultLimit, limit ?? Number.MAX_SAFE_INTEGER)
                       : limit,
                   },
+                  reportProgress,
                   getDataFn: async (pageConfig) => {
                     const { pagination, views: data } =
                       await restApi.viewsMethods.queryViewsForSite({
@@ -114,8 +125,16 @@ export const getListViewsTool = (server: Server): Tool<typeof paramsSchema> => {
             }),
           );
         },
-        constrainSuccessResult: (views) =>
-          constrainViews({ views, boundedContext: config.boundedContext }),
+        constrainSuccessResult: async (views) =>
+          constrainViews({
+            views,
+            boundedContext: await resourceAccessChecker.getBoundedContext({
+              config,
+              requestId,
+              server,
+              signal,
+            }),
+          }),
       });
     },
   });
@@ -137,9 +156,16 @@ export function constrainViews({
     };
   }
 
-  const { projectIds, workbookIds } = boundedContext;
-  if (projectIds) {
-    views = views.filter((view) => (view.project?.id ? projectIds.has(view.project.id) : false));
+  const { workbookIds } = boundedContext;
+  if (hasContentRules(boundedContext)) {
+    views = views.filter(
+      (view) =>
+        !getContentExclusionReason(boundedContext, {
+          projectId: view.project?.id,
+          ownerId: view.owner?.id,
+          tags: getTagLabels(view.tags),
+        }),
+    );
   }
 
   if (workbookIds) {
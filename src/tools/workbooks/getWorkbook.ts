@@ -4,7 +4,7 @@ import { z } from 'zod';
 
 import { getConfig } from '../../config.js';
 import { useRestApi } from '../../restApiInstance.js';
-import { Workbook } from '../../sdks/tableau/types/workbook.js';
+import { Workbook, workbookSchema } from '../../sdks/tableau/types/workbook.js';
 import { Server } from '../../server.js';
 import { getTableauAuthInfo } from '../../server/oauth/getTableauAuthInfo.js';
 import { resourceAccessChecker } from '../resourceAccessChecker.js';
@@ -26,6 +26,7 @@ export const getGetWorkbookTool = (server: Server): Tool<typeof paramsSchema> =>
     description:
       'Retrieves information about the specified workbook, including information about the views contained in the workbook.',
     paramsSchema,
+    resultSchema: workbookSchema,
     annotations: {
       title: 'Get Workbook',
       readOnlyHint: true,
@@ -37,6 +38,7 @@ export const getGetWorkbookTool = (server: Server): Tool<typeof paramsSchema> =>
       return await getWorkbookTool.logAndExecute<Workbook, GetWorkbookError>({
         requestId,
         authInfo,
+        signal,
         args: { workbookId },
         callback: async () => {
           const isWorkbookAllowedResult = await resourceAccessChecker.isWorkbookAllowed({
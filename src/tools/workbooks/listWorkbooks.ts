@@ -4,11 +4,17 @@ import { z } from 'zod';
 
 import { BoundedContext, getConfig } from '../../config.js';
 import { useRestApi } from '../../restApiInstance.js';
-import { Workbook } from '../../sdks/tableau/types/workbook.js';
+import { Workbook, workbookSchema } from '../../sdks/tableau/types/workbook.js';
 import { Server } from '../../server.js';
 import { getTableauAuthInfo } from '../../server/oauth/getTableauAuthInfo.js';
 import { paginate } from '../../utils/paginate.js';
+import {
+  getContentExclusionReason,
+  getTagLabels,
+  hasContentRules,
+} from '../boundedContextRules.js';
 import { genericFilterDescription } from '../genericFilterDescription.js';
+import { resourceAccessChecker } from '../resourceAccessChecker.js';
 import { ConstrainedResult, Tool } from '../tool.js';
 import { parseAndValidateWorkbooksFilterString } from './workbooksFilterUtils.js';
 
@@ -58,6 +64,7 @@ export const getListWorkbooksTool = (server: Server): Tool<typeof paramsSchema>
   - List workbooks with the name "Superstore" in the "Finance" project and created after January 1, 2023:
       filter: "name:eq:Superstore,projectName:eq:Finance,createdAt:gt:2023-01-01T00:00:00Z"`,
     paramsSchema,
+    resultSchema: z.array(workbookSchema),
     annotations: {
       title: 'List Workbooks',
       readOnlyHint: true,
@@ -65,7 +72,7 @@ export const getListWorkbooksTool = (server: Server): Tool<typeof paramsSchema>
     },
     callback: async (
       { filter, pageSize, limit },
-      { requestId, authInfo, signal },
+      { requestId, authInfo, signal, _meta, sendNotification },
     ): Promise<CallToolResult> => {
       const config = getConfig();
       const validatedFilter = filter ? parseAndValidateWorkbooksFilterString(filter) : undefined;
@@ -73,8 +80,10 @@ export const getListWorkbooksTool = (server: Server): Tool<typeof paramsSchema>
       return await listWorkbooksTool.logAndExecute({
         requestId,
         authInfo,
+        signal,
+        requestExtra: { _meta, sendNotification },
         args: {},
-        callback: async () => {
+        callback: async (reportProgress) => {
           return new Ok(
             await useRestApi({
               config,
@@ -83,6 +92,7 @@ export const getListWorkbooksTool = (server: Server): Tool<typeof paramsSchema>
               jwtScopes: ['tableau:content:read'],
               signal,
               authInfo: getTableauAuthInfo(authInfo),
+              reportProgress,
               callback: async (restApi) => {
                 const maxResultLimit = config.getMaxResultLimit(listWorkbooksTool.name);
                 const workbooks = await paginate({
@@ -92,6 +102,7 @@ export const getListWorkbooksTool = (server: Server): Tool<typeof paramsSchema>
                       ? Math.min(maxResultLimit, limit ?? Number.MAX_SAFE_INTEGER)
                       : limit,
                   },
+                  reportProgress,
                   getDataFn: async (pageConfig) => {
                     const { pagination, workbooks: data } =
                       await restApi.workbooksMethods.queryWorkbooksForSite({
@@ -110,8 +121,16 @@ export const getListWorkbooksTool = (server: Server): Tool<typeof paramsSchema>
             }),
           );
         },
-        constrainSuccessResult: (workbooks) =>
-          constrainWorkbooks({ workbooks, boundedContext: config.boundedContext }),
+        constrainSuccessResult: async (workbooks) =>
+          constrainWorkbooks({
+            workbooks,
+            boundedContext: await resourceAccessChecker.getBoundedContext({
+              config,
+              requestId,
+              server,
+              signal,
+            }),
+          }),
       });
     },
   });
@@ -134,10 +153,15 @@ export function constrainWorkbooks({
     };
   }
 
-  const { projectIds, workbookIds } = boundedContext;
-  if (projectIds) {
-    workbooks = workbooks.filter((workbook) =>
-      workbook.project?.id ? projectIds.has(workbook.project.id) : false,
+  const { workbookIds } = boundedContext;
+  if (hasContentRules(boundedContext)) {
+    workbooks = workbooks.filter(
+      (workbook) =>
+        !getContentExclusionReason(boundedContext, {
+          projectId: workbook.project?.id,
+          ownerId: workbook.owner?.id,
+          tags: getTagLabels(workbook.tags),
+        }),
     );
   }
 
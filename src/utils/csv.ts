@@ -0,0 +1,56 @@
+/**
+ * Parses CSV text into its records, following RFC 4180 quoting rules.
+ * A trailing line break does not produce an empty record.
+ */
+export function parseCsv(text: string): Array<Array<string>> {
+  const records: Array<Array<string>> = [];
+  let record: Array<string> = [];
+  let value = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(value);
+      value = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+
+      record.push(value);
+      records.push(record);
+      record = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+
+  if (value || record.length > 0) {
+    record.push(value);
+    records.push(record);
+  }
+
+  return records;
+}
+
+export function formatCsv(records: Array<Array<string>>): string {
+  return records.map((record) => record.map(escapeCsvValue).join(',')).join('\n');
+}
+
+export function escapeCsvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
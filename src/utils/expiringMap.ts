@@ -1,8 +1,16 @@
 export class ExpiringMap<K, V> extends Map<K, V> {
   private timeouts: Map<K, NodeJS.Timeout>;
   private expirationTimeMs: number;
-
-  constructor({ defaultExpirationTimeMs }: { defaultExpirationTimeMs: number }) {
+  private onExpire?: (key: K, value: V) => void;
+
+  constructor({
+    defaultExpirationTimeMs,
+    onExpire,
+  }: {
+    defaultExpirationTimeMs: number;
+    // Called when an entry expires, but not when it is deleted or the map is cleared.
+    onExpire?: (key: K, value: V) => void;
+  }) {
     super();
 
     if (defaultExpirationTimeMs <= 0) {
@@ -16,6 +24,7 @@ export class ExpiringMap<K, V> extends Map<K, V> {
 
     this.timeouts = new Map();
     this.expirationTimeMs = defaultExpirationTimeMs;
+    this.onExpire = onExpire;
   }
 
   get defaultExpirationTimeMs(): number {
@@ -43,6 +52,7 @@ export class ExpiringMap<K, V> extends Map<K, V> {
     // Set a timeout to delete the key
     const timeout = setTimeout(() => {
       this.delete(key);
+      this.onExpire?.(key, value);
     }, expirationTimeMs);
 
     this.timeouts.set(key, timeout);
@@ -0,0 +1,43 @@
+import { Config } from '../config.js';
+import { TableauAuthInfo } from '../server/oauth/schemas.js';
+
+/**
+ * Gets a string that identifies the Tableau user a request runs as,
+ * so data cached on behalf of one user is never served to another.
+ *
+ * @param config - The server configuration
+ * @param authInfo - The Tableau authentication info provided when OAuth is enabled
+ */
+export function getUserIdentity(config: Config, authInfo: TableauAuthInfo | undefined): string {
+  if (authInfo?.username) {
+    // User LUIDs are unique to a site, so they also tell users of different sites apart.
+    return JSON.stringify([
+      authInfo.server ?? config.server,
+      'oauth',
+      authInfo.userId ?? authInfo.username,
+    ]);
+  }
+
+  switch (config.auth) {
+    case 'pat':
+      return JSON.stringify([config.server, config.siteName, 'pat', config.patName]);
+    default:
+      return JSON.stringify([config.server, config.siteName, config.auth, config.jwtUsername]);
+  }
+}
+
+/**
+ * Gets the name of the Tableau user a request runs as, if known.
+ * Without OAuth, requests run as the user of the connected app, if any.
+ *
+ * @param config - The server configuration
+ * @param authInfo - The Tableau authentication info provided when OAuth is enabled
+ */
+export function getUsername(
+  config: Config,
+  authInfo: TableauAuthInfo | undefined,
+): string | undefined {
+  return (
+    authInfo?.username ?? (config.auth === 'pat' ? undefined : config.jwtUsername || undefined)
+  );
+}
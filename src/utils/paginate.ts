@@ -3,6 +3,7 @@ import { z } from 'zod';
 
 import { PulseResult } from '../sdks/tableau/methods/pulseMethods.js';
 import { Pagination, PulsePagination } from '../sdks/tableau/types/pagination.js';
+import { ProgressReporter } from './progressReporter.js';
 
 const pageConfigSchema = z
   .object({
@@ -17,14 +18,21 @@ type PageConfig = z.infer<typeof pageConfigSchema>;
 type PaginateArgs<T> = {
   pageConfig: PageConfig;
   getDataFn: (pagination: PageConfig) => Promise<{ pagination: Pagination; data: Array<T> }>;
+  reportProgress?: ProgressReporter;
 };
 
-export async function paginate<T>({ pageConfig, getDataFn }: PaginateArgs<T>): Promise<Array<T>> {
+export async function paginate<T>({
+  pageConfig,
+  getDataFn,
+  reportProgress,
+}: PaginateArgs<T>): Promise<Array<T>> {
   const { pageSize, limit } = pageConfigSchema.parse(pageConfig);
   const { pagination, data } = await getDataFn(pageConfig);
   const result = [...data];
 
   let { totalAvailable, pageNumber } = pagination;
+  await reportProgress?.(`Fetched page ${pageNumber}: ${result.length} of ${totalAvailable} items`);
+
   while (totalAvailable > result.length && (!limit || limit > result.length)) {
     const { pagination: nextPagination, data: nextData } = await getDataFn({
       pageSize,
@@ -40,6 +48,9 @@ export async function paginate<T>({ pageConfig, getDataFn }: PaginateArgs<T>): P
 
     ({ totalAvailable, pageNumber } = nextPagination);
     result.push(...nextData);
+    await reportProgress?.(
+      `Fetched page ${pageNumber}: ${result.length} of ${totalAvailable} items`,
+    );
   }
 
   if (limit && limit < result.length) {
@@ -64,11 +75,13 @@ type PulsePaginateArgs<T> = {
     pageToken?: string,
     pageSize?: number,
   ) => Promise<PulseResult<{ pagination: PulsePagination; data: Array<T> }>>;
+  reportProgress?: ProgressReporter;
 };
 
 export async function pulsePaginate<T>({
   config,
   getDataFn,
+  reportProgress,
 }: PulsePaginateArgs<T>): Promise<PulseResult<Array<T>>> {
   const validatedConfig = pulsePaginateConfigSchema.parse(config);
   const limit = validatedConfig?.limit;
@@ -81,6 +94,10 @@ export async function pulsePaginate<T>({
   const { pagination, data } = result.value;
   const resultArray = [...data];
   const total_available = pagination.total_available;
+  let pageCount = 1;
+  await reportProgress?.(
+    getPulsePageProgressMessage(pageCount, resultArray.length, total_available),
+  );
 
   let next_page_token = pagination.next_page_token;
 
@@ -105,6 +122,10 @@ export async function pulsePaginate<T>({
 
     ({ next_page_token } = nextPagination);
     resultArray.push(...nextData);
+    pageCount++;
+    await reportProgress?.(
+      getPulsePageProgressMessage(pageCount, resultArray.length, total_available),
+    );
   }
 
   if (limit && limit < resultArray.length) {
@@ -113,3 +134,14 @@ export async function pulsePaginate<T>({
 
   return new Ok(resultArray);
 }
+
+// The total is not known when the Pulse API does not return it.
+function getPulsePageProgressMessage(
+  pageCount: number,
+  itemCount: number,
+  totalAvailable: number | undefined,
+): string {
+  return totalAvailable
+    ? `Fetched page ${pageCount}: ${itemCount} of ${totalAvailable} items`
+    : `Fetched page ${pageCount}: ${itemCount} items`;
+}
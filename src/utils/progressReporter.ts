@@ -0,0 +1,39 @@
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export type ProgressRequestExtra = Pick<
+  RequestHandlerExtra<ServerRequest, ServerNotification>,
+  '_meta' | 'sendNotification'
+>;
+
+/**
+ * Reports that a request has reached its next stage, e.g. "Signing in to Tableau".
+ */
+export type ProgressReporter = (message: string) => Promise<void>;
+
+/**
+ * Gets a reporter that sends a progress notification for each stage of a request,
+ * or does nothing when the client did not provide a progress token with the request.
+ *
+ * The total number of stages is not known up front, so only the progress is sent, which increases with each stage.
+ * Failing to send a notification does not fail the request.
+ */
+export function getProgressReporter(extra: ProgressRequestExtra | undefined): ProgressReporter {
+  const progressToken = extra?._meta?.progressToken;
+  if (!extra || progressToken === undefined) {
+    return async () => {};
+  }
+
+  let progress = 0;
+  return async (message) => {
+    progress++;
+    try {
+      await extra.sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken, progress, message },
+      });
+    } catch {
+      // The client may have disconnected, in which case it would not get the result either.
+    }
+  };
+}
@@ -0,0 +1,291 @@
+import net from 'net';
+import tls from 'tls';
+
+export type RedisValue = string | number | null | Array<RedisValue>;
+
+type PendingCommand = {
+  resolve: (value: RedisValue) => void;
+  reject: (error: Error) => void;
+};
+
+// How long commands fail right away after a connection could not be opened, which doubles with every failure.
+const minReconnectDelayMs = 100;
+const maxReconnectDelayMs = 10 * 1000;
+
+export class RedisError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedisError';
+  }
+}
+
+/**
+ * A minimal client for servers that speak the Redis protocol (RESP2), such as Redis, Valkey or KeyDB.
+ *
+ * Commands are pipelined over a single connection that is opened on the first command
+ * and reopened on the next command after it is lost.
+ * Opening the connection and every command fail after the timeout, so an unreachable or stalled server
+ * doesn't hold up its callers. A command that times out closes the connection, since the replies that
+ * follow could no longer be matched to their commands. After a connection could not be opened, commands
+ * fail right away for a while, backing off exponentially.
+ *
+ * @param url - e.g. redis://:password@host:6379/0, or rediss:// for TLS
+ * @param timeoutMs - How long opening the connection, and each command, can take
+ */
+export class RedisClient {
+  private readonly _url: URL;
+  private readonly _timeoutMs: number;
+  private _socket: net.Socket | undefined;
+  private _connecting: Promise<net.Socket> | undefined;
+  private _buffer = Buffer.alloc(0);
+  private _pending: Array<PendingCommand> = [];
+  private _failedConnections = 0;
+  private _reconnectAt = 0;
+
+  constructor(url: string, { timeoutMs }: { timeoutMs: number }) {
+    this._url = new URL(url);
+    if (this._url.protocol !== 'redis:' && this._url.protocol !== 'rediss:') {
+      throw new Error(`Unsupported Redis URL protocol: ${this._url.protocol}`);
+    }
+
+    this._timeoutMs = timeoutMs;
+  }
+
+  async command(...args: Array<string | number>): Promise<RedisValue> {
+    const socket = await this._connect();
+    return this._send(socket, args);
+  }
+
+  async close(): Promise<void> {
+    const socket = this._socket;
+    if (!socket) {
+      return;
+    }
+
+    await this.command('QUIT').catch(() => undefined);
+    socket.destroy();
+  }
+
+  private _connect(): Promise<net.Socket> {
+    if (this._socket) {
+      return Promise.resolve(this._socket);
+    }
+
+    if (!this._connecting) {
+      const reconnectDelayMs = this._reconnectAt - Date.now();
+      if (reconnectDelayMs > 0) {
+        return Promise.reject(
+          new RedisError(
+            `The Redis server could not be reached. Reconnecting in ${reconnectDelayMs}ms`,
+          ),
+        );
+      }
+
+      this._connecting = this._open()
+        .then(
+          (socket) => {
+            this._failedConnections = 0;
+            return socket;
+          },
+          (error) => {
+            this._reconnectAt =
+              Date.now() +
+              Math.min(maxReconnectDelayMs, minReconnectDelayMs * 2 ** this._failedConnections);
+            this._failedConnections++;
+            throw error;
+          },
+        )
+        .finally(() => {
+          this._connecting = undefined;
+        });
+    }
+
+    return this._connecting;
+  }
+
+  private async _open(): Promise<net.Socket> {
+    const host = this._url.hostname || 'localhost';
+    const port = parseInt(this._url.port || '6379');
+
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const onConnect = (): void => {
+        clearTimeout(connectTimeout);
+        socket.off('error', reject);
+        resolve(socket);
+      };
+
+      const socket =
+        this._url.protocol === 'rediss:'
+          ? tls.connect({ host, port, servername: host }, onConnect)
+          : net.connect({ host, port }, onConnect);
+
+      socket.once('error', reject);
+
+      const connectTimeout = setTimeout(() => {
+        socket.destroy(
+          new RedisError(`Connecting to the Redis server timed out after ${this._timeoutMs}ms`),
+        );
+      }, this._timeoutMs);
+    });
+
+    socket.on('data', (data) => {
+      try {
+        this._onData(data);
+      } catch {
+        // The rest of the stream can't be parsed after an unexpected reply.
+        socket.destroy();
+      }
+    });
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => this._onClose(socket));
+
+    const username = decodeURIComponent(this._url.username);
+    const password = decodeURIComponent(this._url.password);
+    const database = this._url.pathname.slice(1);
+
+    // Commands sent before the socket is made available are answered first, so these complete before any other.
+    const setup: Array<Promise<RedisValue>> = [];
+    if (password) {
+      setup.push(this._send(socket, username ? ['AUTH', username, password] : ['AUTH', password]));
+    }
+
+    if (database) {
+      setup.push(this._send(socket, ['SELECT', database]));
+    }
+
+    try {
+      await Promise.all(setup);
+    } catch (error) {
+      socket.destroy();
+      throw error;
+    }
+
+    this._socket = socket;
+    return socket;
+  }
+
+  private _send(socket: net.Socket, args: Array<string | number>): Promise<RedisValue> {
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        reject(new RedisError(`The Redis command ${args[0]} timed out after ${this._timeoutMs}ms`));
+        socket.destroy();
+      }, this._timeoutMs);
+
+      this._pending.push({
+        resolve: (value) => {
+          clearTimeout(timeout);
+          resolve(value);
+        },
+        reject: (error) => {
+          clearTimeout(timeout);
+          reject(error);
+        },
+      });
+
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private _onData(data: Buffer): void {
+    this._buffer = Buffer.concat([this._buffer, data]);
+
+    for (;;) {
+      const parsed = parseReply(this._buffer, 0);
+      if (!parsed) {
+        return;
+      }
+
+      this._buffer = this._buffer.subarray(parsed.end);
+
+      const pending = this._pending.shift();
+      if (parsed.value instanceof RedisError) {
+        pending?.reject(parsed.value);
+      } else {
+        pending?.resolve(parsed.value);
+      }
+    }
+  }
+
+  private _onClose(socket: net.Socket): void {
+    if (this._socket === socket) {
+      this._socket = undefined;
+    }
+
+    this._buffer = Buffer.alloc(0);
+
+    const pending = this._pending;
+    this._pending = [];
+    for (const { reject } of pending) {
+      reject(new RedisError('Connection to the Redis server was closed'));
+    }
+  }
+}
+
+function encodeCommand(args: Array<string | number>): Buffer {
+  const parts = args.map((arg) => Buffer.from(String(arg)));
+  return Buffer.concat([
+    Buffer.from(`*${parts.length}\r\n`),
+    ...parts.flatMap((part) => [Buffer.from(`$${part.length}\r\n`), part, Buffer.from('\r\n')]),
+  ]);
+}
+
+type ParsedReply = {
+  value: RedisValue | RedisError;
+  end: number;
+};
+
+// Parses the reply that starts at the offset, or returns undefined when the buffer does not hold all of it yet.
+function parseReply(buffer: Buffer, offset: number): ParsedReply | undefined {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) {
+    return;
+  }
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, end: next };
+    case '-':
+      return { value: new RedisError(line), end: next };
+    case ':':
+      return { value: parseInt(line), end: next };
+    case '$': {
+      const length = parseInt(line);
+      if (length < 0) {
+        return { value: null, end: next };
+      }
+
+      if (buffer.length < next + length + 2) {
+        return;
+      }
+
+      return { value: buffer.toString('utf8', next, next + length), end: next + length + 2 };
+    }
+    case '*': {
+      const count = parseInt(line);
+      if (count < 0) {
+        return { value: null, end: next };
+      }
+
+      const values: Array<RedisValue> = [];
+      let end = next;
+      for (let i = 0; i < count; i++) {
+        const element = parseReply(buffer, end);
+        if (!element) {
+          return;
+        }
+
+        // Errors nested in arrays only come from transactions, which this client does not use.
+        values.push(element.value instanceof RedisError ? null : element.value);
+        end = element.end;
+      }
+
+      return { value: values, end };
+    }
+    default:
+      throw new RedisError(`Unexpected Redis reply type: ${type}`);
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * A buffer of the most recent items, up to its capacity. Adding an item to a full buffer removes the oldest one.
+ */
+export class RingBuffer<T> {
+  private readonly _items: Array<T | undefined>;
+  private _start = 0;
+  private _size = 0;
+
+  constructor(capacity: number) {
+    if (capacity <= 0) {
+      throw new Error('Capacity must be greater than 0');
+    }
+
+    this._items = new Array(capacity);
+  }
+
+  get size(): number {
+    return this._size;
+  }
+
+  get capacity(): number {
+    return this._items.length;
+  }
+
+  push(item: T): void {
+    this._items[(this._start + this._size) % this.capacity] = item;
+    if (this._size < this.capacity) {
+      this._size++;
+    } else {
+      this._start = (this._start + 1) % this.capacity;
+    }
+  }
+
+  clear(): void {
+    this._items.fill(undefined);
+    this._start = 0;
+    this._size = 0;
+  }
+
+  // Iterates over the items from the oldest to the newest.
+  *[Symbol.iterator](): IterableIterator<T> {
+    for (let i = 0; i < this._size; i++) {
+      yield this._items[(this._start + i) % this.capacity] as T;
+    }
+  }
+}
@@ -0,0 +1,88 @@
+type Waiter = {
+  resolve: (release: () => void) => void;
+  timeout: NodeJS.Timeout;
+  signal: AbortSignal | undefined;
+  onAbort: () => void;
+};
+
+/**
+ * Limits how many tasks run at once. Tasks that can't run yet wait in a queue, in the order they arrived.
+ * The limit can be changed while tasks are running; lowering it only affects the tasks that start afterwards.
+ */
+export class Semaphore {
+  private _limit: number;
+  private _running = 0;
+  private readonly _queue: Array<Waiter> = [];
+
+  constructor(limit: number) {
+    this._limit = limit;
+  }
+
+  set limit(limit: number) {
+    this._limit = limit;
+    this._dequeue();
+  }
+
+  /**
+   * Waits until the task can run.
+   *
+   * @param timeoutMs - How long the task can wait in the queue
+   * @param signal - Aborts the task, which then leaves the queue
+   * @returns A function that must be called when the task is done,
+   * or undefined when the task waited too long or was aborted
+   */
+  acquire(timeoutMs: number, signal?: AbortSignal): Promise<(() => void) | undefined> {
+    if (signal?.aborted) {
+      return Promise.resolve(undefined);
+    }
+
+    if (this._running < this._limit) {
+      this._running++;
+      return Promise.resolve(this._getRelease());
+    }
+
+    return new Promise((resolve) => {
+      const leaveQueue = (): void => {
+        this._queue.splice(this._queue.indexOf(waiter), 1);
+        clearTimeout(waiter.timeout);
+        signal?.removeEventListener('abort', waiter.onAbort);
+        resolve(undefined);
+      };
+
+      const waiter: Waiter = {
+        resolve,
+        timeout: setTimeout(leaveQueue, timeoutMs),
+        signal,
+        onAbort: leaveQueue,
+      };
+
+      signal?.addEventListener('abort', leaveQueue, { once: true });
+      this._queue.push(waiter);
+    });
+  }
+
+  private _getRelease(): () => void {
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        this._running--;
+        this._dequeue();
+      }
+    };
+  }
+
+  private _dequeue(): void {
+    while (this._running < this._limit) {
+      const waiter = this._queue.shift();
+      if (!waiter) {
+        return;
+      }
+
+      clearTimeout(waiter.timeout);
+      waiter.signal?.removeEventListener('abort', waiter.onAbort);
+      this._running++;
+      waiter.resolve(this._getRelease());
+    }
+  }
+}
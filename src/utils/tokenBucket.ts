@@ -0,0 +1,49 @@
+/**
+ * A token bucket that allows bursts up to its capacity, and refills continuously at its capacity per interval.
+ * It starts full.
+ */
+export class TokenBucket {
+  private readonly _capacity: number;
+  private readonly _refillPerMs: number;
+  private _tokens: number;
+  private _refilledAt = Date.now();
+
+  constructor({ capacity, intervalMs }: { capacity: number; intervalMs: number }) {
+    if (capacity <= 0) {
+      throw new Error('Capacity must be greater than 0');
+    }
+
+    this._capacity = capacity;
+    this._refillPerMs = capacity / intervalMs;
+    this._tokens = capacity;
+  }
+
+  get capacity(): number {
+    return this._capacity;
+  }
+
+  /**
+   * Gets how long until a token is available, without taking it.
+   *
+   * @returns The time in milliseconds, or 0 when a token is available now
+   */
+  getWaitMs(): number {
+    this._refill();
+    return this._tokens >= 1 ? 0 : Math.ceil((1 - this._tokens) / this._refillPerMs);
+  }
+
+  // Takes a token, which must be available.
+  take(): void {
+    this._refill();
+    this._tokens--;
+  }
+
+  private _refill(): void {
+    const now = Date.now();
+    this._tokens = Math.min(
+      this._capacity,
+      this._tokens + (now - this._refilledAt) * this._refillPerMs,
+    );
+    this._refilledAt = now;
+  }
+}
@@ -1,4 +1,5 @@
 export interface ProcessEnvEx {
+  CONFIG_FILE: string | undefined;
   AUTH: string | undefined;
   TRANSPORT: string | undefined;
   SSL_KEY: string | undefined;
@@ -27,17 +28,64 @@ export interface ProcessEnvEx {
   DISABLE_LOG_MASKING: string | undefined;
   INCLUDE_TOOLS: string | undefined;
   EXCLUDE_TOOLS: string | undefined;
+  TOOL_POLICIES: string | undefined;
+  COLUMN_POLICIES: string | undefined;
+  COLUMN_POLICY_HASH_SECRET: string | undefined;
   MAX_REQUEST_TIMEOUT_MS: string | undefined;
+  MAX_REQUEST_RETRIES: string | undefined;
   MAX_RESULT_LIMIT: string | undefined;
   MAX_RESULT_LIMITS: string | undefined;
+  MAX_RESPONSE_SIZE: string | undefined;
+  MAX_RESPONSE_SIZES: string | undefined;
+  RATE_LIMIT: string | undefined;
+  RATE_LIMITS: string | undefined;
+  USER_RATE_LIMIT: string | undefined;
+  MAX_CONCURRENT_CALLS_PER_SITE: string | undefined;
+  CONCURRENCY_QUEUE_TIMEOUT_MS: string | undefined;
+  RESPONSE_SIZE_UNIT: string | undefined;
+  RESULT_CONTINUATION_TIMEOUT_MS: string | undefined;
+  RESULT_CONTINUATION_MAX_ENTRIES: string | undefined;
+  MAX_QUERY_CURSOR_ROWS: string | undefined;
+  QUERY_CURSOR_TIMEOUT_MS: string | undefined;
+  QUERY_CURSOR_MAX_ENTRIES: string | undefined;
+  QUERY_CURSOR_MAX_ENTRIES_PER_USER: string | undefined;
+  QUERY_RESULT_CACHE_TTL_MS: string | undefined;
+  QUERY_RESULT_CACHE_TTLS: string | undefined;
+  QUERY_RESULT_CACHE_MAX_ENTRIES: string | undefined;
+  METADATA_CACHE_TTL_MS: string | undefined;
+  METADATA_CACHE_MAX_ENTRIES: string | undefined;
+  ADMIN_API_KEY: string | undefined;
+  METRICS_API_KEY: string | undefined;
+  READINESS_CHECK_CACHE_TTL_MS: string | undefined;
   DISABLE_QUERY_DATASOURCE_VALIDATION_REQUESTS: string | undefined;
   DISABLE_METADATA_API_REQUESTS: string | undefined;
   DISABLE_SESSION_MANAGEMENT: string | undefined;
+  SESSION_STORE: string | undefined;
+  SESSION_STORE_PATH: string | undefined;
+  SESSION_STORE_URL: string | undefined;
+  SESSION_STORE_TIMEOUT_MS: string | undefined;
+  SESSION_IDLE_TIMEOUT_MS: string | undefined;
+  MAX_SESSIONS_PER_USER: string | undefined;
+  EVENT_STORE_SIZE: string | undefined;
+  EVENT_STORE_DIRECTORY: string | undefined;
+  DISABLE_REST_SESSION_POOLING: string | undefined;
+  REST_SESSION_TTL_MS: string | undefined;
   ENABLE_SERVER_LOGGING: string | undefined;
   SERVER_LOG_DIRECTORY: string | undefined;
+  AUDIT_LOG: string | undefined;
+  AUDIT_LOG_DIRECTORY: string | undefined;
+  AUDIT_LOG_RETENTION_DAYS: string | undefined;
+  AUDIT_WEBHOOK_URL: string | undefined;
+  AUDIT_WEBHOOK_SECRET: string | undefined;
   INCLUDE_PROJECT_IDS: string | undefined;
   INCLUDE_DATASOURCE_IDS: string | undefined;
   INCLUDE_WORKBOOK_IDS: string | undefined;
+  INCLUDE_TAGS: string | undefined;
+  INCLUDE_CHILD_PROJECTS: string | undefined;
+  CERTIFIED_DATASOURCES_ONLY: string | undefined;
+  INCLUDE_OWNER_IDS: string | undefined;
+  EXCLUDE_OWNER_IDS: string | undefined;
+  SITES: string | undefined;
   TABLEAU_SERVER_VERSION_CHECK_INTERVAL_IN_HOURS: string | undefined;
   DANGEROUSLY_DISABLE_OAUTH: string | undefined;
   OAUTH_ISSUER: string | undefined;